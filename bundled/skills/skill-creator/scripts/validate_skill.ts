@@ -13,7 +13,13 @@
 import { existsSync, readFileSync } from "node:fs";
 import { join } from "node:path";
 
-const ALLOWED_PROPERTIES = new Set(["name", "description", "license"]);
+const ALLOWED_PROPERTIES = new Set([
+	"name",
+	"description",
+	"license",
+	"requires",
+	"version",
+]);
 const MAX_NAME_LENGTH = 64;
 const MAX_DESCRIPTION_LENGTH = 1024;
 
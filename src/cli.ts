@@ -8,15 +8,43 @@ import {
 	existsSync,
 	mkdirSync,
 	readdirSync,
+	readFileSync,
 	statSync,
 	writeFileSync,
 } from "node:fs";
 import { join, resolve } from "node:path";
 import { Command } from "commander";
 
-import { resolveSkillSources } from "./gitSource.js";
-import { runServer } from "./index.js";
+import {
+	ConfigError,
+	type LoadedConfig,
+	loadConfig,
+	type ResolvedConfig,
+	selectProfile,
+	UnknownProfileError,
+} from "./config.js";
+import { FeedbackStore, formatFeedback } from "./feedback.js";
+import { localSourcePath, resolveSkillSources } from "./gitSource.js";
+import {
+	type CreateServerOptions,
+	runHttpServer,
+	runServer,
+} from "./index.js";
+import { DEFAULT_INSTRUCTIONS_MAX_LENGTH } from "./instructions.js";
+import {
+	createLogWriter,
+	DEFAULT_LOG_LEVEL,
+	LOG_LEVELS,
+	Logger,
+	type LogLevel,
+} from "./logger.js";
+import { formatProfiles, summariseProfiles } from "./profiles.js";
+import { PromptManager } from "./promptManager.js";
 import { updateReadmeAfterSkillCreation } from "./readmeUpdater.js";
+import { SYMLINK_POLICIES, type SymlinkPolicy } from "./safePath.js";
+import { SkillManager } from "./skillManager.js";
+import { DEFAULT_SKILL_TOOL_LIMIT } from "./skillTools.js";
+import { describeSources, formatSources } from "./sources.js";
 import {
 	GITIGNORE_TEMPLATE,
 	PROMPTS_GITKEEP,
@@ -24,11 +52,224 @@ import {
 	SKILLS_GITKEEP,
 } from "./templates/repoTemplate.js";
 import { generateSkillMd } from "./templates/skillTemplate.js";
+import {
+	aggregateUsage,
+	formatUsageTable,
+	getUsageLogPath,
+	parseTimeBound,
+	readUsageLog,
+	USAGE_DIMENSIONS,
+	type UsageDimension,
+} from "./usage.js";
 import { validatePrompt, validateSkill } from "./validation.js";
 import { VERSION } from "./version.js";
 
 const program = new Command();
 
+/**
+ * Options shared by the default command and `serve`.
+ */
+interface ServerCliOptions {
+	skillsPath?: string[];
+	bundled: boolean;
+	watch: boolean;
+	symlinkPolicy: string;
+	telemetry: boolean;
+	logLevel?: string;
+	logFile?: string;
+	instructions: boolean;
+	instructionsTemplate?: string;
+	instructionsMaxLength?: string;
+	exposeSkillsAsTools: boolean;
+	skillToolLimit?: string;
+	profile?: string;
+	/** Whether skillsPath holds the sources of a config file. */
+	pathsOrigin?: "cli" | "config";
+	/** Skill filters; only set from config files. */
+	include?: string[];
+	exclude?: string[];
+}
+
+/**
+ * Options specific to the `serve` command.
+ */
+interface ServeCliOptions {
+	transport: string;
+	port: string;
+	host: string;
+	allowedHosts?: string[];
+	allowedOrigins?: string[];
+}
+
+/**
+ * Load config files, exiting if one is invalid.
+ */
+function loadConfigOrExit(): LoadedConfig {
+	try {
+		return loadConfig();
+	} catch (e) {
+		if (!(e instanceof ConfigError)) throw e;
+		console.error(`Error: ${e.message}`);
+		process.exit(1);
+	}
+}
+
+/**
+ * Profile selected by --profile or SKILLKIT_PROFILE, if any.
+ */
+function profileOption(): string | undefined {
+	return program.opts<ServerCliOptions>().profile || undefined;
+}
+
+/**
+ * Load config files and apply the selected profile (--profile,
+ * SKILLKIT_PROFILE, then the config's 'profile' key), exiting if a file is
+ * invalid or the profile is unknown.
+ */
+function readConfig(): ResolvedConfig {
+	const { config } = loadConfigOrExit();
+	try {
+		return selectProfile(config, profileOption() ?? config.profile);
+	} catch (e) {
+		if (!(e instanceof UnknownProfileError)) throw e;
+		console.error(`Error: ${e.message}`);
+		process.exit(1);
+	}
+}
+
+/**
+ * Fill server options that were not given on the command line from config
+ * files. Sources from config are only used when neither --skills-path nor
+ * SKILLKIT_SKILLS_PATH is set.
+ */
+function applyConfig(
+	options: ServerCliOptions,
+	config: ResolvedConfig,
+): ServerCliOptions {
+	const hasEnvPaths = (process.env.SKILLKIT_SKILLS_PATH ?? "").trim() !== "";
+	const bundledFromCli = program.getOptionValueSource("bundled") === "cli";
+
+	const fromConfig = !options.skillsPath && !hasEnvPaths && !!config.sources;
+
+	return {
+		...options,
+		skillsPath: fromConfig ? config.sources : options.skillsPath,
+		pathsOrigin: fromConfig ? "config" : "cli",
+		bundled: bundledFromCli
+			? options.bundled
+			: (config.bundled ?? options.bundled),
+		logLevel: options.logLevel ?? config.logLevel,
+		include: config.include,
+		exclude: config.exclude,
+	};
+}
+
+/**
+ * Resolve configured skill sources, cloning git URLs to the local cache.
+ */
+async function resolvePaths(
+	options: ServerCliOptions,
+	logger?: Logger,
+): Promise<string[] | undefined> {
+	return options.skillsPath
+		? await resolveSkillSources(options.skillsPath, logger)
+		: undefined;
+}
+
+/**
+ * Create the server logger, mirroring it to stderr or --log-file when
+ * either logging option is given. Exits on an unknown level.
+ */
+function createLogger(options: ServerCliOptions): Logger {
+	if (
+		options.logLevel !== undefined &&
+		!LOG_LEVELS.includes(options.logLevel as LogLevel)
+	) {
+		console.error(
+			`Error: Unknown log level '${options.logLevel}'. Use: ${LOG_LEVELS.join(", ")}.`,
+		);
+		process.exit(1);
+	}
+
+	const logger = new Logger();
+	if (options.logLevel !== undefined || options.logFile !== undefined) {
+		const level = (options.logLevel as LogLevel) ?? DEFAULT_LOG_LEVEL;
+		logger.subscribe(
+			createLogWriter(
+				level,
+				options.logFile ? resolve(options.logFile) : undefined,
+			),
+		);
+	}
+	return logger;
+}
+
+/**
+ * Build server options from the CLI, exiting on invalid values.
+ */
+function serverOptions(
+	options: ServerCliOptions,
+	logger: Logger,
+): CreateServerOptions {
+	if (!SYMLINK_POLICIES.includes(options.symlinkPolicy as SymlinkPolicy)) {
+		console.error(
+			`Error: Unknown symlink policy '${options.symlinkPolicy}'. Use: ${SYMLINK_POLICIES.join(", ")}.`,
+		);
+		process.exit(1);
+	}
+
+	let instructionsTemplate: string | undefined;
+	if (options.instructionsTemplate) {
+		const templatePath = resolve(options.instructionsTemplate);
+		if (!existsSync(templatePath)) {
+			console.error(
+				`Error: Instructions template not found: ${options.instructionsTemplate}`,
+			);
+			process.exit(1);
+		}
+		instructionsTemplate = readFileSync(templatePath, "utf-8");
+	}
+
+	let instructionsMaxLength: number | undefined;
+	if (options.instructionsMaxLength !== undefined) {
+		instructionsMaxLength = Number(options.instructionsMaxLength);
+		if (!Number.isInteger(instructionsMaxLength) || instructionsMaxLength < 1) {
+			console.error(
+				`Error: Invalid instructions length '${options.instructionsMaxLength}'.`,
+			);
+			process.exit(1);
+		}
+	}
+
+	let skillToolLimit: number | undefined;
+	if (options.skillToolLimit !== undefined) {
+		skillToolLimit = Number(options.skillToolLimit);
+		if (!Number.isInteger(skillToolLimit) || skillToolLimit < 0) {
+			console.error(
+				`Error: Invalid skill tool limit '${options.skillToolLimit}'.`,
+			);
+			process.exit(1);
+		}
+	}
+
+	return {
+		watch: options.watch,
+		symlinkPolicy: options.symlinkPolicy as SymlinkPolicy,
+		usageLog: options.telemetry,
+		logger,
+		logLevel: options.logLevel as LogLevel | undefined,
+		instructions: options.instructions,
+		instructionsTemplate,
+		instructionsMaxLength,
+		exposeSkillsAsTools: options.exposeSkillsAsTools,
+		skillToolLimit,
+		include: options.include,
+		exclude: options.exclude,
+		sources: options.skillsPath,
+		pathsOrigin: options.pathsOrigin,
+	};
+}
+
 program
 	.name("skillkit-mcp")
 	.description("SkillKit - Reusable AI coding agent skills via MCP")
@@ -38,13 +279,131 @@ program
 		"Skills directories or git URLs (can be specified multiple times). Git URLs: https://github.com/org/repo.git#ref",
 	)
 	.option("--no-bundled", "Disable bundled default skills")
-	.action(async (options: { skillsPath?: string[]; bundled: boolean }) => {
-		// Resolve git URLs to local cache paths
-		const resolvedPaths = options.skillsPath
-			? await resolveSkillSources(options.skillsPath)
-			: undefined;
+	.option("--no-watch", "Disable live reload when skill or prompt files change")
+	.option(
+		"--symlink-policy <policy>",
+		"Symlinks in scripts/ and references/: follow, within-root or deny",
+		"within-root",
+	)
+	.option(
+		"--telemetry",
+		"Record tool calls in the local usage log (or set SKILLKIT_TELEMETRY=1)",
+		process.env.SKILLKIT_TELEMETRY === "1",
+	)
+	.option(
+		"--log-level <level>",
+		`Minimum level sent to clients and mirrored to stderr: ${LOG_LEVELS.join(", ")}`,
+	)
+	.option(
+		"--log-file <path>",
+		"Mirror log messages to a file instead of stderr",
+	)
+	.option(
+		"--no-instructions",
+		"Do not send instructions summarising the skill catalog",
+	)
+	.option(
+		"--instructions-template <file>",
+		"Template for the instructions ({{skill_count}}, {{prompt_count}}, {{categories}}, {{skills}})",
+	)
+	.option(
+		"--instructions-max-length <chars>",
+		`Maximum instructions length (default: ${DEFAULT_INSTRUCTIONS_MAX_LENGTH})`,
+	)
+	.option(
+		"--expose-skills-as-tools",
+		"Also register each skill as its own tool (skill_<name>)",
+		false,
+	)
+	.option(
+		"--skill-tool-limit <count>",
+		`Maximum number of skill tools (default: ${DEFAULT_SKILL_TOOL_LIMIT})`,
+	)
+	.option(
+		"--profile <name>",
+		"Config profile to use (or set SKILLKIT_PROFILE)",
+		process.env.SKILLKIT_PROFILE,
+	)
+	.action(async (cliOptions: ServerCliOptions) => {
+		const options = applyConfig(cliOptions, readConfig());
+		const logger = createLogger(options);
+		const resolvedPaths = await resolvePaths(options, logger);
+
+		await runServer(
+			resolvedPaths,
+			options.bundled,
+			serverOptions(options, logger),
+		);
+	});
+
+program
+	.command("serve")
+	.description("Start the MCP server with a choice of transport")
+	.option("-t, --transport <type>", "Transport: stdio or http", "stdio")
+	.option("-p, --port <port>", "Port for the HTTP transport", "3333")
+	.option("--host <host>", "Interface for the HTTP transport", "127.0.0.1")
+	.option(
+		"--allowed-hosts <hosts...>",
+		"Accepted Host headers for HTTP (default: bound host and port)",
+	)
+	.option(
+		"--allowed-origins <origins...>",
+		"Accepted Origin headers for HTTP (default: none)",
+	)
+	.action(async (cliServeOptions: ServeCliOptions, command: Command) => {
+		const config = readConfig();
+		const options = applyConfig(program.opts<ServerCliOptions>(), config);
+		const fromCli = (key: string) =>
+			command.getOptionValueSource(key) === "cli";
+		const serveOptions: ServeCliOptions = {
+			...cliServeOptions,
+			transport: fromCli("transport")
+				? cliServeOptions.transport
+				: (config.transport ?? cliServeOptions.transport),
+			port: fromCli("port")
+				? cliServeOptions.port
+				: String(config.port ?? cliServeOptions.port),
+			host: fromCli("host")
+				? cliServeOptions.host
+				: (config.host ?? cliServeOptions.host),
+		};
+		const logger = createLogger(options);
+		const resolvedPaths = await resolvePaths(options, logger);
+		const createOptions = serverOptions(options, logger);
+
+		if (serveOptions.transport === "stdio") {
+			await runServer(resolvedPaths, options.bundled, createOptions);
+			return;
+		}
+
+		if (serveOptions.transport !== "http") {
+			console.error(
+				`Error: Unknown transport '${serveOptions.transport}'. Use: stdio, http.`,
+			);
+			process.exit(1);
+		}
+
+		const port = Number.parseInt(serveOptions.port, 10);
+		if (!Number.isInteger(port) || port < 0 || port > 65535) {
+			console.error(`Error: Invalid port '${serveOptions.port}'.`);
+			process.exit(1);
+		}
+
+		await runHttpServer(resolvedPaths, options.bundled, createOptions, {
+			port,
+			host: serveOptions.host,
+			allowedHosts: serveOptions.allowedHosts,
+			allowedOrigins: serveOptions.allowedOrigins,
+		});
 
-		await runServer(resolvedPaths, options.bundled);
+		console.error(
+			`skillkit-mcp listening on http://${serveOptions.host}:${port}/mcp`,
+		);
+		if (serveOptions.host === "0.0.0.0" && !serveOptions.allowedHosts) {
+			console.error(
+				"Warning: bound to all interfaces; pass --allowed-hosts with the hostnames clients use.",
+			);
+		}
 	});
 
 program
@@ -228,12 +587,18 @@ program
 						if (item.startsWith(".")) continue;
 
 						const result = validateSkill(skillPath);
-						if (result.valid) {
+						const warnings = result.warnings ?? [];
+						if (result.valid && warnings.length === 0) {
 							console.log(`  ✓ ${item}`);
+						} else if (result.valid) {
+							console.log(`  ⚠ ${item}`);
 						} else {
 							console.error(`  ✗ ${item}: ${result.message}`);
 							hasErrors = true;
 						}
+						for (const warning of warnings) {
+							console.log(`      Warning: ${warning}`);
+						}
 					}
 					console.log();
 				}
@@ -285,4 +650,171 @@ program
 		},
 	);
 
+program
+	.command("stats")
+	.description("Summarize the local usage log")
+	.option(
+		"-b, --by <dimension>",
+		`Group by: ${USAGE_DIMENSIONS.join(", ")}`,
+		"skill",
+	)
+	.option(
+		"--since <time>",
+		"Start of the window: duration (24h, 7d, 4w) or date",
+	)
+	.option("--until <time>", "End of the window: duration or date")
+	.option("--json", "Output JSON instead of a table")
+	.option("--log <path>", "Usage log file", getUsageLogPath())
+	.action(
+		(options: {
+			by: string;
+			since?: string;
+			until?: string;
+			json?: boolean;
+			log: string;
+		}) => {
+			if (!USAGE_DIMENSIONS.includes(options.by as UsageDimension)) {
+				console.error(
+					`Error: Unknown dimension '${options.by}'. Use: ${USAGE_DIMENSIONS.join(", ")}.`,
+				);
+				process.exit(1);
+			}
+			const by = options.by as UsageDimension;
+
+			let since: Date | undefined;
+			let until: Date | undefined;
+			try {
+				since = options.since ? parseTimeBound(options.since) : undefined;
+				until = options.until ? parseTimeBound(options.until) : undefined;
+			} catch (e) {
+				console.error(`Error: ${e instanceof Error ? e.message : String(e)}`);
+				process.exit(1);
+			}
+
+			if (!existsSync(options.log)) {
+				console.error(
+					`No usage log at ${options.log}. Start the server with --telemetry (or SKILLKIT_TELEMETRY=1) to record usage.`,
+				);
+			}
+
+			// List every available skill so unused ones show up with zero calls
+			let include: string[] | undefined;
+			if (by === "skill") {
+				const rootOptions = applyConfig(
+					program.opts<ServerCliOptions>(),
+					readConfig(),
+				);
+				// Git sources are read from their cached clone; nothing is cloned
+				const skills = new SkillManager(
+					rootOptions.skillsPath?.map(localSourcePath),
+					rootOptions.bundled,
+					{ include: rootOptions.include, exclude: rootOptions.exclude },
+				);
+				include = skills.listAll().map((skill) => skill.name);
+			}
+
+			const rows = aggregateUsage(readUsageLog(options.log), {
+				by,
+				since,
+				until,
+				include,
+			});
+
+			if (options.json) {
+				console.log(
+					JSON.stringify(
+						{
+							by,
+							since: since?.toISOString() ?? null,
+							until: until?.toISOString() ?? null,
+							rows,
+						},
+						null,
+						2,
+					),
+				);
+			} else {
+				console.log(formatUsageTable(rows, by));
+			}
+		},
+	);
+
+program
+	.command("feedback [skill]")
+	.description("List feedback reported on skills")
+	.option("--json", "Output JSON instead of text")
+	.action((skill: string | undefined, options: { json?: boolean }) => {
+		const entries = new FeedbackStore().list(skill);
+
+		if (options.json) {
+			console.log(JSON.stringify(entries, null, 2));
+		} else if (entries.length === 0) {
+			console.log(
+				skill ? `No feedback for '${skill}'.` : "No feedback reported yet.",
+			);
+		} else {
+			console.log(formatFeedback(entries));
+		}
+	});
+
+const profiles = program
+	.command("profiles")
+	.description("Inspect config profiles");
+
+profiles
+	.command("list")
+	.description("List config profiles and the skills each one serves")
+	.option("--json", "Output JSON instead of text")
+	.action((options: { json?: boolean }) => {
+		const loaded = loadConfigOrExit();
+		const summaries = summariseProfiles(
+			loaded,
+			profileOption() ?? loaded.config.profile,
+		);
+
+		if (options.json) {
+			console.log(JSON.stringify(summaries, null, 2));
+		} else if (summaries.length === 0) {
+			console.log(
+				loaded.files.length > 0
+					? `No profiles defined in ${loaded.files.join(", ")}.`
+					: "No config files found.",
+			);
+		} else {
+			console.log(formatProfiles(summaries));
+		}
+	});
+
+program
+	.command("sources")
+	.description(
+		"List skill sources, what each contributes and which skills and prompts are shadowed",
+	)
+	.option("--json", "Output JSON instead of text")
+	.action((options: { json?: boolean }) => {
+		const rootOptions = applyConfig(
+			program.opts<ServerCliOptions>(),
+			readConfig(),
+		);
+		// Git sources are read from their cached clone; nothing is cloned
+		const paths = rootOptions.skillsPath?.map(localSourcePath);
+		const sources = describeSources(
+			new SkillManager(paths, rootOptions.bundled, {
+				include: rootOptions.include,
+				exclude: rootOptions.exclude,
+				sources: rootOptions.skillsPath,
+				pathsOrigin: rootOptions.pathsOrigin,
+			}),
+			new PromptManager(paths, rootOptions.bundled, {
+				pathsOrigin: rootOptions.pathsOrigin,
+			}),
+		);
+
+		if (options.json) {
+			console.log(JSON.stringify(sources, null, 2));
+		} else {
+			console.log(formatSources(sources));
+		}
+	});
+
 program.parse();
@@ -0,0 +1,47 @@
+/**
+ * Ranking completion candidates for MCP completion/complete requests.
+ */
+
+/**
+ * Check whether the characters of `input` appear in `candidate` in order.
+ */
+function isSubsequence(input: string, candidate: string): boolean {
+	let i = 0;
+	for (const char of candidate) {
+		if (char === input[i]) i++;
+		if (i === input.length) return true;
+	}
+	return i === input.length;
+}
+
+/**
+ * Rank candidates against what the user has typed so far.
+ *
+ * Prefix matches come first, then substring matches, then fuzzy matches
+ * (the typed characters appear in order, e.g. 'cr' matches 'code-review').
+ * Matching is case-insensitive; order within each group is preserved.
+ *
+ * @param candidates - Possible values.
+ * @param input - Partial value typed by the user.
+ * @returns Matching candidates, best first, without duplicates.
+ */
+export function rankCompletions(candidates: string[], input: string): string[] {
+	const unique = [...new Set(candidates)];
+	const wanted = input.toLowerCase();
+	if (!wanted) return unique;
+
+	const prefix: string[] = [];
+	const substring: string[] = [];
+	const fuzzy: string[] = [];
+	for (const candidate of unique) {
+		const lower = candidate.toLowerCase();
+		if (lower.startsWith(wanted)) {
+			prefix.push(candidate);
+		} else if (lower.includes(wanted)) {
+			substring.push(candidate);
+		} else if (isSubsequence(wanted, lower)) {
+			fuzzy.push(candidate);
+		}
+	}
+	return [...prefix, ...substring, ...fuzzy];
+}
@@ -0,0 +1,216 @@
+/**
+ * Configuration files.
+ *
+ * Settings are read from the user config (config.yaml in the skillkit home)
+ * and the nearest project config (.skillkit.yaml in the working directory
+ * or a parent). Project settings replace user settings key by key, and
+ * profiles are merged by name. A selected profile replaces the settings it
+ * defines; the CLI applies flags and environment variables on top.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, isAbsolute, join, resolve } from "node:path";
+import yaml from "js-yaml";
+import { getSkillkitHome, isGitUrl } from "./gitSource.js";
+import {
+	type ConfigProfile,
+	type ConfigSource,
+	type SkillkitConfig,
+	SkillkitConfigSchema,
+} from "./schemas.js";
+
+export const USER_CONFIG_FILE = "config.yaml";
+export const PROJECT_CONFIG_FILE = ".skillkit.yaml";
+
+/**
+ * Error thrown when a config file cannot be parsed or fails validation.
+ */
+export class ConfigError extends Error {
+	constructor(file: string, problems: string[]) {
+		super(
+			`Invalid config file ${file}:\n${problems.map((p) => `  - ${p}`).join("\n")}`,
+		);
+		this.name = "ConfigError";
+	}
+}
+
+/**
+ * Error thrown when the selected profile is not defined in any config file.
+ */
+export class UnknownProfileError extends Error {
+	constructor(name: string, available: string[]) {
+		super(
+			`Unknown profile '${name}'. ` +
+				(available.length > 0
+					? `Available profiles: ${available.join(", ")}`
+					: "No profiles are defined in config files."),
+		);
+		this.name = "UnknownProfileError";
+	}
+}
+
+/**
+ * Profile with sources as strings for resolveSkillSources().
+ */
+export type ResolvedProfile = Omit<ConfigProfile, "sources"> & {
+	sources?: string[];
+};
+
+/**
+ * Settings with sources as strings for resolveSkillSources(): local paths
+ * resolved against the config file's folder, git URLs with '#ref'.
+ */
+export type ResolvedConfig = Omit<SkillkitConfig, "sources" | "profiles"> & {
+	sources?: string[];
+	profiles?: Record<string, ResolvedProfile>;
+};
+
+/**
+ * Merged configuration and where it came from.
+ */
+export interface LoadedConfig {
+	config: ResolvedConfig;
+	/** Config files that were read, lowest priority first. */
+	files: string[];
+	/** Config file defining each profile. */
+	profileFiles: Record<string, string>;
+}
+
+/**
+ * Find the nearest project config, from a directory up to the root.
+ *
+ * @returns Path of the config file, or undefined if there is none.
+ */
+export function findProjectConfig(cwd: string): string | undefined {
+	let dir = resolve(cwd);
+	while (true) {
+		const file = join(dir, PROJECT_CONFIG_FILE);
+		if (existsSync(file)) return file;
+
+		const parent = dirname(dir);
+		if (parent === dir) return undefined;
+		dir = parent;
+	}
+}
+
+/**
+ * Convert a config source to a resolveSkillSources() string.
+ */
+function sourceString(source: ConfigSource, baseDir: string): string {
+	if (typeof source === "object" && "git" in source) {
+		return source.ref ? `${source.git}#${source.ref}` : source.git;
+	}
+
+	const path = typeof source === "string" ? source : source.path;
+	// Leave git URLs and ~ (expanded by the managers) alone
+	if (isGitUrl(path) || path.startsWith("~") || isAbsolute(path)) {
+		return path;
+	}
+	return resolve(baseDir, path);
+}
+
+/**
+ * Read and validate one config file.
+ *
+ * @param file - Path to a YAML config file.
+ * @returns Settings with sources resolved against the file's folder.
+ * @throws ConfigError if the file is not valid YAML or fails validation.
+ */
+export function readConfigFile(file: string): ResolvedConfig {
+	let data: unknown;
+	try {
+		data = yaml.load(readFileSync(file, "utf-8")) ?? {};
+	} catch (e) {
+		throw new ConfigError(file, [e instanceof Error ? e.message : String(e)]);
+	}
+
+	const result = SkillkitConfigSchema.safeParse(data);
+	if (!result.success) {
+		throw new ConfigError(
+			file,
+			result.error.issues.map(
+				(issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+			),
+		);
+	}
+
+	const baseDir = dirname(file);
+	const resolveSources = <T extends { sources?: ConfigSource[] }>(
+		settings: T,
+	): Omit<T, "sources"> & { sources?: string[] } => {
+		const { sources, ...rest } = settings;
+		return sources
+			? { ...rest, sources: sources.map((s) => sourceString(s, baseDir)) }
+			: rest;
+	};
+
+	const { profiles, ...settings } = result.data;
+	return {
+		...resolveSources(settings),
+		...(profiles
+			? {
+					profiles: Object.fromEntries(
+						Object.entries(profiles).map(([name, profile]) => [
+							name,
+							resolveSources(profile),
+						]),
+					),
+				}
+			: {}),
+	};
+}
+
+/**
+ * Load the user and project config files.
+ *
+ * @param cwd - Directory to search for .skillkit.yaml from.
+ * @param home - Skillkit home containing config.yaml.
+ * @returns Merged settings; empty if neither file exists.
+ * @throws ConfigError if a file is invalid.
+ */
+export function loadConfig(
+	cwd: string = process.cwd(),
+	home: string = getSkillkitHome(),
+): LoadedConfig {
+	const files: string[] = [];
+	const userFile = join(home, USER_CONFIG_FILE);
+	if (existsSync(userFile)) files.push(userFile);
+	const projectFile = findProjectConfig(cwd);
+	if (projectFile && projectFile !== userFile) files.push(projectFile);
+
+	let config: ResolvedConfig = {};
+	const profileFiles: Record<string, string> = {};
+	for (const file of files) {
+		const { profiles, ...settings } = readConfigFile(file);
+		config = { ...config, ...settings };
+		if (profiles) {
+			config.profiles = { ...config.profiles, ...profiles };
+			for (const name of Object.keys(profiles)) profileFiles[name] = file;
+		}
+	}
+	return { config, files, profileFiles };
+}
+
+/**
+ * Apply a profile on top of the other settings.
+ *
+ * @param config - Settings from loadConfig().
+ * @param name - Profile to apply (defaults to the config's 'profile' key).
+ * @returns Settings with the profile's keys replacing the base ones.
+ * @throws UnknownProfileError if the profile is not defined.
+ */
+export function selectProfile(
+	config: ResolvedConfig,
+	name: string | undefined = config.profile,
+): ResolvedConfig {
+	if (name === undefined) return config;
+
+	const profile = config.profiles?.[name];
+	if (!profile) {
+		throw new UnknownProfileError(
+			name,
+			Object.keys(config.profiles ?? {}).sort(),
+		);
+	}
+	return { ...config, ...profile, profile: name };
+}
@@ -0,0 +1,77 @@
+/**
+ * Skill dependencies declared with `requires:` in SKILL.md frontmatter.
+ */
+
+/**
+ * Dependency chain of a skill and the problems found building it.
+ */
+export interface DependencyChain {
+	/** Required skills in load order: each skill after the ones it requires. */
+	order: string[];
+	/** Messages for required skills that were not found. */
+	missing: string[];
+	/** Messages for dependency cycles. */
+	cycles: string[];
+}
+
+/**
+ * Read the `requires` list from parsed frontmatter.
+ *
+ * @returns Skill names, ignoring entries that are not non-empty strings.
+ */
+export function requiresOf(frontmatter: Record<string, unknown>): string[] {
+	const requires = frontmatter.requires;
+	if (!Array.isArray(requires)) return [];
+	return requires.filter(
+		(entry): entry is string => typeof entry === "string" && entry !== "",
+	);
+}
+
+/**
+ * Resolve the skills a skill requires, directly or through other skills.
+ *
+ * Dependencies are visited depth-first in the order they are declared, so
+ * the chain is the same on every call. Missing skills and cycles are
+ * reported and left out of the chain.
+ *
+ * @param name - Skill to resolve.
+ * @param lookup - Returns the `requires` list of a skill, or undefined if the skill does not exist.
+ */
+export function resolveDependencies(
+	name: string,
+	lookup: (skill: string) => string[] | undefined,
+): DependencyChain {
+	const order: string[] = [];
+	const missing: string[] = [];
+	const cycles: string[] = [];
+	const visited = new Set<string>();
+	const stack: string[] = [];
+
+	const visit = (skill: string) => {
+		const cycleStart = stack.indexOf(skill);
+		if (cycleStart !== -1) {
+			cycles.push(
+				`Dependency cycle: ${[...stack.slice(cycleStart), skill].join(" -> ")}`,
+			);
+			return;
+		}
+		if (visited.has(skill)) return;
+		visited.add(skill);
+
+		const requires = lookup(skill);
+		if (requires === undefined) {
+			missing.push(
+				`Skill '${stack[stack.length - 1]}' requires '${skill}', which was not found`,
+			);
+			return;
+		}
+
+		stack.push(skill);
+		for (const dependency of requires) visit(dependency);
+		stack.pop();
+		if (skill !== name) order.push(skill);
+	};
+
+	visit(name);
+	return { order, missing, cycles };
+}
@@ -0,0 +1,135 @@
+/**
+ * Minimal line-based unified diff for conflict reports.
+ */
+
+/**
+ * Lines of unchanged context shown around each change.
+ */
+const CONTEXT_LINES = 3;
+
+/**
+ * Largest LCS table computed before falling back to a whole-file diff.
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+type DiffLine = { op: " " | "-" | "+"; text: string };
+
+/**
+ * Compute line operations turning `a` into `b` via longest common subsequence.
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+	if (a.length * b.length > MAX_LCS_CELLS) {
+		return [
+			...a.map((text) => ({ op: "-" as const, text })),
+			...b.map((text) => ({ op: "+" as const, text })),
+		];
+	}
+
+	// lcs[i][j] = LCS length of a[i..] and b[j..]
+	const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+		new Array<number>(b.length + 1).fill(0),
+	);
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lcs[i][j] =
+				a[i] === b[j]
+					? lcs[i + 1][j + 1] + 1
+					: Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+		}
+	}
+
+	const result: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			result.push({ op: " ", text: a[i] });
+			i++;
+			j++;
+		} else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+			result.push({ op: "-", text: a[i++] });
+		} else {
+			result.push({ op: "+", text: b[j++] });
+		}
+	}
+	while (i < a.length) result.push({ op: "-", text: a[i++] });
+	while (j < b.length) result.push({ op: "+", text: b[j++] });
+	return result;
+}
+
+/**
+ * Split text into lines, treating a missing file as no lines.
+ */
+function toLines(text: string | null): string[] {
+	if (text === null || text === "") return [];
+	return text.replace(/\n$/, "").split("\n");
+}
+
+/**
+ * Produce a unified diff between two versions of a file.
+ *
+ * @param oldText - Current content, or null if the file does not exist.
+ * @param newText - Proposed content, or null if the file is deleted.
+ * @param path - File path shown in the diff header.
+ * @returns Unified diff text, or empty string if the versions are identical.
+ */
+export function unifiedDiff(
+	oldText: string | null,
+	newText: string | null,
+	path: string,
+): string {
+	if (oldText === newText) return "";
+
+	const a = toLines(oldText);
+	const b = toLines(newText);
+	const lines = diffLines(a, b);
+
+	const out = [
+		`--- ${oldText === null ? "/dev/null" : `a/${path}`}`,
+		`+++ ${newText === null ? "/dev/null" : `b/${path}`}`,
+	];
+
+	// Group changes into hunks with surrounding context
+	let k = 0;
+	let oldLine = 1;
+	let newLine = 1;
+	while (k < lines.length) {
+		if (lines[k].op === " ") {
+			k++;
+			oldLine++;
+			newLine++;
+			continue;
+		}
+
+		const start = Math.max(0, k - CONTEXT_LINES);
+		let end = k;
+		let lastChange = k;
+		while (end < lines.length && end - lastChange <= CONTEXT_LINES * 2) {
+			if (lines[end].op !== " ") lastChange = end;
+			end++;
+		}
+		end = Math.min(lines.length, lastChange + CONTEXT_LINES + 1);
+
+		const hunk = lines.slice(start, end);
+		const lead = k - start;
+		const oldStart = oldLine - lead;
+		const newStart = newLine - lead;
+		const oldCount = hunk.filter((l) => l.op !== "+").length;
+		const newCount = hunk.filter((l) => l.op !== "-").length;
+
+		out.push(
+			`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`,
+		);
+		for (const line of hunk) {
+			out.push(`${line.op}${line.text}`);
+		}
+
+		for (let m = k; m < end; m++) {
+			if (lines[m].op !== "+") oldLine++;
+			if (lines[m].op !== "-") newLine++;
+		}
+		k = end;
+	}
+
+	return out.join("\n");
+}
@@ -0,0 +1,156 @@
+/**
+ * Local feedback on skill quality, so skill authors learn which
+ * instructions are wrong or outdated.
+ *
+ * Feedback is stored as one JSONL file per skill under feedback/ in the
+ * skillkit home.
+ */
+
+import {
+	appendFileSync,
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { getSkillkitHome } from "./gitSource.js";
+
+/**
+ * One piece of feedback on a skill.
+ */
+export interface FeedbackEntry {
+	/** ISO timestamp. */
+	ts: string;
+	skill: string;
+	/** 1 (wrong or harmful) to 5 (worked as written). */
+	rating: number;
+	comment?: string;
+	/** Skill content hash when the feedback was given. */
+	hash?: string;
+	/** Client name from the MCP initialize request. */
+	client?: string;
+}
+
+/**
+ * Rating bounds.
+ */
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+/**
+ * Default location of the feedback store.
+ */
+export function getFeedbackDir(): string {
+	return join(getSkillkitHome(), "feedback");
+}
+
+/**
+ * Feedback store with one file per skill.
+ */
+export class FeedbackStore {
+	private dir: string;
+
+	constructor(dir: string = getFeedbackDir()) {
+		this.dir = dir;
+	}
+
+	/**
+	 * Add feedback, stamping it with the current time.
+	 *
+	 * @param entry - Feedback for a skill name resolved by SkillManager.
+	 * @returns The stored entry.
+	 * @throws Error if the rating is out of range or the file cannot be written.
+	 */
+	add(entry: Omit<FeedbackEntry, "ts">): FeedbackEntry {
+		if (
+			!Number.isInteger(entry.rating) ||
+			entry.rating < MIN_RATING ||
+			entry.rating > MAX_RATING
+		) {
+			throw new Error(
+				`Rating must be an integer from ${MIN_RATING} to ${MAX_RATING}.`,
+			);
+		}
+
+		const stored: FeedbackEntry = { ts: new Date().toISOString(), ...entry };
+		mkdirSync(this.dir, { recursive: true });
+		appendFileSync(this.fileFor(entry.skill), `${JSON.stringify(stored)}\n`);
+		return stored;
+	}
+
+	/**
+	 * List feedback, oldest first.
+	 *
+	 * @param skill - Only this skill's feedback (defaults to all skills).
+	 * @returns Entries sorted by skill, then time.
+	 */
+	list(skill?: string): FeedbackEntry[] {
+		const skills = skill === undefined ? this.skills() : [skill];
+		return skills.flatMap((name) => this.read(name));
+	}
+
+	/**
+	 * List skills that have feedback.
+	 */
+	skills(): string[] {
+		if (!existsSync(this.dir)) return [];
+		return readdirSync(this.dir)
+			.filter((file) => file.endsWith(".jsonl"))
+			.map((file) => decodeURIComponent(file.slice(0, -".jsonl".length)))
+			.sort();
+	}
+
+	private fileFor(skill: string): string {
+		// Skill names are hyphen-case, but encode anyway so a name can never
+		// address a file outside the store
+		return join(this.dir, `${encodeURIComponent(skill)}.jsonl`);
+	}
+
+	private read(skill: string): FeedbackEntry[] {
+		const file = this.fileFor(skill);
+		if (!existsSync(file)) return [];
+
+		const entries: FeedbackEntry[] = [];
+		for (const line of readFileSync(file, "utf-8").split("\n")) {
+			if (!line.trim()) continue;
+			try {
+				entries.push(JSON.parse(line) as FeedbackEntry);
+			} catch {
+				// Partially written line
+			}
+		}
+		return entries.sort((a, b) => a.ts.localeCompare(b.ts));
+	}
+}
+
+/**
+ * Render feedback grouped by skill, with the average rating per skill.
+ *
+ * @param entries - Entries from FeedbackStore.list().
+ * @returns Plain-text report.
+ */
+export function formatFeedback(entries: FeedbackEntry[]): string {
+	const bySkill = new Map<string, FeedbackEntry[]>();
+	for (const entry of entries) {
+		bySkill.set(entry.skill, [...(bySkill.get(entry.skill) ?? []), entry]);
+	}
+
+	const sections: string[] = [];
+	for (const [skill, items] of bySkill) {
+		const average =
+			items.reduce((sum, item) => sum + item.rating, 0) / items.length;
+		const count = items.length === 1 ? "1 report" : `${items.length} reports`;
+		const lines = [
+			`${skill} (${count}, average ${average.toFixed(1)}/${MAX_RATING})`,
+		];
+		for (const item of items) {
+			const comment = item.comment ? `  ${item.comment}` : "";
+			lines.push(
+				`  ${item.ts.slice(0, 10)}  ${item.rating}/${MAX_RATING}${comment}`,
+			);
+		}
+		sections.push(lines.join("\n"));
+	}
+	return sections.join("\n\n");
+}
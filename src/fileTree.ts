@@ -0,0 +1,44 @@
+/**
+ * Recursive file listing for skill subfolders.
+ */
+
+import { existsSync, readdirSync, statSync } from "node:fs";
+import { join } from "node:path";
+
+/**
+ * List every file below a directory.
+ *
+ * Symlinked files are included; symlinked directories are not followed,
+ * so link cycles cannot cause endless recursion.
+ *
+ * @param dir - Directory to walk.
+ * @returns Sorted paths relative to dir, using '/' separators (e.g. 'db/migrate.ts').
+ *   Empty if the directory does not exist.
+ */
+export function listFilesRecursive(dir: string): string[] {
+	const files: string[] = [];
+
+	const walk = (current: string, prefix: string) => {
+		for (const entry of readdirSync(current, { withFileTypes: true })) {
+			const relPath = prefix ? `${prefix}/${entry.name}` : entry.name;
+			const fullPath = join(current, entry.name);
+
+			if (entry.isDirectory()) {
+				walk(fullPath, relPath);
+			} else if (entry.isFile()) {
+				files.push(relPath);
+			} else if (entry.isSymbolicLink()) {
+				try {
+					if (statSync(fullPath).isFile()) files.push(relPath);
+				} catch {
+					// Broken link
+				}
+			}
+		}
+	};
+
+	if (existsSync(dir) && statSync(dir).isDirectory()) {
+		walk(dir, "");
+	}
+	return files.sort();
+}
@@ -7,6 +7,7 @@ import { createHash } from "node:crypto";
 import { existsSync, mkdirSync } from "node:fs";
 import { homedir } from "node:os";
 import { join } from "node:path";
+import type { Logger } from "./logger.js";
 
 /**
  * Error thrown when git is not installed.
@@ -92,6 +93,13 @@ export function getSkillkitHome(): string {
 	return process.env.SKILLKIT_HOME ?? join(homedir(), ".skillkit");
 }
 
+/**
+ * Gets the directory holding all cached git repo clones.
+ */
+export function getCacheRoot(): string {
+	return join(getSkillkitHome(), "cache", "repos");
+}
+
 /**
  * Calculates the cache directory for a git repo.
  * Uses SHA-256 hash of URL#ref to create a unique, deterministic path.
@@ -99,7 +107,17 @@ export function getSkillkitHome(): string {
 export function getCacheDir(url: string, ref: string): string {
 	const cacheKey = `${url}#${ref}`;
 	const hash = createHash("sha256").update(cacheKey).digest("hex").slice(0, 12);
-	return join(getSkillkitHome(), "cache", "repos", hash);
+	return join(getCacheRoot(), hash);
+}
+
+/**
+ * Maps a source to a local path without cloning: git URLs map to their
+ * cache directory, which may not exist yet.
+ */
+export function localSourcePath(source: string): string {
+	if (!isGitUrl(source)) return source;
+	const { url, ref } = parseGitUrl(source);
+	return getCacheDir(url, ref ?? "HEAD");
 }
 
 /**
@@ -120,18 +138,35 @@ export class GitCloneError extends Error {
 	}
 }
 
+/**
+ * Short SHA of the checked-out commit in a clone.
+ */
+function headSha(cacheDir: string): string {
+	return execSync(`git -C "${cacheDir}" rev-parse --short HEAD`, {
+		stdio: "pipe",
+		encoding: "utf-8",
+	}).trim();
+}
+
 /**
  * Clones or updates a git repository to the cache.
+ * @param logger - Receives the refresh result (new commit or up to date)
  * @returns The local path to the cached repository
  */
-export async function cloneOrUpdate(url: string, ref: string): Promise<string> {
+export async function cloneOrUpdate(
+	url: string,
+	ref: string,
+	logger?: Logger,
+): Promise<string> {
 	ensureGitInstalled();
 
 	const cacheDir = getCacheDir(url, ref);
 	const isExisting = existsSync(cacheDir);
+	const data = { url, ref, path: cacheDir };
 
 	try {
 		if (isExisting) {
+			const before = headSha(cacheDir);
 			// Update existing clone
 			execSync(`git -C "${cacheDir}" fetch --all`, {
 				stdio: "pipe",
@@ -150,9 +185,19 @@ export async function cloneOrUpdate(url: string, ref: string): Promise<string> {
 			} catch {
 				// Ignore - likely detached HEAD (tag/SHA)
 			}
+
+			const after = headSha(cacheDir);
+			logger?.log(
+				"info",
+				"git",
+				before === after
+					? `${url}@${ref} is up to date at ${after}`
+					: `Updated ${url}@${ref} from ${before} to ${after}`,
+				{ ...data, before, after },
+			);
 		} else {
 			// Create cache directory parent
-			const parentDir = join(getSkillkitHome(), "cache", "repos");
+			const parentDir = getCacheRoot();
 			if (!existsSync(parentDir)) {
 				mkdirSync(parentDir, { recursive: true });
 			}
@@ -166,26 +211,40 @@ export async function cloneOrUpdate(url: string, ref: string): Promise<string> {
 				stdio: "pipe",
 				encoding: "utf-8",
 			});
+
+			const after = headSha(cacheDir);
+			logger?.log("info", "git", `Cloned ${url}@${ref} at ${after}`, {
+				...data,
+				after,
+			});
 		}
 
 		return cacheDir;
 	} catch (error) {
 		const gitError = error instanceof Error ? error.message : String(error);
+		logger?.log("error", "git", `Failed to refresh ${url}@${ref}`, {
+			...data,
+			error: gitError,
+		});
 		throw new GitCloneError(url, gitError);
 	}
 }
 
 /**
  * Resolves a list of skill sources, cloning git repos as needed.
+ * @param logger - Receives the refresh result of each git source
  * @returns Array of local paths (git URLs resolved to cache paths)
  */
-export async function resolveSkillSources(sources: string[]): Promise<string[]> {
+export async function resolveSkillSources(
+	sources: string[],
+	logger?: Logger,
+): Promise<string[]> {
 	const resolved: string[] = [];
 
 	for (const source of sources) {
 		if (isGitUrl(source)) {
 			const { url, ref } = parseGitUrl(source);
-			const localPath = await cloneOrUpdate(url, ref ?? "HEAD");
+			const localPath = await cloneOrUpdate(url, ref ?? "HEAD", logger);
 			resolved.push(localPath);
 		} else {
 			resolved.push(source);
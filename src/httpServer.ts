@@ -0,0 +1,319 @@
+/**
+ * Streamable HTTP transport for running skillkit as a shared team server.
+ */
+
+import { randomUUID } from "node:crypto";
+import {
+	createServer as createHttpServer,
+	type IncomingMessage,
+	type Server,
+	type ServerResponse,
+} from "node:http";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { VERSION } from "./version.js";
+
+/**
+ * Path of the MCP endpoint.
+ */
+export const MCP_PATH = "/mcp";
+
+/**
+ * Path of the health check endpoint.
+ */
+export const HEALTH_PATH = "/healthz";
+
+/**
+ * Largest accepted JSON-RPC request body.
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Default time a session may go without requests before it is closed.
+ */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Options for the HTTP server.
+ */
+export interface HttpServerOptions {
+	/** Port to listen on (0 picks a free port). */
+	port: number;
+	/** Interface to bind to. */
+	host: string;
+	/**
+	 * Accepted Host header values. Defaults to the bound host and, for
+	 * loopback binds, localhost/127.0.0.1/[::1], each with the port.
+	 */
+	allowedHosts?: string[];
+	/** Accepted Origin header values. Requests without Origin are always accepted. */
+	allowedOrigins?: string[];
+	/**
+	 * Close sessions with no open request for this long, so clients that
+	 * disconnect without DELETE do not keep their server and its
+	 * subscriptions (default 30 minutes; 0 disables).
+	 */
+	sessionIdleTimeoutMs?: number;
+}
+
+/**
+ * A client session and when it was last used.
+ */
+interface Session {
+	transport: StreamableHTTPServerTransport;
+	/** Requests still being answered, including open SSE streams. */
+	openRequests: number;
+	lastActive: number;
+}
+
+/**
+ * Error thrown when a request body cannot be read or parsed.
+ */
+class RequestBodyError extends Error {
+	status: number;
+
+	constructor(message: string, status: number) {
+		super(message);
+		this.name = "RequestBodyError";
+		this.status = status;
+	}
+}
+
+/**
+ * Check whether a host name refers to the local machine.
+ */
+function isLoopback(host: string): boolean {
+	return ["127.0.0.1", "localhost", "::1", "[::1]"].includes(host);
+}
+
+/**
+ * Build the default Host header allowlist for a bound address.
+ */
+export function defaultAllowedHosts(host: string, port: number): string[] {
+	const hosts = isLoopback(host)
+		? ["localhost", "127.0.0.1", "[::1]"]
+		: [host.includes(":") ? `[${host}]` : host];
+	return hosts.map((h) => `${h}:${port}`);
+}
+
+/**
+ * Write a JSON-RPC error response.
+ */
+function sendJsonRpcError(
+	res: ServerResponse,
+	status: number,
+	code: number,
+	message: string,
+): void {
+	res
+		.writeHead(status, { "Content-Type": "application/json" })
+		.end(
+			JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }),
+		);
+}
+
+/**
+ * Read and parse a JSON request body.
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+	const chunks: Buffer[] = [];
+	let size = 0;
+	for await (const chunk of req) {
+		size += (chunk as Buffer).length;
+		if (size > MAX_BODY_BYTES) {
+			throw new RequestBodyError("Request body too large", 413);
+		}
+		chunks.push(chunk as Buffer);
+	}
+
+	try {
+		return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+	} catch {
+		throw new RequestBodyError("Parse error: Invalid JSON", 400);
+	}
+}
+
+/**
+ * Start an HTTP server exposing MCP over the streamable HTTP transport.
+ *
+ * Each client session gets its own McpServer from the factory. Sessions are
+ * tracked by the Mcp-Session-Id header and removed when the client sends
+ * DELETE, the transport closes or the session has been idle for
+ * sessionIdleTimeoutMs.
+ *
+ * Host and Origin headers are checked on every MCP request to prevent DNS
+ * rebinding attacks against servers bound to a local address.
+ *
+ * @param createMcpServer - Factory creating a server for each new session.
+ * @param options - Listen address and header allowlists.
+ * @returns The listening HTTP server.
+ */
+export async function startHttpServer(
+	createMcpServer: () => McpServer,
+	options: HttpServerOptions,
+): Promise<Server> {
+	const sessions = new Map<string, Session>();
+	const allowedOrigins = options.allowedOrigins ?? [];
+	const idleTimeoutMs =
+		options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+	let allowedHosts = options.allowedHosts;
+
+	// Count a request against its session until the response is finished
+	const handleSessionRequest = async (
+		session: Session,
+		req: IncomingMessage,
+		res: ServerResponse,
+		body: unknown,
+	): Promise<void> => {
+		session.openRequests++;
+		session.lastActive = Date.now();
+		res.on("close", () => {
+			session.openRequests--;
+			session.lastActive = Date.now();
+		});
+		await session.transport.handleRequest(req, res, body);
+	};
+
+	const handleMcpRequest = async (
+		req: IncomingMessage,
+		res: ServerResponse,
+	): Promise<void> => {
+		const hostHeader = req.headers.host;
+		if (!hostHeader || !allowedHosts?.includes(hostHeader)) {
+			sendJsonRpcError(res, 403, -32000, `Invalid Host header: ${hostHeader}`);
+			return;
+		}
+		const origin = req.headers.origin;
+		if (origin && !allowedOrigins.includes(origin)) {
+			sendJsonRpcError(res, 403, -32000, `Invalid Origin header: ${origin}`);
+			return;
+		}
+
+		let body: unknown;
+		if (req.method === "POST") {
+			try {
+				body = await readJsonBody(req);
+			} catch (e) {
+				if (e instanceof RequestBodyError) {
+					sendJsonRpcError(res, e.status, -32700, e.message);
+					return;
+				}
+				throw e;
+			}
+		}
+
+		const sessionId = req.headers["mcp-session-id"];
+		if (typeof sessionId === "string") {
+			const session = sessions.get(sessionId);
+			if (!session) {
+				sendJsonRpcError(res, 404, -32001, "Session not found");
+				return;
+			}
+			await handleSessionRequest(session, req, res, body);
+			return;
+		}
+
+		if (req.method !== "POST" || !isInitializeRequest(body)) {
+			sendJsonRpcError(
+				res,
+				400,
+				-32000,
+				"Bad Request: No valid session ID provided",
+			);
+			return;
+		}
+
+		const server = createMcpServer();
+		const transport = new StreamableHTTPServerTransport({
+			sessionIdGenerator: () => randomUUID(),
+			onsessioninitialized: (id) => {
+				sessions.set(id, session);
+			},
+		});
+		const session: Session = { transport, openRequests: 0, lastActive: 0 };
+		// The server's own close handling runs after this once connected
+		transport.onclose = () => {
+			if (transport.sessionId) {
+				sessions.delete(transport.sessionId);
+			}
+		};
+
+		await server.connect(transport);
+		await handleSessionRequest(session, req, res, body);
+	};
+
+	const httpServer = createHttpServer((req, res) => {
+		const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+		if (path === HEALTH_PATH && req.method === "GET") {
+			res.writeHead(200, { "Content-Type": "application/json" }).end(
+				JSON.stringify({
+					status: "ok",
+					version: VERSION,
+					sessions: sessions.size,
+				}),
+			);
+			return;
+		}
+
+		if (path !== MCP_PATH) {
+			res.writeHead(404).end();
+			return;
+		}
+
+		handleMcpRequest(req, res).catch((e) => {
+			if (!res.headersSent) {
+				sendJsonRpcError(
+					res,
+					500,
+					-32603,
+					`Internal error: ${e instanceof Error ? e.message : String(e)}`,
+				);
+			}
+		});
+	});
+
+	// Closing the transport also closes its McpServer (change and log subscriptions)
+	const sweep =
+		idleTimeoutMs > 0
+			? setInterval(
+					() => {
+						const cutoff = Date.now() - idleTimeoutMs;
+						for (const [id, session] of sessions) {
+							if (session.openRequests === 0 && session.lastActive <= cutoff) {
+								sessions.delete(id);
+								void session.transport.close();
+							}
+						}
+					},
+					Math.min(idleTimeoutMs, 60_000),
+				).unref()
+			: undefined;
+
+	httpServer.on("close", () => {
+		clearInterval(sweep);
+		for (const session of sessions.values()) {
+			void session.transport.close();
+		}
+		sessions.clear();
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		httpServer.once("error", reject);
+		httpServer.listen(options.port, options.host, () => {
+			httpServer.off("error", reject);
+			resolve();
+		});
+	});
+
+	// Resolve the default allowlist against the actual port (port 0 picks one)
+	if (!allowedHosts) {
+		const address = httpServer.address();
+		const port =
+			typeof address === "object" && address ? address.port : options.port;
+		allowedHosts = defaultAllowedHosts(options.host, port);
+	}
+
+	return httpServer;
+}
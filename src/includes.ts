@@ -0,0 +1,169 @@
+/**
+ * Include directives in SKILL.md, expanded when a skill is read:
+ *
+ *   <!-- include: shared-conventions#Commit Messages -->
+ *   <!-- include: references/checklist.md -->
+ *
+ * A target names another skill (its SKILL.md body), a file in the current
+ * skill's references/ folder, or a file in another skill's references/
+ * folder ('other-skill/references/file.md'). '#Section' selects one section.
+ */
+
+import { readLines } from "./markdown.js";
+
+/**
+ * How deep includes may nest before expansion stops.
+ */
+export const MAX_INCLUDE_DEPTH = 5;
+
+const INCLUDE_PATTERN = /<!--\s*include:\s*(.*?)\s*-->/g;
+
+/**
+ * A file, or a section of it, named by an include directive.
+ */
+export interface IncludeTarget {
+	skill: string;
+	/** Path within the skill: 'SKILL.md' or 'references/...'. */
+	file: string;
+	section?: string;
+}
+
+/**
+ * Result of expandIncludes().
+ */
+export interface ExpandedContent {
+	content: string;
+	/** Broken targets, cycles and includes nested too deeply, as messages. */
+	problems: string[];
+}
+
+/**
+ * Parse the target of an include directive.
+ *
+ * @param target - Text after 'include:' (e.g. 'shared#Commit Messages').
+ * @param currentSkill - Skill containing the directive, for references/ paths.
+ */
+export function parseIncludeTarget(
+	target: string,
+	currentSkill: string,
+): IncludeTarget {
+	const hash = target.indexOf("#");
+	const path = (hash === -1 ? target : target.slice(0, hash)).trim();
+	const section = hash === -1 ? undefined : target.slice(hash + 1).trim();
+	const withSection = (skill: string, file: string): IncludeTarget =>
+		section ? { skill, file, section } : { skill, file };
+
+	if (path === "") return withSection(currentSkill, "SKILL.md");
+	if (path.startsWith("references/")) return withSection(currentSkill, path);
+
+	const slash = path.indexOf("/");
+	return slash === -1
+		? withSection(path, "SKILL.md")
+		: withSection(path.slice(0, slash), path.slice(slash + 1));
+}
+
+/**
+ * Apply a replacement to every directive outside fenced code blocks, so
+ * a skill can show the include syntax as an example.
+ */
+function replaceOutsideFences(
+	text: string,
+	replace: (directive: string, raw: string) => string,
+): string {
+	let fence: string | null = null;
+
+	return text
+		.split(/(?<=\n)/)
+		.map((line) => {
+			const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+			if (fenceMatch) {
+				if (fence === null) {
+					fence = fenceMatch[1][0];
+				} else if (fenceMatch[1][0] === fence) {
+					fence = null;
+				}
+				return line;
+			}
+			if (fence !== null) return line;
+			return line.replace(INCLUDE_PATTERN, replace);
+		})
+		.join("");
+}
+
+/**
+ * Identify a target for cycle detection.
+ */
+function targetKey(target: IncludeTarget): string {
+	const section = target.section ? `#${target.section.toLowerCase()}` : "";
+	return `${target.skill}/${target.file}${section}`;
+}
+
+/**
+ * Replace include directives with the content they name, recursively.
+ *
+ * Directives that cannot be expanded are replaced with an
+ * '<!-- include failed: ... -->' comment and reported in problems.
+ * Directives inside fenced code blocks are left as they are.
+ *
+ * @param content - Text containing directives.
+ * @param origin - File the text comes from.
+ * @param read - Returns the includable text of a file (SKILL.md without frontmatter), or undefined to leave the directive as is; throws if the file does not exist.
+ * @param maxDepth - Deepest nesting allowed.
+ */
+export function expandIncludes(
+	content: string,
+	origin: IncludeTarget,
+	read: (target: IncludeTarget) => string | undefined,
+	maxDepth: number = MAX_INCLUDE_DEPTH,
+): ExpandedContent {
+	const problems: string[] = [];
+
+	const expand = (
+		text: string,
+		current: IncludeTarget,
+		stack: string[],
+	): string =>
+		replaceOutsideFences(text, (directive, raw) => {
+			const fail = (reason: string) => {
+				problems.push(
+					`Include '${raw}' in ${current.skill}/${current.file}: ${reason}`,
+				);
+				return `<!-- include failed: ${raw} -->`;
+			};
+
+			const target = parseIncludeTarget(raw, current.skill);
+			const key = targetKey(target);
+			const cycleStart = stack.indexOf(key);
+			if (cycleStart !== -1) {
+				return fail(
+					`include cycle ${[...stack.slice(cycleStart), key].join(" -> ")}`,
+				);
+			}
+			if (stack.length > maxDepth) {
+				return fail(`includes are nested more than ${maxDepth} levels deep`);
+			}
+			if (
+				target.file !== "SKILL.md" &&
+				!target.file.startsWith("references/")
+			) {
+				return fail("only skills and references/ files can be included");
+			}
+
+			let included: string;
+			try {
+				const source = read(target);
+				if (source === undefined) return directive;
+				included = target.section
+					? readLines(source, { section: target.section }).text
+					: source;
+			} catch (e) {
+				return fail(e instanceof Error ? e.message : String(e));
+			}
+			return expand(included.trim(), target, [...stack, key]);
+		});
+
+	return {
+		content: expand(content, origin, [targetKey(origin)]),
+		problems,
+	};
+}
@@ -2,38 +2,261 @@
  * MCP server for skillkit - exposes skills as tools and prompts.
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { existsSync } from "node:fs";
+import type { Server } from "node:http";
+import { dirname, join, sep } from "node:path";
+import {
+	McpServer,
+	type RegisteredPrompt,
+	type RegisteredTool,
+	ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+	type CallToolResult,
+	SetLevelRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import dedent from "dedent";
-import { PromptManager } from "./promptManager.js";
+import { rankCompletions } from "./completion.js";
+import { FeedbackStore } from "./feedback.js";
+import { type HttpServerOptions, startHttpServer } from "./httpServer.js";
+import { buildInstructions } from "./instructions.js";
+import {
+	DEFAULT_LOG_LEVEL,
+	isLevelEnabled,
+	type LogEntry,
+	Logger,
+	type LogLevel,
+} from "./logger.js";
+import { describeRange, formatToc, readLines } from "./markdown.js";
+import { getMimeType } from "./mimeTypes.js";
+import { type PromptInfo, PromptManager } from "./promptManager.js";
+import { type SymlinkPolicy, UnsafePathError } from "./safePath.js";
 import {
+	CreateSkillInputSchema,
+	CreateSkillOutputSchema,
 	GetReferenceInputSchema,
 	GetScriptInputSchema,
 	GetSkillInputSchema,
+	GetSkillOutputSchema,
 	GetSkillPathsOutputSchema,
+	GetSourcesOutputSchema,
+	ListSkillsInputSchema,
 	ListSkillsOutputSchema,
+	ReportFeedbackInputSchema,
+	ReportFeedbackOutputSchema,
+	SearchSkillsInputSchema,
+	SearchSkillsOutputSchema,
+	UpdateSkillInputSchema,
+	UpdateSkillOutputSchema,
 } from "./schemas.js";
 import { SkillManager } from "./skillManager.js";
+import {
+	assignSkillToolNames,
+	DEFAULT_SKILL_TOOL_LIMIT,
+} from "./skillTools.js";
+import { createSkill, updateSkill } from "./skillWriter.js";
+import { describeSources, formatSources } from "./sources.js";
+import { countSkillCalls, type UsageEvent, UsageLog } from "./usage.js";
 import { VERSION } from "./version.js";
+import { SourceWatcher } from "./watcher.js";
+
+/**
+ * Read a single value from a matched URI template variable.
+ */
+function templateValue(value: string | string[]): string {
+	return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Build a tool error result, prefixing the code of path errors so clients
+ * can tell a rejected path from a missing file.
+ */
+function errorResult(e: unknown): CallToolResult {
+	const code = e instanceof UnsafePathError ? ` [${e.code}]` : "";
+	return {
+		content: [
+			{
+				type: "text",
+				text: `Error${code}: ${e instanceof Error ? e.message : String(e)}`,
+			},
+		],
+		isError: true,
+	};
+}
+
+/**
+ * Optional server behaviour.
+ */
+export interface CreateServerOptions {
+	/** Watch skill and prompt directories and notify clients of changes. */
+	watch?: boolean;
+	/** Quiet period before a burst of file changes is reported. */
+	watchDebounceMs?: number;
+	/** How symlinks in scripts/ and references/ are treated. */
+	symlinkPolicy?: SymlinkPolicy;
+	/** Skill name patterns to serve ('*' and '?' wildcards); all if empty. */
+	include?: string[];
+	/** Skill name patterns to hide; wins over include. */
+	exclude?: string[];
+	/** Append tool calls and prompt invocations to the local usage log. */
+	usageLog?: boolean;
+	/** Usage log file (defaults to usage.jsonl in the skillkit home). */
+	usageLogPath?: string;
+	/** Directory for skill feedback (defaults to feedback/ in the skillkit home). */
+	feedbackDir?: string;
+	/** Shared logger; entries are sent to the client as notifications/message. */
+	logger?: Logger;
+	/** Level sent to the client until it calls logging/setLevel. */
+	logLevel?: LogLevel;
+	/** Send instructions summarising the skill catalog on initialize (default true). */
+	instructions?: boolean;
+	/** Instructions template with {{placeholders}} (see instructions.ts). */
+	instructionsTemplate?: string;
+	/** Maximum length of the instructions in characters. */
+	instructionsMaxLength?: number;
+	/** Also register each skill as its own tool named skill_<name>. */
+	exposeSkillsAsTools?: boolean;
+	/** Maximum number of skill tools (defaults to 50). */
+	skillToolLimit?: number;
+	/** Sources as configured, before git URLs were cloned, for skillkit_get_sources. */
+	sources?: string[];
+	/** Where extraPaths come from: --skills-path (default) or a config file. */
+	pathsOrigin?: "cli" | "config";
+	/**
+	 * Watcher to take changes from when watch is set, instead of starting
+	 * one per server; HTTP sessions share the one runHttpServer starts.
+	 */
+	sharedWatcher?: SourceWatcher;
+}
+
+/**
+ * Directories watched for live reload.
+ *
+ * Only skills/ and prompts/ folders count: a source root such as
+ * ~/.skillkit also holds the usage log, feedback, config and git cache.
+ * A source without skills/ yet is watched from its root so the folder is
+ * picked up once it is created.
+ */
+function watchedPaths(skills: SkillManager, prompts: PromptManager): string[] {
+	return [
+		...skills
+			.getSkillPaths()
+			.map((p) => (existsSync(join(p, "skills")) ? join(p, "skills") : p)),
+		...prompts.getPromptPaths(),
+	];
+}
 
 /**
  * Create and configure the MCP server.
  *
  * @param extraPaths - Additional skill directories to include.
  * @param includeBundled - Whether to include bundled default skills and prompts.
+ * @param options - Optional server behaviour (live reload).
  * @returns Configured McpServer instance.
  */
 export function createServer(
 	extraPaths?: string[],
 	includeBundled: boolean = true,
+	options: CreateServerOptions = {},
 ): McpServer {
-	const server = new McpServer({
-		name: "skillkit",
-		version: VERSION,
+	const logger = options.logger ?? new Logger();
+	const skills = new SkillManager(extraPaths, includeBundled, {
+		symlinkPolicy: options.symlinkPolicy,
+		logger,
+		include: options.include,
+		exclude: options.exclude,
+		sources: options.sources,
+		pathsOrigin: options.pathsOrigin,
+	});
+	const prompts = new PromptManager(extraPaths, includeBundled, {
+		logger,
+		pathsOrigin: options.pathsOrigin,
 	});
 
-	const skills = new SkillManager(extraPaths, includeBundled);
-	const prompts = new PromptManager(extraPaths, includeBundled);
+	// Instructions are built from the catalog as it is when the session
+	// starts; HTTP creates a server per session, stdio at startup. Usage
+	// counts only read the lines logged since the previous session.
+	let instructions: string | undefined;
+	if (options.instructions !== false) {
+		const usageCounts = options.usageLog
+			? countSkillCalls(options.usageLogPath)
+			: undefined;
+		instructions = buildInstructions(skills.listAll(), prompts.listAll(), {
+			template: options.instructionsTemplate,
+			maxLength: options.instructionsMaxLength,
+			usage: usageCounts,
+		});
+	}
+
+	const server = new McpServer(
+		{
+			name: "skillkit",
+			version: VERSION,
+		},
+		{ capabilities: { logging: {} }, instructions },
+	);
+	const feedback = new FeedbackStore(options.feedbackDir);
+	const usage = options.usageLog
+		? new UsageLog(options.usageLogPath)
+		: undefined;
+
+	// Current skill names, for completion of skill arguments
+	const skillNames = () => skills.listAll().map((skill) => skill.name);
+	const completeSkillName = {
+		name: (value: string) => rankCompletions(skillNames(), value),
+	};
+
+	// Skill repository a skill resolves to, for usage reports by source
+	const sourceOf = (skill: string): string | undefined => {
+		try {
+			return dirname(dirname(skills.getSkillPath(skill)));
+		} catch {
+			return undefined;
+		}
+	};
+
+	const recordUsage = (
+		kind: UsageEvent["kind"],
+		name: string,
+		details: { skill?: string; file?: string; error?: string },
+	) => {
+		usage?.record({
+			kind,
+			name,
+			skill: details.skill,
+			file: details.file,
+			source: details.skill ? sourceOf(details.skill) : undefined,
+			client: server.server.getClientVersion()?.name,
+			ok: details.error === undefined,
+			error: details.error,
+		});
+	};
+
+	// Record every tool call in the usage log. The skill is read from the
+	// 'skill' or 'name' argument and the file from 'filename'.
+	const withUsage =
+		<A extends Record<string, unknown>>(
+			tool: string,
+			handler: (args: A) => Promise<CallToolResult>,
+		) =>
+		async (args: A): Promise<CallToolResult> => {
+			const result = await handler(args);
+			if (usage) {
+				const skill = args.skill ?? args.name;
+				const first = result.content[0];
+				recordUsage("tool", tool, {
+					skill: typeof skill === "string" ? skill : undefined,
+					file: typeof args.filename === "string" ? args.filename : undefined,
+					error: result.isError
+						? first?.type === "text"
+							? first.text
+							: "error"
+						: undefined,
+				});
+			}
+			return result;
+		};
 
 	// Register tools
 
@@ -46,13 +269,16 @@ export function createServer(
 				List all available skills with name and description.
 
 				Call this tool FIRST when the user mentions 'skillkit' or asks about available skills.
-				Returns an array of {name, description} for each skill.
+				Returns an array of {name, description, tokens, bytes, files} for each skill.
+				tokens and bytes estimate the size of SKILL.md; files lists each script
+				and reference with its own estimate, so you can budget context before
+				fetching. Pass maxTokens to only list skills that fit.
 
 				After getting the list, if a skill matches the user's task:
 				1. Call skillkit_get_skill(name) to fetch the full instructions
 				2. Follow the instructions in the skill
 			`,
-			inputSchema: {},
+			inputSchema: ListSkillsInputSchema,
 			outputSchema: ListSkillsOutputSchema,
 			annotations: {
 				readOnlyHint: true,
@@ -61,13 +287,13 @@ export function createServer(
 				openWorldHint: false,
 			},
 		},
-		async () => {
-			const skillList = skills.listAll();
+		withUsage("skillkit_list_skills", async ({ maxTokens }) => {
+			const skillList = skills.listAll(maxTokens);
 			return {
 				content: [{ type: "text", text: JSON.stringify(skillList, null, 2) }],
 				structuredContent: { skills: skillList },
 			};
-		},
+		}),
 	);
 
 	// 2. skillkit_get_skill
@@ -88,8 +314,33 @@ export function createServer(
 				- Follow the instructions in the returned content
 				- If instructions reference scripts, fetch them with skillkit_get_script()
 				- If instructions reference docs, fetch them with skillkit_get_reference()
+
+				For long skills, call with sections="toc" first to see the outline,
+				then pass the heading names you need (e.g. ["Instructions"]) to get
+				only those sections.
+
+				Skills may have several versions installed side by side. Pass
+				version (a version or semver range such as '^2') to pick one; by
+				default the latest stable version is returned.
+
+				Skills can require other skills (requires: in frontmatter). The
+				response lists them in load order; fetch and follow them first, or
+				pass inlineDependencies=true to get their instructions in the same
+				response.
+
+				Include directives (<!-- include: ... -->) are replaced with the
+				content they name. To edit the skill, call with
+				expandIncludes=false so SKILL.md comes back as stored; saving the
+				expanded text would copy shared blocks into the skill and drop
+				the directives.
+
+				The response ends with the skill's content hash; pass it as
+				expectedHash to skillkit_update_skill() when editing the skill.
+				Structured output also carries the parsed frontmatter, the
+				dependency chain and the scripts and references with their sizes.
 			`,
 			inputSchema: GetSkillInputSchema,
+			outputSchema: GetSkillOutputSchema,
 			annotations: {
 				readOnlyHint: true,
 				destructiveHint: false,
@@ -97,24 +348,58 @@ export function createServer(
 				openWorldHint: false,
 			},
 		},
-		async ({ name }) => {
-			try {
-				const content = skills.getContent(name);
-				return {
-					content: [{ type: "text", text: content }],
-				};
-			} catch (e) {
-				return {
-					content: [
-						{
+		withUsage(
+			"skillkit_get_skill",
+			async ({
+				name,
+				version,
+				sections,
+				inlineDependencies,
+				expandIncludes,
+			}) => {
+				try {
+					const skill = version ? `${name}@${version}` : name;
+					const content = skills.getContent(skill, { expandIncludes });
+					const details = skills.getDetails(skill, { expandIncludes });
+					const dependencies = skills.getDependencies(skill);
+					let text = content;
+					let body = details.body;
+					if (sections === "toc") {
+						text = body = formatToc(content);
+					} else if (sections) {
+						text = body = sections
+							.map((section) => readLines(content, { section }).text.trimEnd())
+							.join("\n\n");
+					}
+
+					const dependencyContent: { type: "text"; text: string }[] = [];
+					if (inlineDependencies) {
+						for (const dependency of dependencies) {
+							dependencyContent.push({
+								type: "text",
+								text: `Required skill '${dependency}':\n\n${skills.getContent(dependency)}`,
+							});
+						}
+					} else if (dependencies.length > 0) {
+						dependencyContent.push({
 							type: "text",
-							text: `Error: ${e instanceof Error ? e.message : String(e)}`,
-						},
-					],
-					isError: true,
-				};
-			}
-		},
+							text: `Requires (load in this order first): ${dependencies.join(", ")}`,
+						});
+					}
+
+					return {
+						content: [
+							...dependencyContent,
+							{ type: "text", text },
+							{ type: "text", text: `Content hash: ${details.hash}` },
+						],
+						structuredContent: { ...details, body, dependencies },
+					};
+				} catch (e) {
+					return errorResult(e);
+				}
+			},
+		),
 	);
 
 	// 3. skillkit_get_script
@@ -127,7 +412,8 @@ export function createServer(
 
 				Only call this when a skill's instructions explicitly reference a script.
 				The skill parameter must be a valid skill name from skillkit_list_skills().
-				The filename should match what's referenced in the skill instructions.
+				The filename should match what's referenced in the skill instructions,
+				relative to scripts/ (nested paths like 'db/migrate.ts' are allowed).
 
 				Returns the raw script content. Execute it locally in your environment
 				following the skill's instructions.
@@ -140,24 +426,16 @@ export function createServer(
 				openWorldHint: false,
 			},
 		},
-		async ({ skill, filename }) => {
+		withUsage("skillkit_get_script", async ({ skill, filename }) => {
 			try {
 				const content = skills.getScript(skill, filename);
 				return {
 					content: [{ type: "text", text: content }],
 				};
 			} catch (e) {
-				return {
-					content: [
-						{
-							type: "text",
-							text: `Error: ${e instanceof Error ? e.message : String(e)}`,
-						},
-					],
-					isError: true,
-				};
+				return errorResult(e);
 			}
-		},
+		}),
 	);
 
 	// 4. skillkit_get_reference
@@ -170,10 +448,16 @@ export function createServer(
 
 				Only call this when a skill's instructions explicitly reference a doc.
 				The skill parameter must be a valid skill name from skillkit_list_skills().
-				The filename should match what's referenced in the skill instructions.
+				The filename should match what's referenced in the skill instructions,
+				relative to references/ (nested paths like 'api/v2/auth.md' are allowed).
 
 				Returns reference documentation to inform how you complete the task.
 				Read and apply this reference when following the skill's instructions.
+
+				For large documents, call with toc=true first to see headings with
+				line numbers, then fetch a section by heading or a range with
+				offset/limit. The last content block reports the line range and total
+				line count, with the offset to continue from.
 			`,
 			inputSchema: GetReferenceInputSchema,
 			annotations: {
@@ -183,24 +467,44 @@ export function createServer(
 				openWorldHint: false,
 			},
 		},
-		async ({ skill, filename }) => {
-			try {
-				const content = skills.getReference(skill, filename);
-				return {
-					content: [{ type: "text", text: content }],
-				};
-			} catch (e) {
-				return {
-					content: [
-						{
-							type: "text",
-							text: `Error: ${e instanceof Error ? e.message : String(e)}`,
-						},
-					],
-					isError: true,
-				};
-			}
-		},
+		withUsage(
+			"skillkit_get_reference",
+			async ({ skill, filename, offset, limit, section, toc }) => {
+				try {
+					const content = skills.getReference(skill, filename);
+					if (toc) {
+						if (
+							section !== undefined ||
+							offset !== undefined ||
+							limit !== undefined
+						) {
+							throw new Error(
+								"toc cannot be combined with section, offset or limit.",
+							);
+						}
+						return {
+							content: [
+								{ type: "text", text: formatToc(content) },
+								{
+									type: "text",
+									text: `Total lines: ${readLines(content).totalLines}`,
+								},
+							],
+						};
+					}
+
+					const range = readLines(content, { section, offset, limit });
+					return {
+						content: [
+							{ type: "text", text: range.text },
+							{ type: "text", text: describeRange(range) },
+						],
+					};
+				} catch (e) {
+					return errorResult(e);
+				}
+			},
+		),
 	);
 
 	// 5. skillkit_get_skill_paths
@@ -226,22 +530,443 @@ export function createServer(
 				openWorldHint: false,
 			},
 		},
-		async () => {
+		withUsage("skillkit_get_skill_paths", async () => {
 			const paths = skills.getWritablePaths();
 			return {
 				content: [{ type: "text", text: JSON.stringify(paths, null, 2) }],
 				structuredContent: { paths },
 			};
+		}),
+	);
+
+	// 6. skillkit_search_skills
+	server.registerTool(
+		"skillkit_search_skills",
+		{
+			title: "Search Skills",
+			description: dedent`
+				Search skills by relevance to a free-text query.
+
+				Use this instead of skillkit_list_skills when many skills are available
+				and you know what the user wants to do. Matches skill names, descriptions,
+				headings, instructions and reference filenames.
+				Returns {name, description, score, snippets} for each match, best first.
+
+				After finding a matching skill:
+				1. Call skillkit_get_skill(name) to fetch the full instructions
+				2. Follow the instructions in the skill
+			`,
+			inputSchema: SearchSkillsInputSchema,
+			outputSchema: SearchSkillsOutputSchema,
+			annotations: {
+				readOnlyHint: true,
+				destructiveHint: false,
+				idempotentHint: true,
+				openWorldHint: false,
+			},
+		},
+		withUsage("skillkit_search_skills", async ({ query, limit }) => {
+			const results = skills.search(query, limit);
+			return {
+				content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
+				structuredContent: { results },
+			};
+		}),
+	);
+
+	// 7. skillkit_create_skill
+	server.registerTool(
+		"skillkit_create_skill",
+		{
+			title: "Create Skill",
+			description: dedent`
+				Create a new skill in a writable skill repository.
+
+				Use this when you cannot write files directly (e.g. in a sandbox).
+				Call skillkit_get_skill_paths() first if the user should choose the
+				repository; otherwise the first writable path is used.
+
+				Writes SKILL.md (frontmatter is generated from name and description),
+				plus optional scripts/ and references/ files. The skill is validated
+				before it is saved, and the repository README skill index is refreshed.
+				Fails if the skill already exists unless overwrite is true.
+			`,
+			inputSchema: CreateSkillInputSchema,
+			outputSchema: CreateSkillOutputSchema,
+			annotations: {
+				readOnlyHint: false,
+				destructiveHint: true,
+				idempotentHint: false,
+				openWorldHint: false,
+			},
+		},
+		withUsage("skillkit_create_skill", async (input) => {
+			try {
+				const result = createSkill(skills.getWritablePaths(), input);
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+					structuredContent: { ...result },
+				};
+			} catch (e) {
+				return errorResult(e);
+			}
+		}),
+	);
+
+	// 8. skillkit_update_skill
+	server.registerTool(
+		"skillkit_update_skill",
+		{
+			title: "Update Skill",
+			description: dedent`
+				Update files of an existing skill.
+
+				Requires: Call skillkit_get_skill(name, expandIncludes=false) first
+				and pass the content hash it returns as expectedHash. If the skill
+				changed since then, the update is rejected with a diff; re-read the
+				skill and try again. Edit the SKILL.md read that way: it keeps the
+				include directives that the default, expanded read replaces.
+
+				files maps paths ('SKILL.md', 'scripts/<path>', 'references/<path>')
+				to their new content; null deletes a file. With replaceAll, files not
+				listed are deleted. The result is validated before it is saved.
+				Bundled skills and skills from git sources cannot be updated.
+			`,
+			inputSchema: UpdateSkillInputSchema,
+			outputSchema: UpdateSkillOutputSchema,
+			annotations: {
+				readOnlyHint: false,
+				destructiveHint: true,
+				idempotentHint: false,
+				openWorldHint: false,
+			},
+		},
+		withUsage("skillkit_update_skill", async ({ name, ...input }) => {
+			try {
+				if (skills.isReadOnly(name)) {
+					throw new Error(
+						`Skill '${name}' is bundled or comes from a git source and cannot be updated. ` +
+							"Create a copy with skillkit_create_skill instead.",
+					);
+				}
+				const result = updateSkill(skills.getSkillPath(name), input);
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+					structuredContent: { ...result },
+				};
+			} catch (e) {
+				return errorResult(e);
+			}
+		}),
+	);
+
+	// 9. skillkit_report_feedback
+	server.registerTool(
+		"skillkit_report_feedback",
+		{
+			title: "Report Skill Feedback",
+			description: dedent`
+				Record feedback on a skill's instructions for its authors.
+
+				Use this when a skill was wrong, incomplete or outdated (low rating),
+				or worked exactly as written (high rating). Explain in the comment
+				what failed and what worked instead. Feedback is stored locally with
+				the skill's current content hash.
+			`,
+			inputSchema: ReportFeedbackInputSchema,
+			outputSchema: ReportFeedbackOutputSchema,
+			annotations: {
+				readOnlyHint: false,
+				destructiveHint: false,
+				idempotentHint: false,
+				openWorldHint: false,
+			},
+		},
+		withUsage(
+			"skillkit_report_feedback",
+			async ({ skill, rating, comment }) => {
+				try {
+					const entry = feedback.add({
+						skill,
+						rating,
+						comment,
+						hash: skills.getContentHash(skill),
+						client: server.server.getClientVersion()?.name,
+					});
+					return {
+						content: [
+							{
+								type: "text",
+								text: `Feedback recorded for '${skill}' (${rating}/5).`,
+							},
+						],
+						structuredContent: {
+							skill,
+							rating,
+							comment,
+							hash: entry.hash,
+							ts: entry.ts,
+						},
+					};
+				} catch (e) {
+					return errorResult(e);
+				}
+			},
+		),
+	);
+
+	// 10. skillkit_get_sources
+	server.registerTool(
+		"skillkit_get_sources",
+		{
+			title: "Get Sources",
+			description: dedent`
+				List the configured skill sources, highest priority first, with
+				where each was configured, the skills and prompts it serves, and
+				the ones hidden by a source with higher priority.
+
+				Use this to find out why a skill is missing or why a different
+				version of it is served.
+			`,
+			inputSchema: {},
+			outputSchema: GetSourcesOutputSchema,
+			annotations: {
+				readOnlyHint: true,
+				destructiveHint: false,
+				idempotentHint: true,
+				openWorldHint: false,
+			},
+		},
+		withUsage("skillkit_get_sources", async () => {
+			try {
+				const sources = describeSources(skills, prompts);
+				return {
+					content: [{ type: "text", text: formatSources(sources) }],
+					structuredContent: { sources },
+				};
+			} catch (e) {
+				return errorResult(e);
+			}
+		}),
+	);
+
+	// Skills as tools
+	// Keyed by tool name; the signature detects renamed or re-described
+	// skills. Callbacks read SKILL.md on every call, like prompts.
+	const registeredSkillTools = new Map<
+		string,
+		{ tool: RegisteredTool; signature: string }
+	>();
+
+	const registerSkillTool = (
+		toolName: string,
+		skill: string,
+		description: string,
+	): RegisteredTool => {
+		const handler = withUsage(toolName, async () => {
+			try {
+				const dependencies = skills.getDependencies(skill);
+				return {
+					content: [
+						...(dependencies.length > 0
+							? [
+									{
+										type: "text" as const,
+										text: `Requires (load in this order first): ${dependencies.join(", ")}`,
+									},
+								]
+							: []),
+						{ type: "text", text: skills.getContent(skill) },
+						{
+							type: "text",
+							text: `Content hash: ${skills.getContentHash(skill)}`,
+						},
+					],
+				};
+			} catch (e) {
+				return errorResult(e);
+			}
+		});
+
+		return server.registerTool(
+			toolName,
+			{
+				title: skill,
+				description: dedent`
+					${description}
+
+					Returns the instructions of the '${skill}' skill. Follow them, and
+					fetch scripts and references they mention with skillkit_get_script()
+					and skillkit_get_reference().
+				`,
+				annotations: {
+					readOnlyHint: true,
+					destructiveHint: false,
+					idempotentHint: true,
+					openWorldHint: false,
+				},
+			},
+			() => handler({ skill }),
+		);
+	};
+
+	// Bring skill tools in line with the skills on disk. The SDK sends
+	// tools/list_changed for every add or remove.
+	const syncSkillTools = () => {
+		const all = skills.listAll();
+		const limit = options.skillToolLimit ?? DEFAULT_SKILL_TOOL_LIMIT;
+		if (all.length > limit) {
+			logger.log(
+				"warning",
+				"skills",
+				`Exposing ${limit} of ${all.length} skills as tools; use skillkit_list_skills for the rest`,
+			);
+		}
+
+		const descriptions = new Map(all.map((s) => [s.name, s.description]));
+		const current = assignSkillToolNames(
+			all.map((s) => s.name),
+			limit,
+		);
+
+		for (const [toolName, entry] of registeredSkillTools) {
+			const skill = current.get(toolName);
+			const signature = JSON.stringify([skill, descriptions.get(skill ?? "")]);
+			if (signature !== entry.signature) {
+				entry.tool.remove();
+				registeredSkillTools.delete(toolName);
+			}
+		}
+
+		for (const [toolName, skill] of current) {
+			if (registeredSkillTools.has(toolName)) continue;
+			const description = descriptions.get(skill) ?? "";
+			registeredSkillTools.set(toolName, {
+				tool: registerSkillTool(toolName, skill, description),
+				signature: JSON.stringify([skill, description]),
+			});
+		}
+	};
+
+	if (options.exposeSkillsAsTools) {
+		syncSkillTools();
+	}
+
+	// Register resources
+	// Skill files are addressable as skillkit://skills/{name}/... so clients can
+	// attach them to context without a tool round-trip.
+
+	const listSkillFiles = (folder: "scripts" | "references") =>
+		skills.listAll().flatMap((skill) => {
+			let files: string[];
+			try {
+				files =
+					folder === "scripts"
+						? skills.listScripts(skill.name)
+						: skills.listReferences(skill.name);
+			} catch {
+				// Frontmatter name does not match a skill directory
+				return [];
+			}
+			return files.map((file) => ({
+				uri: `skillkit://skills/${encodeURIComponent(skill.name)}/${folder}/${encodeURIComponent(file)}`,
+				name: `${skill.name}/${folder}/${file}`,
+				mimeType: getMimeType(file),
+			}));
+		});
+
+	server.registerResource(
+		"skill",
+		new ResourceTemplate("skillkit://skills/{name}/SKILL.md", {
+			complete: completeSkillName,
+			list: () => ({
+				resources: skills.listAll().map((skill) => ({
+					uri: `skillkit://skills/${encodeURIComponent(skill.name)}/SKILL.md`,
+					name: skill.name,
+					description: skill.description,
+					mimeType: "text/markdown",
+				})),
+			}),
+		}),
+		{
+			title: "Skill Instructions",
+			description: "SKILL.md instructions for a skill",
+			mimeType: "text/markdown",
+		},
+		(uri, { name }) => ({
+			contents: [
+				{
+					uri: uri.href,
+					mimeType: "text/markdown",
+					text: skills.getContent(templateValue(name)),
+				},
+			],
+		}),
+	);
+
+	server.registerResource(
+		"skill-script",
+		new ResourceTemplate("skillkit://skills/{name}/scripts/{file}", {
+			complete: completeSkillName,
+			list: () => ({ resources: listSkillFiles("scripts") }),
+		}),
+		{
+			title: "Skill Script",
+			description: "Script file from a skill's scripts/ folder",
+		},
+		(uri, { name, file }) => {
+			const filename = templateValue(file);
+			return {
+				contents: [
+					{
+						uri: uri.href,
+						mimeType: getMimeType(filename),
+						text: skills.getScript(templateValue(name), filename),
+					},
+				],
+			};
+		},
+	);
+
+	server.registerResource(
+		"skill-reference",
+		new ResourceTemplate("skillkit://skills/{name}/references/{file}", {
+			complete: completeSkillName,
+			list: () => ({ resources: listSkillFiles("references") }),
+		}),
+		{
+			title: "Skill Reference",
+			description: "Reference document from a skill's references/ folder",
+		},
+		(uri, { name, file }) => {
+			const filename = templateValue(file);
+			return {
+				contents: [
+					{
+						uri: uri.href,
+						mimeType: getMimeType(filename),
+						text: skills.getReference(templateValue(name), filename),
+					},
+				],
+			};
 		},
 	);
 
 	// Register prompts dynamically
-	for (const promptInfo of prompts.listAll()) {
+	// Keyed by prompt name; the signature detects changed descriptions or
+	// arguments, which require re-registration. Body edits need nothing since
+	// callbacks read the file on every request.
+	const registeredPrompts = new Map<
+		string,
+		{ prompt: RegisteredPrompt; signature: string }
+	>();
+
+	const registerPrompt = (promptInfo: PromptInfo): RegisteredPrompt => {
 		const promptName = promptInfo.name;
 		const promptDesc = promptInfo.description;
 
 		// Build argsSchema and check if prompt has arguments
-		const argsSchema = prompts.buildArgsSchema(promptName);
+		const argsSchema = prompts.buildArgsSchema(promptName, skillNames);
 		const hasArgs = Object.keys(argsSchema).length > 0;
 
 		// Helper to build the prompt response
@@ -265,25 +990,147 @@ export function createServer(
 			};
 		};
 
+		// Read the prompt body and record the invocation in the usage log
+		const respond = (readBody: () => string) => {
+			try {
+				const response = buildResponse(readBody());
+				recordUsage("prompt", promptName, {});
+				return response;
+			} catch (e) {
+				recordUsage("prompt", promptName, {
+					error: e instanceof Error ? e.message : String(e),
+				});
+				throw e;
+			}
+		};
+
 		// MCP SDK callback signature differs based on argsSchema:
 		// - With argsSchema: callback(args, extra) - first param is parsed args
 		// - Without argsSchema: callback(extra) - no args param
 		if (hasArgs) {
-			server.registerPrompt(
+			return server.registerPrompt(
 				promptName,
 				{ title: promptName, description: promptDesc, argsSchema },
 				(args: Record<string, unknown>) =>
-					buildResponse(prompts.getBodyWithArgs(promptName, args)),
+					respond(() => prompts.getBodyWithArgs(promptName, args)),
+			);
+		}
+		return server.registerPrompt(
+			promptName,
+			{ title: promptName, description: promptDesc },
+			() => respond(() => prompts.getBody(promptName)),
+		);
+	};
+
+	// Bring registered prompts in line with the prompt files on disk.
+	// The SDK sends prompts/list_changed for every add or remove.
+	const syncPrompts = () => {
+		const current = new Map(prompts.listAll().map((p) => [p.name, p]));
+
+		for (const [name, entry] of registeredPrompts) {
+			const info = current.get(name);
+			if (!info || JSON.stringify(info) !== entry.signature) {
+				entry.prompt.remove();
+				registeredPrompts.delete(name);
+			}
+		}
+
+		for (const [name, info] of current) {
+			if (registeredPrompts.has(name)) continue;
+			registeredPrompts.set(name, {
+				prompt: registerPrompt(info),
+				signature: JSON.stringify(info),
+			});
+		}
+	};
+
+	syncPrompts();
+
+	// Logging. The level is kept per server rather than per session as the
+	// SDK does, so it can default to logLevel instead of sending everything.
+	let clientLevel = options.logLevel ?? DEFAULT_LOG_LEVEL;
+	server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+		clientLevel = request.params.level;
+		return {};
+	});
+
+	const forwardLog = (entry: LogEntry) => {
+		if (!isLevelEnabled(entry.level, clientLevel)) return;
+		server.server
+			.sendLoggingMessage({
+				level: entry.level,
+				logger: entry.logger,
+				data: entry.data
+					? { message: entry.message, ...entry.data }
+					: entry.message,
+			})
+			.catch(() => {
+				// Client disconnected
+			});
+	};
+
+	// Notifications are only allowed after initialization. Replay what was
+	// logged while starting up, such as skipped skills and git refreshes.
+	let unsubscribeLog: (() => void) | undefined;
+	server.server.oninitialized = () => {
+		unsubscribeLog?.();
+		unsubscribeLog = logger.subscribe(forwardLog, true);
+	};
+
+	// Live reload
+	let watcher: SourceWatcher | undefined;
+	let unsubscribeWatcher: (() => void) | undefined;
+	if (options.watch) {
+		if (registeredPrompts.size === 0) {
+			// The SDK installs prompt handlers and capabilities on first
+			// registration, which is not allowed once connected. Register and
+			// drop a placeholder so prompts added later can still be served.
+			server
+				.registerPrompt("skillkit-placeholder", {}, () => ({
+					messages: [],
+				}))
+				.remove();
+		}
+
+		// Changes outside skills/ and prompts/ (e.g. a source root being
+		// watched until its skills/ folder exists) are ignored
+		const promptPaths = prompts.getPromptPaths();
+		const skillDirs = skills.getSkillPaths().map((p) => join(p, "skills"));
+		const isWithin = (file: string, dirs: string[]) =>
+			dirs.some((dir) => file === dir || file.startsWith(dir + sep));
+		const onChange = (changed: string[]) => {
+			const skillsChanged = changed.some((file) => isWithin(file, skillDirs));
+			const promptsChanged = changed.some((file) =>
+				isWithin(file, promptPaths),
 			);
+			if (promptsChanged) {
+				prompts.resetReported();
+				syncPrompts();
+			}
+			if (skillsChanged) {
+				skills.resetReported();
+				if (options.exposeSkillsAsTools) syncSkillTools();
+				server.sendToolListChanged();
+				server.sendResourceListChanged();
+			}
+		};
+		if (options.sharedWatcher) {
+			unsubscribeWatcher = options.sharedWatcher.subscribe(onChange);
 		} else {
-			server.registerPrompt(
-				promptName,
-				{ title: promptName, description: promptDesc },
-				() => buildResponse(prompts.getBody(promptName)),
+			watcher = new SourceWatcher(
+				watchedPaths(skills, prompts),
+				onChange,
+				options.watchDebounceMs,
 			);
 		}
 	}
 
+	server.server.onclose = () => {
+		watcher?.close();
+		unsubscribeWatcher?.();
+		unsubscribeLog?.();
+	};
+
 	return server;
 }
 
@@ -292,17 +1139,75 @@ export function createServer(
  *
  * @param extraPaths - Additional skill directories to include.
  * @param includeBundled - Whether to include bundled default skills and prompts.
+ * @param options - Optional server behaviour (live reload).
  */
 export async function runServer(
 	extraPaths?: string[],
 	includeBundled: boolean = true,
+	options: CreateServerOptions = {},
 ): Promise<void> {
-	const server = createServer(extraPaths, includeBundled);
+	const server = createServer(extraPaths, includeBundled, options);
 	const transport = new StdioServerTransport();
 	await server.connect(transport);
 }
 
+/**
+ * Run the MCP server with streamable HTTP transport.
+ *
+ * Every client session gets its own server instance over the same skill
+ * sources, so one process can serve a whole team. With watch set, one
+ * watcher serves all sessions and is closed with the HTTP server.
+ *
+ * @param extraPaths - Additional skill directories to include.
+ * @param includeBundled - Whether to include bundled default skills and prompts.
+ * @param options - Optional server behaviour (live reload).
+ * @param httpOptions - Listen address and header allowlists.
+ * @returns The listening HTTP server.
+ */
+export async function runHttpServer(
+	extraPaths: string[] | undefined,
+	includeBundled: boolean,
+	options: CreateServerOptions,
+	httpOptions: HttpServerOptions,
+): Promise<Server> {
+	const sharedWatcher = options.watch
+		? new SourceWatcher(
+				watchedPaths(
+					new SkillManager(extraPaths, includeBundled),
+					new PromptManager(extraPaths, includeBundled),
+				),
+				undefined,
+				options.watchDebounceMs,
+			)
+		: undefined;
+
+	let httpServer: Server;
+	try {
+		httpServer = await startHttpServer(
+			() =>
+				createServer(extraPaths, includeBundled, { ...options, sharedWatcher }),
+			httpOptions,
+		);
+	} catch (e) {
+		sharedWatcher?.close();
+		throw e;
+	}
+	httpServer.on("close", () => sharedWatcher?.close());
+	return httpServer;
+}
+
+export type { HttpServerOptions } from "./httpServer.js";
+export {
+	type LogEntry,
+	Logger,
+	type LogLevel,
+} from "./logger.js";
 export { PromptManager } from "./promptManager.js";
+export {
+	type SymlinkPolicy,
+	type UnsafePathCode,
+	UnsafePathError,
+} from "./safePath.js";
 export * from "./schemas.js";
 // Export classes and schemas for programmatic use
 export { SkillManager } from "./skillManager.js";
@@ -0,0 +1,125 @@
+/**
+ * MCP instructions summarising the skill catalog.
+ *
+ * Clients pass server instructions to the model, so agents learn which
+ * skills exist and how to fetch them without being told "use skillkit".
+ */
+
+import type { PromptInfo } from "./promptManager.js";
+import type { SkillInfo } from "./skillManager.js";
+import { INSTRUCTIONS_TEMPLATE } from "./templates/instructionsTemplate.js";
+
+export const DEFAULT_INSTRUCTIONS_MAX_LENGTH = 4000;
+
+/**
+ * Longest description shown per skill.
+ */
+const DESCRIPTION_LIMIT = 120;
+
+/**
+ * Options for buildInstructions().
+ */
+export interface InstructionsOptions {
+	/** Template with {{placeholders}} (defaults to INSTRUCTIONS_TEMPLATE). */
+	template?: string;
+	/** Maximum length in characters; least used skills are left out first. */
+	maxLength?: number;
+	/** Calls per skill from the usage log, to list the most used first. */
+	usage?: Map<string, number>;
+}
+
+/**
+ * First line of a description, shortened to DESCRIPTION_LIMIT.
+ */
+function summarise(description: string): string {
+	const line = description.split("\n")[0].trim();
+	return line.length > DESCRIPTION_LIMIT
+		? `${line.slice(0, DESCRIPTION_LIMIT - 3)}...`
+		: line;
+}
+
+/**
+ * Group skills by the first segment of their name ('aws-deploy' -> 'aws').
+ *
+ * @returns Categories with counts, largest first (e.g. 'aws (3), docker (1)').
+ */
+export function summariseCategories(skills: SkillInfo[]): string {
+	const counts = new Map<string, number>();
+	for (const skill of skills) {
+		const category = skill.name.split("-")[0];
+		counts.set(category, (counts.get(category) ?? 0) + 1);
+	}
+	return (
+		[...counts]
+			.sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+			.map(([category, count]) => `${category} (${count})`)
+			.join(", ") || "none"
+	);
+}
+
+/**
+ * Replace {{name}} placeholders, leaving unknown ones as they are.
+ */
+function render(template: string, values: Record<string, string>): string {
+	return template.replace(
+		/\{\{(\w+)\}\}/g,
+		(match, key: string) => values[key] ?? match,
+	);
+}
+
+/**
+ * Build server instructions from the current catalog.
+ *
+ * @param skills - Skills from SkillManager.listAll().
+ * @param prompts - Prompts from PromptManager.listAll().
+ * @param options - Template, size cap and usage counts.
+ * @returns Instructions no longer than the size cap.
+ */
+export function buildInstructions(
+	skills: SkillInfo[],
+	prompts: PromptInfo[],
+	options: InstructionsOptions = {},
+): string {
+	const template = options.template ?? INSTRUCTIONS_TEMPLATE;
+	const maxLength = options.maxLength ?? DEFAULT_INSTRUCTIONS_MAX_LENGTH;
+	const usage = options.usage ?? new Map<string, number>();
+
+	const lines = [...skills]
+		.sort(
+			(a, b) =>
+				(usage.get(b.name) ?? 0) - (usage.get(a.name) ?? 0) ||
+				a.name.localeCompare(b.name),
+		)
+		.map((skill) => {
+			const description = summarise(skill.description);
+			return description
+				? `- ${skill.name}: ${description}`
+				: `- ${skill.name}`;
+		});
+
+	const withSkills = (shown: number) => {
+		const hidden = lines.length - shown;
+		const list = lines.slice(0, shown);
+		if (hidden > 0) {
+			list.push(`- ...and ${hidden} more (see skillkit_list_skills)`);
+		}
+		return render(template, {
+			skill_count: String(skills.length),
+			prompt_count: String(prompts.length),
+			categories: summariseCategories(skills),
+			skills: list.join("\n") || "(none)",
+		});
+	};
+
+	const full = withSkills(lines.length);
+	if (full.length <= maxLength) return full;
+
+	// Show as many of the most used skills as fit
+	let text = withSkills(0);
+	for (let shown = 1; shown < lines.length; shown++) {
+		const next = withSkills(shown);
+		if (next.length > maxLength) break;
+		text = next;
+	}
+	return text.slice(0, maxLength);
+}
@@ -0,0 +1,136 @@
+/**
+ * Diagnostics for skill discovery and git sources.
+ *
+ * Components log to a shared Logger. The MCP server forwards entries to
+ * clients as notifications/message, and the CLI can mirror them to stderr
+ * or a file, since stdout is reserved for the stdio transport.
+ */
+
+import { appendFileSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * MCP log levels, from least to most severe.
+ */
+export type LogLevel = LoggingLevel;
+
+export const LOG_LEVELS: readonly LogLevel[] = [
+	"debug",
+	"info",
+	"notice",
+	"warning",
+	"error",
+	"critical",
+	"alert",
+	"emergency",
+];
+
+export const DEFAULT_LOG_LEVEL: LogLevel = "info";
+
+/**
+ * Entries kept for listeners that subscribe late (e.g. a client that
+ * connects after git sources were refreshed).
+ */
+const HISTORY_LIMIT = 100;
+
+/**
+ * One log message.
+ */
+export interface LogEntry {
+	level: LogLevel;
+	/** Component that logged the entry (e.g. 'skills', 'prompts', 'git'). */
+	logger: string;
+	message: string;
+	/** Structured details, such as the file or skill concerned. */
+	data?: Record<string, unknown>;
+}
+
+export type LogListener = (entry: LogEntry) => void;
+
+/**
+ * Check whether a level passes a threshold.
+ *
+ * @param level - Level of the entry.
+ * @param threshold - Minimum level to let through.
+ */
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+	return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Fan-out logger with a short history.
+ */
+export class Logger {
+	private listeners = new Set<LogListener>();
+	private history: LogEntry[] = [];
+
+	/**
+	 * Record an entry and pass it to every listener.
+	 */
+	log(
+		level: LogLevel,
+		logger: string,
+		message: string,
+		data?: Record<string, unknown>,
+	): void {
+		const entry: LogEntry = { level, logger, message, data };
+		this.history.push(entry);
+		if (this.history.length > HISTORY_LIMIT) this.history.shift();
+
+		for (const listener of this.listeners) {
+			try {
+				listener(entry);
+			} catch {
+				// A failing listener must not break the caller
+			}
+		}
+	}
+
+	/**
+	 * Listen for entries.
+	 *
+	 * @param listener - Called for every entry.
+	 * @param replay - Also call it for entries logged before subscribing.
+	 * @returns Function that removes the listener.
+	 */
+	subscribe(listener: LogListener, replay: boolean = false): () => void {
+		if (replay) {
+			for (const entry of this.history) listener(entry);
+		}
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+}
+
+/**
+ * Render an entry as one line of text.
+ */
+export function formatLogEntry(entry: LogEntry): string {
+	const data = entry.data ? ` ${JSON.stringify(entry.data)}` : "";
+	return `${new Date().toISOString()} [${entry.level}] ${entry.logger}: ${entry.message}${data}`;
+}
+
+/**
+ * Create a listener that writes entries at or above a level to a file,
+ * or to stderr if no file is given.
+ *
+ * @param level - Minimum level to write.
+ * @param file - Log file to append to.
+ * @returns Listener for Logger.subscribe().
+ */
+export function createLogWriter(level: LogLevel, file?: string): LogListener {
+	if (file) mkdirSync(dirname(file), { recursive: true });
+
+	return (entry) => {
+		if (!isLevelEnabled(entry.level, level)) return;
+		const line = `${formatLogEntry(entry)}\n`;
+		if (file) {
+			appendFileSync(file, line);
+		} else {
+			process.stderr.write(line);
+		}
+	};
+}
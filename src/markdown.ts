@@ -0,0 +1,206 @@
+/**
+ * Line- and heading-based views of markdown files, so agents can read large
+ * documents in pieces.
+ */
+
+/**
+ * A markdown heading and the line it starts on.
+ */
+export interface Heading {
+	level: number;
+	title: string;
+	/** 1-based line number. */
+	line: number;
+}
+
+/**
+ * Options for readLines().
+ */
+export interface ReadLinesOptions {
+	/** Heading whose section to return (case-insensitive, leading #s optional). */
+	section?: string;
+	/** First line to return, 1-based, within the section if one is selected. */
+	offset?: number;
+	/** Maximum number of lines to return. */
+	limit?: number;
+}
+
+/**
+ * A window of lines from a document.
+ */
+export interface LineRange {
+	text: string;
+	/** First returned line, 1-based, relative to the selection. */
+	startLine: number;
+	/** Last returned line, 1-based, relative to the selection. */
+	endLine: number;
+	/** Lines in the selection (whole document or section). */
+	totalLines: number;
+	/** Selected section heading, if any. */
+	section?: Heading;
+}
+
+/**
+ * Split text into lines, ignoring the newline that ends the last line.
+ */
+function splitLines(text: string): string[] {
+	if (text === "") return [];
+	return text.replace(/\r?\n$/, "").split(/\r?\n/);
+}
+
+/**
+ * List ATX headings (# Title), skipping YAML frontmatter and fenced code blocks.
+ *
+ * @param text - Markdown content.
+ * @returns Headings in document order.
+ */
+export function listHeadings(text: string): Heading[] {
+	const headings: Heading[] = [];
+	const lines = splitLines(text);
+	let fence: string | null = null;
+
+	let bodyStart = 0;
+	if (lines[0] === "---") {
+		const close = lines.indexOf("---", 1);
+		if (close !== -1) bodyStart = close + 1;
+	}
+
+	lines.forEach((line, index) => {
+		if (index < bodyStart) return;
+
+		const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+		if (fenceMatch) {
+			if (fence === null) {
+				fence = fenceMatch[1][0];
+			} else if (fenceMatch[1][0] === fence) {
+				fence = null;
+			}
+			return;
+		}
+		if (fence !== null) return;
+
+		const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+		if (match) {
+			headings.push({
+				level: match[1].length,
+				title: match[2],
+				line: index + 1,
+			});
+		}
+	});
+
+	return headings;
+}
+
+/**
+ * Find the lines belonging to a heading's section.
+ *
+ * A section runs from its heading to the line before the next heading of
+ * the same or a higher level.
+ *
+ * @param text - Markdown content.
+ * @param name - Heading title to look for.
+ * @returns The heading and its last line (1-based, inclusive).
+ * @throws Error listing available headings if no heading matches.
+ */
+export function findSection(
+	text: string,
+	name: string,
+): { heading: Heading; endLine: number } {
+	const headings = listHeadings(text);
+	const wanted = name
+		.replace(/^#+\s*/, "")
+		.trim()
+		.toLowerCase();
+	const index = headings.findIndex((h) => h.title.toLowerCase() === wanted);
+
+	if (index === -1) {
+		const available = headings.map((h) => h.title).join(", ");
+		throw new Error(
+			`Section '${name}' not found. Available sections: ${available || "(none)"}`,
+		);
+	}
+
+	const heading = headings[index];
+	const next = headings.slice(index + 1).find((h) => h.level <= heading.level);
+	const endLine = next ? next.line - 1 : splitLines(text).length;
+	return { heading, endLine };
+}
+
+/**
+ * Return a window of lines from a document or one of its sections.
+ *
+ * @param text - Document content.
+ * @param options - Section, offset and limit.
+ * @returns The selected lines with their position.
+ * @throws Error if the section is not found or offset is past the end.
+ */
+export function readLines(
+	text: string,
+	options: ReadLinesOptions = {},
+): LineRange {
+	let lines = splitLines(text);
+	let section: Heading | undefined;
+
+	if (options.section !== undefined) {
+		const found = findSection(text, options.section);
+		section = found.heading;
+		lines = lines.slice(found.heading.line - 1, found.endLine);
+	}
+
+	const totalLines = lines.length;
+	const offset = options.offset ?? 1;
+	if (offset > totalLines && totalLines > 0) {
+		throw new Error(`Offset ${offset} is past the end (${totalLines} lines).`);
+	}
+
+	const end =
+		options.limit === undefined
+			? totalLines
+			: Math.min(totalLines, offset - 1 + options.limit);
+	const selected = lines.slice(offset - 1, end);
+
+	return {
+		text: selected.join("\n"),
+		startLine: selected.length > 0 ? offset : 0,
+		endLine: selected.length > 0 ? end : 0,
+		totalLines,
+		section,
+	};
+}
+
+/**
+ * Render a table of contents with line numbers.
+ *
+ * @param text - Markdown content.
+ * @returns One heading per line with its line number, e.g. '12: ## Setup'.
+ */
+export function formatToc(text: string): string {
+	const headings = listHeadings(text);
+	if (headings.length === 0) return "(no headings)";
+
+	const width = String(headings[headings.length - 1].line).length;
+	return headings
+		.map(
+			(h) =>
+				`${String(h.line).padStart(width)}: ${"#".repeat(h.level)} ${h.title}`,
+		)
+		.join("\n");
+}
+
+/**
+ * Describe a line window so the agent knows how to fetch the next page.
+ *
+ * @param range - Result of readLines().
+ * @returns e.g. "Lines 1-200 of 5234. Continue with offset=201."
+ */
+export function describeRange(range: LineRange): string {
+	const scope = range.section ? ` in section '${range.section.title}'` : "";
+	const position =
+		range.totalLines === 0
+			? `Empty${scope}.`
+			: `Lines ${range.startLine}-${range.endLine} of ${range.totalLines}${scope}.`;
+	return range.endLine < range.totalLines
+		? `${position} Continue with offset=${range.endLine + 1}.`
+		: position;
+}
@@ -0,0 +1,45 @@
+/**
+ * MIME type lookup for skill files exposed as MCP resources.
+ */
+
+import { extname } from "node:path";
+
+/**
+ * MIME types for file extensions commonly found in skills.
+ */
+const MIME_TYPES: Record<string, string> = {
+	".md": "text/markdown",
+	".markdown": "text/markdown",
+	".txt": "text/plain",
+	".json": "application/json",
+	".yaml": "application/yaml",
+	".yml": "application/yaml",
+	".toml": "application/toml",
+	".xml": "application/xml",
+	".html": "text/html",
+	".css": "text/css",
+	".csv": "text/csv",
+	".sh": "application/x-sh",
+	".bash": "application/x-sh",
+	".py": "text/x-python",
+	".js": "text/javascript",
+	".mjs": "text/javascript",
+	".cjs": "text/javascript",
+	".ts": "text/x-typescript",
+	".mts": "text/x-typescript",
+	".rb": "text/x-ruby",
+	".go": "text/x-go",
+	".rs": "text/x-rust",
+	".java": "text/x-java",
+	".sql": "application/sql",
+};
+
+/**
+ * Return the MIME type for a filename based on its extension.
+ *
+ * @param filename - File name or path.
+ * @returns MIME type, or 'text/plain' for unknown extensions.
+ */
+export function getMimeType(filename: string): string {
+	return MIME_TYPES[extname(filename).toLowerCase()] ?? "text/plain";
+}
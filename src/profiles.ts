@@ -0,0 +1,111 @@
+/**
+ * Summaries of named profiles for `skillkit-mcp profiles list`.
+ */
+
+import { existsSync } from "node:fs";
+import {
+	type LoadedConfig,
+	type ResolvedConfig,
+	selectProfile,
+} from "./config.js";
+import { isGitUrl, localSourcePath } from "./gitSource.js";
+import { SkillManager } from "./skillManager.js";
+
+/**
+ * What a profile yields.
+ */
+export interface ProfileSummary {
+	name: string;
+	/** Config file defining the profile. */
+	file: string;
+	/** Whether the profile is selected for this invocation. */
+	active: boolean;
+	/** Sources after applying the profile; empty means the default home. */
+	sources: string[];
+	/** Whether SKILLKIT_SKILLS_PATH replaces these sources, as it does for the server. */
+	fromEnv: boolean;
+	/** Git sources that have not been cloned yet, so their skills are unknown. */
+	uncached: string[];
+	include: string[];
+	exclude: string[];
+	bundled: boolean;
+	/** Skill names served with this profile. */
+	skills: string[];
+}
+
+/**
+ * Summarise every profile, sorted by name.
+ *
+ * @param loaded - Config from loadConfig().
+ * @param active - Selected profile (from --profile, SKILLKIT_PROFILE or config).
+ */
+export function summariseProfiles(
+	loaded: LoadedConfig,
+	active: string | undefined = loaded.config.profile,
+): ProfileSummary[] {
+	const fromEnv = (process.env.SKILLKIT_SKILLS_PATH ?? "").trim() !== "";
+
+	return Object.keys(loaded.config.profiles ?? {})
+		.sort()
+		.map((name) => {
+			const config: ResolvedConfig = selectProfile(loaded.config, name);
+			const sources = config.sources ?? [];
+			// Git sources use their cached clone without touching the network.
+			// One that is not cloned yet maps to a missing path, which is
+			// skipped rather than falling back to the default home.
+			const manager = new SkillManager(
+				!fromEnv && sources.length > 0
+					? sources.map(localSourcePath)
+					: undefined,
+				config.bundled ?? true,
+				{ include: config.include, exclude: config.exclude },
+			);
+
+			return {
+				name,
+				file: loaded.profileFiles[name],
+				active: name === active,
+				sources,
+				fromEnv,
+				uncached: sources.filter(
+					(source) => isGitUrl(source) && !existsSync(localSourcePath(source)),
+				),
+				include: config.include ?? [],
+				exclude: config.exclude ?? [],
+				bundled: config.bundled ?? true,
+				skills: manager.listAll().map((skill) => skill.name),
+			};
+		});
+}
+
+/**
+ * Render profile summaries as plain text.
+ */
+export function formatProfiles(profiles: ProfileSummary[]): string {
+	const list = (items: string[]) =>
+		items.length > 0 ? items.join(", ") : "(none)";
+
+	return profiles
+		.map((profile) => {
+			const lines = [
+				`${profile.name}${profile.active ? " (active)" : ""}  ${profile.file}`,
+				`  sources:  ${
+					profile.fromEnv
+						? "SKILLKIT_SKILLS_PATH (replaces the profile's sources)"
+						: profile.sources.length > 0
+							? profile.sources
+									.map((s) =>
+										profile.uncached.includes(s) ? `${s} (not cloned yet)` : s,
+									)
+									.join(", ")
+							: "(default home)"
+				}`,
+				`  include:  ${profile.include.length > 0 ? list(profile.include) : "*"}`,
+				`  exclude:  ${list(profile.exclude)}`,
+				`  bundled:  ${profile.bundled ? "yes" : "no"}`,
+				`  skills:   ${profile.skills.length}: ${list(profile.skills)}`,
+			];
+			return lines.join("\n");
+		})
+		.join("\n\n");
+}
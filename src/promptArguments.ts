@@ -0,0 +1,177 @@
+/**
+ * Zod schemas for prompt arguments, and formatting of argument values.
+ *
+ * MCP clients send every prompt argument as a string, so each schema
+ * coerces strings to the declared type before checking constraints.
+ */
+
+import { z } from "zod";
+import type { PromptArgument, PromptArgumentType } from "./schemas.js";
+
+/**
+ * Strings accepted for boolean arguments.
+ */
+const TRUE_VALUES = ["true", "yes", "on", "1"];
+const FALSE_VALUES = ["false", "no", "off", "0"];
+
+/**
+ * Resolve the effective type of an argument. An enum list without a type
+ * makes the argument an enum.
+ */
+export function argumentType(argDef: PromptArgument): PromptArgumentType {
+	return argDef.type ?? (argDef.enum ? "enum" : "string");
+}
+
+/**
+ * Check whether an argument must be supplied.
+ *
+ * Explicit `required` wins. Otherwise arguments with a default and
+ * booleans are optional, and everything else is required.
+ */
+export function isArgumentRequired(argDef: PromptArgument): boolean {
+	if (argDef.default !== undefined) return false;
+	return argDef.required ?? argumentType(argDef) !== "boolean";
+}
+
+/**
+ * Convert a string sent by the client to the argument's type.
+ * Values that are already typed (such as frontmatter defaults) pass through.
+ */
+function coerce(
+	type: PromptArgumentType,
+	value: unknown,
+	ctx: z.RefinementCtx,
+): unknown {
+	if (typeof value !== "string") return value;
+
+	const trimmed = value.trim();
+	// Clients send '' for fields the user left empty
+	if (trimmed === "" && type !== "string" && type !== "skill") {
+		return undefined;
+	}
+
+	switch (type) {
+		case "number":
+			return Number(trimmed);
+		case "boolean": {
+			const lower = trimmed.toLowerCase();
+			if (TRUE_VALUES.includes(lower)) return true;
+			if (FALSE_VALUES.includes(lower)) return false;
+			return value;
+		}
+		case "string[]":
+			if (trimmed.startsWith("[")) {
+				try {
+					return JSON.parse(trimmed);
+				} catch {
+					return value;
+				}
+			}
+			return trimmed
+				.split(/,|\r?\n/)
+				.map((item) => item.trim())
+				.filter(Boolean);
+		case "json":
+			try {
+				return JSON.parse(trimmed);
+			} catch (e) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					message: `Invalid JSON: ${e instanceof Error ? e.message : String(e)}`,
+				});
+				return z.NEVER;
+			}
+		default:
+			return value;
+	}
+}
+
+/**
+ * Build the schema for a string, applying length and pattern constraints.
+ */
+function stringSchema(argDef: PromptArgument): z.ZodTypeAny {
+	let schema = z.string();
+	if (argDef.min !== undefined) schema = schema.min(argDef.min);
+	if (argDef.max !== undefined) schema = schema.max(argDef.max);
+	if (argDef.pattern !== undefined) {
+		schema = schema.regex(
+			new RegExp(argDef.pattern),
+			`Must match pattern ${argDef.pattern}`,
+		);
+	}
+	return schema;
+}
+
+/**
+ * Build the schema for an argument's value, before requiredness is applied.
+ */
+function valueSchema(argDef: PromptArgument): z.ZodTypeAny {
+	switch (argumentType(argDef)) {
+		case "number": {
+			let schema = z.number();
+			if (argDef.min !== undefined) schema = schema.min(argDef.min);
+			if (argDef.max !== undefined) schema = schema.max(argDef.max);
+			return schema;
+		}
+		case "boolean":
+			return z.boolean();
+		case "string[]": {
+			let schema = z.array(stringSchema({ pattern: argDef.pattern }));
+			if (argDef.min !== undefined) schema = schema.min(argDef.min);
+			if (argDef.max !== undefined) schema = schema.max(argDef.max);
+			return schema;
+		}
+		case "json":
+			return z.any().refine((value) => value !== undefined, "Required");
+		default:
+			return argDef.enum
+				? z.enum(argDef.enum as [string, ...string[]])
+				: stringSchema(argDef);
+	}
+}
+
+/**
+ * Build the Zod schema for one prompt argument.
+ *
+ * @param argDef - Argument definition from frontmatter.
+ * @returns Schema that coerces client strings, checks constraints and
+ *   applies the default.
+ * @throws Error if the pattern is not a valid regular expression.
+ */
+export function buildArgumentSchema(argDef: PromptArgument): z.ZodTypeAny {
+	const type = argumentType(argDef);
+	const inner = valueSchema(argDef);
+
+	let schema: z.ZodTypeAny = z.preprocess(
+		(value, ctx) => {
+			const missing =
+				value === undefined ||
+				(typeof value === "string" && value.trim() === "");
+			if (missing && argDef.default !== undefined) {
+				return coerce(type, argDef.default, ctx);
+			}
+			return coerce(type, value, ctx);
+		},
+		isArgumentRequired(argDef) ? inner : inner.optional(),
+	);
+
+	if (argDef.description) {
+		schema = schema.describe(argDef.description);
+	}
+	return schema;
+}
+
+/**
+ * Render an argument value for substitution into a prompt body.
+ *
+ * Lists of strings are joined with commas; other objects become JSON.
+ */
+export function formatArgumentValue(value: unknown): string {
+	if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+		return value.join(", ");
+	}
+	if (typeof value === "object" && value !== null) {
+		return JSON.stringify(value, null, 2);
+	}
+	return String(value);
+}
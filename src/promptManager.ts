@@ -6,9 +6,18 @@ import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
 import { homedir } from "node:os";
 import { dirname, join, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
 import yaml from "js-yaml";
-import { z } from "zod";
-import { type PromptArguments, PromptArgumentsSchema } from "./schemas.js";
+import type { z } from "zod";
+import { rankCompletions } from "./completion.js";
+import type { Logger, LogLevel } from "./logger.js";
+import { buildArgumentSchema, formatArgumentValue } from "./promptArguments.js";
+import {
+	type PromptArgument,
+	type PromptArguments,
+	PromptArgumentsSchema,
+} from "./schemas.js";
+import type { SourceOrigin } from "./skillManager.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -22,6 +31,41 @@ export interface PromptInfo {
 	arguments?: PromptArguments;
 }
 
+/**
+ * A prompt file hidden by a prompt of the same name in a directory with
+ * higher priority.
+ */
+export interface ShadowedPrompt {
+	name: string;
+	/** The hidden file. */
+	path: string;
+	/** prompts/ directory the served prompt comes from. */
+	winner: string;
+}
+
+/**
+ * A prompts/ directory and what it contributes, from getSources().
+ */
+export interface PromptSourceInfo {
+	/** The prompts/ directory. */
+	path: string;
+	origin: SourceOrigin;
+	/** Prompts served from this directory, sorted. */
+	prompts: string[];
+	/** Prompts of this directory hidden by a higher-priority directory. */
+	shadowed: ShadowedPrompt[];
+}
+
+/**
+ * Options for PromptManager beyond path configuration.
+ */
+export interface PromptManagerOptions {
+	/** Receives skipped prompts, unreadable files and shadowed names. */
+	logger?: Logger;
+	/** Where extraPaths come from: --skills-path (default) or a config file. */
+	pathsOrigin?: "cli" | "config";
+}
+
 /**
  * Resolves a path, expanding ~ to home directory.
  */
@@ -32,6 +76,13 @@ function resolvePath(p: string): string {
 	return resolve(p);
 }
 
+/**
+ * Message of a caught error.
+ */
+function errorMessage(e: unknown): string {
+	return e instanceof Error ? e.message : String(e);
+}
+
 /**
  * Default location for user prompts when no paths are configured.
  */
@@ -50,14 +101,23 @@ const DEFAULT_SKILLKIT_HOME = join(homedir(), ".skillkit");
  */
 export class PromptManager {
 	private promptPaths: string[] = [];
+	private origins = new Map<string, SourceOrigin>();
+	private logger: Logger | undefined;
+	private reported = new Set<string>();
 
 	/**
 	 * Initialize PromptManager with prompt paths.
 	 *
 	 * @param extraPaths - Additional directories containing prompts/ subdirectories.
 	 * @param includeBundled - Whether to include bundled default prompts.
+	 * @param options - Logger for discovery problems and where extraPaths come from.
 	 */
-	constructor(extraPaths?: string[], includeBundled: boolean = true) {
+	constructor(
+		extraPaths?: string[],
+		includeBundled: boolean = true,
+		options: PromptManagerOptions = {},
+	) {
+		this.logger = options.logger;
 		const hasExplicitPaths = extraPaths && extraPaths.length > 0;
 
 		// 1. Extra paths from CLI (highest priority)
@@ -67,6 +127,7 @@ export class PromptManager {
 				const promptsDir = join(expanded, "prompts");
 				if (existsSync(promptsDir) && statSync(promptsDir).isDirectory()) {
 					this.promptPaths.push(promptsDir);
+					this.origins.set(promptsDir, options.pathsOrigin ?? "cli");
 				}
 			}
 		}
@@ -79,6 +140,7 @@ export class PromptManager {
 				statSync(defaultPromptsDir).isDirectory()
 			) {
 				this.promptPaths.push(defaultPromptsDir);
+				this.origins.set(defaultPromptsDir, "default");
 			}
 		}
 
@@ -87,10 +149,18 @@ export class PromptManager {
 			const bundled = resolve(__dirname, "..", "bundled", "prompts");
 			if (existsSync(bundled) && statSync(bundled).isDirectory()) {
 				this.promptPaths.push(bundled);
+				this.origins.set(bundled, "bundled");
 			}
 		}
 	}
 
+	/**
+	 * Return all prompts/ directories searched for prompts, highest priority first.
+	 */
+	getPromptPaths(): string[] {
+		return [...this.promptPaths];
+	}
+
 	/**
 	 * Discover all available prompts.
 	 *
@@ -101,41 +171,132 @@ export class PromptManager {
 
 		// Process in reverse order so earlier paths (higher priority) override
 		for (const promptsDir of [...this.promptPaths].reverse()) {
-			if (!existsSync(promptsDir)) continue;
+			for (const [name, itemPath] of this.scanDirectory(promptsDir)) {
+				const shadowed = prompts.get(name);
+				if (shadowed) {
+					this.report(
+						"notice",
+						`Prompt '${name}' in ${itemPath} shadows ${shadowed}`,
+						{ prompt: name, winner: itemPath, shadowed },
+					);
+				}
+				prompts.set(name, itemPath);
+			}
+		}
 
-			try {
-				const items = readdirSync(promptsDir);
-				for (const item of items) {
-					if (!item.endsWith(".md")) continue;
+		return prompts;
+	}
 
-					const itemPath = join(promptsDir, item);
-					if (!statSync(itemPath).isFile()) continue;
+	/**
+	 * List the prompt files of one prompts/ directory.
+	 *
+	 * @returns Map of prompt name (filename stem) to its file path.
+	 */
+	private scanDirectory(promptsDir: string): Map<string, string> {
+		const prompts = new Map<string, string>();
+		if (!existsSync(promptsDir)) return prompts;
 
-					// Use filename stem as name
-					const name = item.slice(0, -3);
-					prompts.set(name, itemPath);
-				}
-			} catch {
-				// Ignore errors reading directory
+		let items: string[];
+		try {
+			items = readdirSync(promptsDir);
+		} catch (e) {
+			this.report("error", `Cannot read ${promptsDir}: ${errorMessage(e)}`);
+			return prompts;
+		}
+
+		for (const item of items) {
+			if (!item.endsWith(".md")) continue;
+
+			const itemPath = join(promptsDir, item);
+			try {
+				if (!statSync(itemPath).isFile()) continue;
+			} catch (e) {
+				this.report("error", `Cannot read ${itemPath}: ${errorMessage(e)}`);
+				continue;
 			}
+
+			// Use filename stem as name
+			prompts.set(item.slice(0, -3), itemPath);
 		}
 
 		return prompts;
 	}
 
+	/**
+	 * Describe every prompts/ directory, highest priority first: the
+	 * prompts it serves and the ones hidden by a directory with higher
+	 * priority.
+	 */
+	getSources(): PromptSourceInfo[] {
+		const served = this.discoverPrompts();
+
+		return this.promptPaths.map((promptsDir) => {
+			const prompts: string[] = [];
+			const shadowed: ShadowedPrompt[] = [];
+			for (const [name, itemPath] of this.scanDirectory(promptsDir)) {
+				const winner = served.get(name);
+				if (winner === itemPath) {
+					prompts.push(name);
+				} else if (winner !== undefined) {
+					shadowed.push({ name, path: itemPath, winner: dirname(winner) });
+				}
+			}
+
+			return {
+				path: promptsDir,
+				origin: this.origins.get(promptsDir) ?? "cli",
+				prompts: prompts.sort(),
+				shadowed: shadowed.sort((a, b) => a.name.localeCompare(b.name)),
+			};
+		});
+	}
+
+	/**
+	 * Forget which problems were logged, so discovery logs the ones still
+	 * present again. Call when the prompts change on disk: a problem that
+	 * was fixed and comes back is then reported again.
+	 */
+	resetReported(): void {
+		this.reported.clear();
+	}
+
+	/**
+	 * Log a discovery problem once, since discovery runs on every call.
+	 * resetReported() starts over.
+	 */
+	private report(
+		level: LogLevel,
+		message: string,
+		data?: Record<string, unknown>,
+	): void {
+		if (!this.logger || this.reported.has(message)) return;
+		this.reported.add(message);
+		this.logger.log(level, "prompts", message, data);
+	}
+
 	/**
 	 * Parse YAML frontmatter from prompt file.
 	 *
 	 * @param content - Full content of the prompt markdown file.
+	 * @param promptFile - Path to report problems for (omit to parse quietly).
 	 * @returns Parsed frontmatter (name, description, etc.)
 	 */
-	private parseFrontmatter(content: string): Record<string, unknown> {
+	private parseFrontmatter(
+		content: string,
+		promptFile?: string,
+	): Record<string, unknown> {
 		const match = content.match(/^---\n([\s\S]*?)\n---/);
 		if (!match) return {};
 
 		try {
 			return (yaml.load(match[1]) as Record<string, unknown>) ?? {};
-		} catch {
+		} catch (e) {
+			if (promptFile) {
+				this.report(
+					"warning",
+					`Invalid frontmatter in ${promptFile}: ${errorMessage(e)}`,
+				);
+			}
 			return {};
 		}
 	}
@@ -166,7 +327,7 @@ export class PromptManager {
 		for (const [name, promptPath] of sortedEntries) {
 			try {
 				const content = readFileSync(promptPath, "utf-8");
-				const fm = this.parseFrontmatter(content);
+				const fm = this.parseFrontmatter(content, promptPath);
 				const promptName = (fm.name as string) ?? name;
 
 				// Get merged arguments (frontmatter + auto-discovered)
@@ -178,8 +339,11 @@ export class PromptManager {
 					description: (fm.description as string) ?? "",
 					...(hasArgs ? { arguments: mergedArgs } : {}),
 				});
-			} catch {
-				// Skip prompts we can't read
+			} catch (e) {
+				this.report(
+					"warning",
+					`Skipped prompt ${promptPath}: ${errorMessage(e)}`,
+				);
 			}
 		}
 
@@ -275,45 +439,51 @@ export class PromptManager {
 		return merged;
 	}
 
+	/**
+	 * Find the values an argument completes against.
+	 *
+	 * Declared enum and suggestions values come first. Arguments named or
+	 * typed 'skill' complete against skill names.
+	 *
+	 * @returns Function returning candidates, or undefined if there are none.
+	 */
+	private completionValues(
+		argName: string,
+		argDef: PromptArgument,
+		skillNames?: () => string[],
+	): (() => string[]) | undefined {
+		const declared = [...(argDef.enum ?? []), ...(argDef.suggestions ?? [])];
+		if (declared.length > 0) {
+			return () => declared;
+		}
+		if (argDef.type === "skill" || argName === "skill") {
+			return skillNames;
+		}
+		return undefined;
+	}
+
 	/**
 	 * Build a Zod schema from merged arguments for MCP argsSchema.
 	 *
+	 * Arguments with enum or suggestions values, and skill arguments, are
+	 * wrapped so the server answers completion/complete requests for them.
+	 *
 	 * @param name - Prompt name to build schema for.
+	 * @param skillNames - Returns current skill names, for skill arguments.
 	 * @returns Zod raw shape for MCP argsSchema.
 	 */
-	buildArgsSchema(name: string): z.ZodRawShape {
+	buildArgsSchema(name: string, skillNames?: () => string[]): z.ZodRawShape {
 		const mergedArgs = this.getMergedArguments(name);
 		const shape: z.ZodRawShape = {};
 
 		for (const [argName, argDef] of Object.entries(mergedArgs)) {
-			let fieldSchema: z.ZodTypeAny;
-
-			// Determine base type
-			const argType = argDef.type ?? "string";
-			switch (argType) {
-				case "number":
-					fieldSchema = z.number();
-					break;
-				case "boolean":
-					fieldSchema = z.boolean();
-					break;
-				default:
-					fieldSchema = z.string();
-			}
-
-			// Add description if present
-			if (argDef.description) {
-				fieldSchema = fieldSchema.describe(argDef.description);
-			}
+			let fieldSchema = buildArgumentSchema(argDef);
 
-			// Make optional with default, or required
-			if (argDef.default !== undefined) {
-				fieldSchema = fieldSchema.default(argDef.default);
-			} else if (argType === "boolean") {
-				// Booleans without defaults are optional
-				fieldSchema = fieldSchema.optional();
-			} else {
-				// Required - no default
+			const values = this.completionValues(argName, argDef, skillNames);
+			if (values) {
+				fieldSchema = completable(fieldSchema, (value) =>
+					rankCompletions(values(), String(value ?? "")),
+				);
 			}
 
 			shape[argName] = fieldSchema;
@@ -334,7 +504,7 @@ export class PromptManager {
 
 		for (const [key, value] of Object.entries(args)) {
 			const pattern = new RegExp(`\\{\\{${key}\\}\\}`, "g");
-			body = body.replace(pattern, String(value));
+			body = body.replace(pattern, formatArgumentValue(value));
 		}
 
 		return body;
@@ -63,6 +63,8 @@ export function getSkillsFromDirectory(skillsDir: string): SkillInfo[] {
 	const items = readdirSync(skillsDir);
 	for (const item of items) {
 		if (item.startsWith(".")) continue;
+		// Side-by-side versions (deploy@2) are listed under their skill
+		if (item.includes("@")) continue;
 
 		const skillPath = join(skillsDir, item);
 		if (!statSync(skillPath).isDirectory()) continue;
@@ -0,0 +1,128 @@
+/**
+ * Resolving agent-supplied file paths inside a skill without escaping it.
+ */
+
+import { existsSync, realpathSync } from "node:fs";
+import { basename, posix, relative, resolve, sep } from "node:path";
+
+/**
+ * How symlinks inside a skill source are treated.
+ *
+ * - follow: follow every link
+ * - within-root: follow links that stay inside the source root (default)
+ * - deny: refuse any path that passes through a link
+ */
+export type SymlinkPolicy = "follow" | "within-root" | "deny";
+
+export const SYMLINK_POLICIES: readonly SymlinkPolicy[] = [
+	"follow",
+	"within-root",
+	"deny",
+];
+
+export const DEFAULT_SYMLINK_POLICY: SymlinkPolicy = "within-root";
+
+/**
+ * Reason a path was rejected.
+ */
+export type UnsafePathCode =
+	| "INVALID_PATH"
+	| "PATH_TRAVERSAL"
+	| "SYMLINK_DENIED"
+	| "SYMLINK_ESCAPE";
+
+/**
+ * Error thrown when a requested path is not allowed.
+ */
+export class UnsafePathError extends Error {
+	code: UnsafePathCode;
+
+	constructor(code: UnsafePathCode, message: string) {
+		super(message);
+		this.name = "UnsafePathError";
+		this.code = code;
+	}
+}
+
+/**
+ * Options for resolveWithin().
+ */
+export interface ResolveWithinOptions {
+	/** Source root (skill repository) that symlinks must stay inside. */
+	root: string;
+	symlinkPolicy?: SymlinkPolicy;
+}
+
+/**
+ * Check whether `child` is `parent` or lies below it.
+ */
+function isInside(parent: string, child: string): boolean {
+	return child === parent || child.startsWith(parent + sep);
+}
+
+/**
+ * Resolve a relative path inside a base directory.
+ *
+ * Backslashes are treated as separators and the path is normalised before
+ * use, so '..' segments, absolute paths and drive letters are rejected
+ * rather than resolved. Symlinks are then checked against the policy.
+ * A path that does not exist is returned as-is for the caller to report.
+ *
+ * @param baseDir - Directory the path must stay inside (e.g. a skill's scripts/).
+ * @param requested - Path supplied by the client.
+ * @param options - Source root and symlink policy.
+ * @returns Absolute path to the file.
+ * @throws UnsafePathError if the path is invalid, escapes baseDir, or violates the symlink policy.
+ */
+export function resolveWithin(
+	baseDir: string,
+	requested: string,
+	options: ResolveWithinOptions,
+): string {
+	const folder = basename(baseDir);
+	if (!requested || requested.includes("\0")) {
+		throw new UnsafePathError("INVALID_PATH", `Invalid path '${requested}'.`);
+	}
+
+	const normalized = posix.normalize(requested.replace(/\\/g, "/"));
+	if (
+		posix.isAbsolute(normalized) ||
+		/^[a-zA-Z]:/.test(normalized) ||
+		normalized === ".." ||
+		normalized.startsWith("../")
+	) {
+		throw new UnsafePathError(
+			"PATH_TRAVERSAL",
+			`Path '${requested}' resolves outside the ${folder}/ folder.`,
+		);
+	}
+	if (normalized === ".") {
+		throw new UnsafePathError("INVALID_PATH", `Invalid path '${requested}'.`);
+	}
+
+	const target = resolve(baseDir, normalized);
+	const policy = options.symlinkPolicy ?? DEFAULT_SYMLINK_POLICY;
+	if (policy === "follow" || !existsSync(target)) {
+		return target;
+	}
+
+	const realRoot = realpathSync(options.root);
+	const realTarget = realpathSync(target);
+
+	if (policy === "deny") {
+		const literal = resolve(realRoot, relative(resolve(options.root), target));
+		if (realTarget !== literal) {
+			throw new UnsafePathError(
+				"SYMLINK_DENIED",
+				`Path '${requested}' goes through a symlink, which is not allowed.`,
+			);
+		}
+	} else if (!isInside(realRoot, realTarget)) {
+		throw new UnsafePathError(
+			"SYMLINK_ESCAPE",
+			`Path '${requested}' is a symlink pointing outside the skill source.`,
+		);
+	}
+
+	return target;
+}
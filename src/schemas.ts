@@ -3,6 +3,22 @@
  */
 
 import { z } from "zod";
+import { isGitUrl } from "./gitSource.js";
+import { LOG_LEVELS, type LogLevel } from "./logger.js";
+
+/**
+ * Input schema for listing skills.
+ */
+export const ListSkillsInputSchema = z
+	.object({
+		maxTokens: z
+			.number()
+			.int()
+			.min(1)
+			.optional()
+			.describe("Only list skills whose SKILL.md fits within this many tokens"),
+	})
+	.strict();
 
 /**
  * Input schema for getting a skill's full instructions.
@@ -13,6 +29,31 @@ export const GetSkillInputSchema = z
 			.string()
 			.min(1, "Skill name is required")
 			.describe("Skill name from list_skills() (e.g., 'mcp-builder')"),
+		sections: z
+			.union([z.literal("toc"), z.array(z.string().min(1)).min(1)])
+			.optional()
+			.describe(
+				"'toc' to get the outline with line numbers, or heading names (e.g., ['Instructions']) to return only those sections",
+			),
+		version: z
+			.string()
+			.min(1)
+			.optional()
+			.describe(
+				"Version or semver range (e.g., '2', '^1.4', '2.0.0-beta.1'); defaults to the latest stable version",
+			),
+		inlineDependencies: z
+			.boolean()
+			.optional()
+			.describe(
+				"Include the full SKILL.md of every skill this one requires, before its own instructions",
+			),
+		expandIncludes: z
+			.boolean()
+			.default(true)
+			.describe(
+				"Replace include directives with the content they name; pass false to read SKILL.md as stored before editing it with skillkit_update_skill()",
+			),
 	})
 	.strict();
 
@@ -29,7 +70,7 @@ export const GetScriptInputSchema = z
 			.string()
 			.min(1, "Filename is required")
 			.describe(
-				"Script filename as referenced in skill instructions (e.g., 'setup.sh', 'init.ts')",
+				"Script path relative to scripts/ as referenced in skill instructions (e.g., 'setup.sh', 'db/migrate.ts')",
 			),
 	})
 	.strict();
@@ -47,14 +88,155 @@ export const GetReferenceInputSchema = z
 			.string()
 			.min(1, "Filename is required")
 			.describe(
-				"Reference filename as referenced in skill instructions (e.g., 'api-guide.md', 'config.json')",
+				"Reference path relative to references/ as referenced in skill instructions (e.g., 'api-guide.md', 'api/v2/auth.md')",
+			),
+		offset: z
+			.number()
+			.int()
+			.min(1)
+			.optional()
+			.describe(
+				"First line to return, 1-based (within the section if one is given)",
 			),
+		limit: z
+			.number()
+			.int()
+			.min(1)
+			.optional()
+			.describe("Maximum number of lines to return"),
+		section: z
+			.string()
+			.min(1)
+			.optional()
+			.describe(
+				"Return only the markdown section under this heading (e.g., 'Authentication')",
+			),
+		toc: z
+			.boolean()
+			.default(false)
+			.describe("Return the headings with line numbers instead of the content"),
+	})
+	.strict();
+
+/**
+ * Input schema for searching skills.
+ */
+export const SearchSkillsInputSchema = z
+	.object({
+		query: z
+			.string()
+			.min(1, "Query is required")
+			.describe("Free-text search (e.g., 'review pull request security')"),
+		limit: z
+			.number()
+			.int()
+			.min(1)
+			.max(50)
+			.default(10)
+			.describe("Maximum number of results to return"),
 	})
 	.strict();
 
+/**
+ * Input schema for creating a skill.
+ */
+export const CreateSkillInputSchema = z
+	.object({
+		name: z
+			.string()
+			.min(1, "Skill name is required")
+			.max(64)
+			.regex(
+				/^[a-z0-9]+(-[a-z0-9]+)*$/,
+				"Skill name must be hyphen-case (e.g., 'code-review')",
+			)
+			.describe("Skill name in hyphen-case (e.g., 'code-review')"),
+		description: z
+			.string()
+			.min(1, "Description is required")
+			.max(1024)
+			.describe("What the skill does and when to use it"),
+		body: z
+			.string()
+			.min(1, "Body is required")
+			.describe("Markdown instructions for SKILL.md, without frontmatter"),
+		scripts: z
+			.record(z.string(), z.string())
+			.optional()
+			.describe("Files for scripts/, keyed by path (e.g., 'db/migrate.ts')"),
+		references: z
+			.record(z.string(), z.string())
+			.optional()
+			.describe("Files for references/, keyed by path (e.g., 'api/auth.md')"),
+		targetPath: z
+			.string()
+			.optional()
+			.describe(
+				"Skill repository from skillkit_get_skill_paths() (defaults to the first)",
+			),
+		overwrite: z
+			.boolean()
+			.default(false)
+			.describe("Replace the skill if it already exists"),
+	})
+	.strict();
+
+/**
+ * Input schema for updating an existing skill.
+ */
+export const UpdateSkillInputSchema = z
+	.object({
+		name: z
+			.string()
+			.min(1, "Skill name is required")
+			.describe("Skill name from list_skills()"),
+		expectedHash: z
+			.string()
+			.min(1, "Expected hash is required")
+			.describe("Content hash returned by skillkit_get_skill()"),
+		files: z
+			.record(z.string(), z.string().nullable())
+			.describe(
+				"New file contents keyed by path ('SKILL.md', 'scripts/<file>', 'references/<file>'); null deletes the file",
+			),
+		replaceAll: z
+			.boolean()
+			.default(false)
+			.describe("Treat files as the complete skill and delete unlisted files"),
+	})
+	.strict();
+
+/**
+ * Input schema for reporting feedback on a skill.
+ */
+export const ReportFeedbackInputSchema = z
+	.object({
+		skill: z
+			.string()
+			.min(1, "Skill name is required")
+			.describe("Skill name from list_skills()"),
+		rating: z
+			.number()
+			.int()
+			.min(1)
+			.max(5)
+			.describe("1 (instructions wrong or harmful) to 5 (worked as written)"),
+		comment: z
+			.string()
+			.max(4000)
+			.optional()
+			.describe("What was wrong, missing or outdated, and what worked instead"),
+	})
+	.strict();
+
+export type ListSkillsInput = z.infer<typeof ListSkillsInputSchema>;
 export type GetSkillInput = z.infer<typeof GetSkillInputSchema>;
 export type GetScriptInput = z.infer<typeof GetScriptInputSchema>;
 export type GetReferenceInput = z.infer<typeof GetReferenceInputSchema>;
+export type SearchSkillsInput = z.infer<typeof SearchSkillsInputSchema>;
+export type CreateSkillInput = z.infer<typeof CreateSkillInputSchema>;
+export type UpdateSkillInput = z.infer<typeof UpdateSkillInputSchema>;
+export type ReportFeedbackInput = z.infer<typeof ReportFeedbackInputSchema>;
 
 /**
  * Output schema for listing all skills.
@@ -67,6 +249,31 @@ export const ListSkillsOutputSchema = z.object({
 					.string()
 					.describe("Skill identifier used with skillkit_get_skill()"),
 				description: z.string().describe("Brief description of what the skill does"),
+				tokens: z.number().describe("Estimated tokens of SKILL.md"),
+				bytes: z.number().describe("Size of SKILL.md in bytes"),
+				files: z
+					.array(
+						z.object({
+							path: z
+								.string()
+								.describe(
+									"Path within the skill (e.g., 'references/api-guide.md')",
+								),
+							tokens: z.number().describe("Estimated tokens"),
+							bytes: z.number().describe("Size in bytes"),
+						}),
+					)
+					.describe("Scripts and references with their sizes"),
+				version: z
+					.string()
+					.optional()
+					.describe("Version served by default (latest stable)"),
+				versions: z
+					.array(z.string())
+					.optional()
+					.describe(
+						"All versions, highest first, when several are installed side by side",
+					),
 			}),
 		)
 		.describe("List of available skills"),
@@ -74,6 +281,81 @@ export const ListSkillsOutputSchema = z.object({
 
 export type ListSkillsOutput = z.infer<typeof ListSkillsOutputSchema>;
 
+/**
+ * A script or reference in a skill's file inventory.
+ */
+const SkillFileEntrySchema = z.object({
+	name: z
+		.string()
+		.describe("Path relative to the subfolder (e.g., 'db/migrate.ts')"),
+	type: z.string().describe("MIME type (e.g., 'text/x-python')"),
+	tokens: z.number().describe("Estimated tokens"),
+	bytes: z.number().describe("Size in bytes"),
+});
+
+/**
+ * Output schema for getting a skill.
+ */
+export const GetSkillOutputSchema = z.object({
+	name: z.string().describe("Skill name"),
+	path: z.string().describe("Skill directory"),
+	source: z
+		.object({
+			path: z.string().describe("Skill repository containing the skill"),
+			kind: z
+				.enum(["local", "git", "bundled"])
+				.describe("Whether the repository is local, a git clone or bundled"),
+		})
+		.describe("Where the skill was found"),
+	version: z.string().optional().describe("Version of the returned skill"),
+	frontmatter: z
+		.record(z.string(), z.unknown())
+		.describe("Parsed SKILL.md frontmatter"),
+	body: z
+		.string()
+		.describe(
+			"SKILL.md without frontmatter (includes expanded unless expandIncludes is false), or the outline or sections when requested",
+		),
+	hash: z
+		.string()
+		.describe(
+			"Content hash, usable as expectedHash for skillkit_update_skill()",
+		),
+	scripts: z.array(SkillFileEntrySchema).describe("Files in scripts/"),
+	references: z.array(SkillFileEntrySchema).describe("Files in references/"),
+	dependencies: z
+		.array(z.string())
+		.describe(
+			"Skills this one requires, directly or indirectly, in load order",
+		),
+});
+
+export type GetSkillOutput = z.infer<typeof GetSkillOutputSchema>;
+
+/**
+ * Output schema for searching skills.
+ */
+export const SearchSkillsOutputSchema = z.object({
+	results: z
+		.array(
+			z.object({
+				name: z
+					.string()
+					.describe("Skill identifier used with skillkit_get_skill()"),
+				description: z
+					.string()
+					.describe("Brief description of what the skill does"),
+				score: z.number().describe("Relevance score (higher is better)"),
+				snippets: z
+					.array(z.string())
+					.describe("Lines from the skill that matched the query"),
+			}),
+		)
+		.describe("Matching skills, best match first"),
+});
+
+export type SearchSkillsOutput = z.infer<typeof SearchSkillsOutputSchema>;
+
 /**
  * Output schema for getting writable skill paths.
  */
@@ -85,13 +367,160 @@ export const GetSkillPathsOutputSchema = z.object({
 
 export type GetSkillPathsOutput = z.infer<typeof GetSkillPathsOutputSchema>;
 
+/**
+ * Output schema for creating a skill.
+ */
+export const CreateSkillOutputSchema = z.object({
+	name: z.string().describe("Name of the created skill"),
+	path: z.string().describe("Directory the skill was written to"),
+	files: z
+		.array(z.string())
+		.describe("Files written, relative to the skill directory"),
+	readmeUpdated: z
+		.boolean()
+		.describe("Whether the repository README skill index was refreshed"),
+});
+
+export type CreateSkillOutput = z.infer<typeof CreateSkillOutputSchema>;
+
+/**
+ * Output schema for updating a skill.
+ */
+export const UpdateSkillOutputSchema = z.object({
+	name: z.string().describe("Name of the updated skill"),
+	path: z.string().describe("Directory of the skill"),
+	hash: z
+		.string()
+		.describe("New content hash, usable as expectedHash for the next update"),
+	changed: z
+		.array(z.string())
+		.describe("Files whose content changed, relative to the skill directory"),
+	readmeUpdated: z
+		.boolean()
+		.describe("Whether the repository README skill index was refreshed"),
+});
+
+export type UpdateSkillOutput = z.infer<typeof UpdateSkillOutputSchema>;
+
+/**
+ * Output schema for reporting feedback.
+ */
+export const ReportFeedbackOutputSchema = z.object({
+	skill: z.string().describe("Skill the feedback was recorded for"),
+	rating: z.number().describe("Rating from 1 to 5"),
+	comment: z.string().optional().describe("Comment, if given"),
+	hash: z.string().describe("Content hash of the skill the feedback refers to"),
+	ts: z.string().describe("When the feedback was recorded (ISO timestamp)"),
+});
+
+export type ReportFeedbackOutput = z.infer<typeof ReportFeedbackOutputSchema>;
+
+/**
+ * Output schema for listing configured sources.
+ */
+export const GetSourcesOutputSchema = z.object({
+	sources: z
+		.array(
+			z.object({
+				path: z.string().describe("Source directory"),
+				origin: z
+					.enum(["cli", "config", "env", "default", "bundled"])
+					.describe(
+						"How the source was configured: --skills-path, config file, SKILLKIT_SKILLS_PATH, default home or bundled",
+					),
+				kind: z
+					.enum(["local", "git", "bundled"])
+					.describe("Whether the source is local, a git clone or bundled"),
+				git: z
+					.object({
+						url: z.string().describe("Repository URL"),
+						ref: z.string().describe("Branch, tag or commit"),
+					})
+					.optional()
+					.describe("Repository of a git source"),
+				exists: z
+					.boolean()
+					.describe("Whether the directory exists (or is cloned)"),
+				skills: z
+					.array(z.string())
+					.describe("Skill folders served from this source"),
+				prompts: z
+					.array(z.string())
+					.describe("Prompts served from this source"),
+				shadowed: z
+					.array(
+						z.object({
+							type: z.enum(["skill", "prompt"]),
+							name: z.string().describe("Skill folder or prompt name"),
+							path: z.string().describe("The hidden folder or file"),
+							winner: z
+								.string()
+								.describe("Source the served skill or prompt comes from"),
+						}),
+					)
+					.describe(
+						"Skills and prompts of this source hidden by a higher-priority source",
+					),
+			}),
+		)
+		.describe("Configured sources, highest priority first"),
+});
+
+export type GetSourcesOutput = z.infer<typeof GetSourcesOutputSchema>;
+
+/**
+ * Types a prompt argument can declare.
+ */
+export const PROMPT_ARGUMENT_TYPES = [
+	"string",
+	"number",
+	"boolean",
+	"skill",
+	"enum",
+	"string[]",
+	"json",
+] as const;
+
+export type PromptArgumentType = (typeof PROMPT_ARGUMENT_TYPES)[number];
+
 /**
  * Schema for a single prompt argument definition.
  */
 export const PromptArgumentSchema = z.object({
-	type: z.enum(["string", "number", "boolean"]).optional(),
+	/** 'skill' is a string that completes against available skill names. */
+	type: z.enum(PROMPT_ARGUMENT_TYPES).optional(),
 	description: z.string().optional(),
-	default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+	default: z
+		.union([
+			z.string(),
+			z.number(),
+			z.boolean(),
+			z.array(z.unknown()),
+			z.record(z.string(), z.unknown()),
+		])
+		.optional(),
+	/** Defaults to true, except for booleans and arguments with a default. */
+	required: z.boolean().optional(),
+	/** Allowed values, offered as completions. */
+	enum: z.array(z.coerce.string()).min(1).optional(),
+	/** Values offered as completions without restricting input. */
+	suggestions: z.array(z.coerce.string()).optional(),
+	/** Lower bound: value for numbers, length for strings, items for string[]. */
+	min: z.number().optional(),
+	/** Upper bound: value for numbers, length for strings, items for string[]. */
+	max: z.number().optional(),
+	/** Regular expression strings (or each string[] item) must match. */
+	pattern: z
+		.string()
+		.refine((pattern) => {
+			try {
+				new RegExp(pattern);
+				return true;
+			} catch {
+				return false;
+			}
+		}, "Invalid regular expression")
+		.optional(),
 });
 
 export type PromptArgument = z.infer<typeof PromptArgumentSchema>;
@@ -102,3 +531,61 @@ export type PromptArgument = z.infer<typeof PromptArgumentSchema>;
 export const PromptArgumentsSchema = z.record(z.string(), PromptArgumentSchema);
 
 export type PromptArguments = z.infer<typeof PromptArgumentsSchema>;
+
+/**
+ * A skill source in a config file: a local path or git URL (with optional
+ * #ref), or the same spelled out as an object.
+ */
+export const ConfigSourceSchema = z.union([
+	z.string().min(1),
+	z.object({ path: z.string().min(1) }).strict(),
+	z
+		.object({
+			git: z
+				.string()
+				.refine(isGitUrl, "Must be a git URL (git@... or https://....git)"),
+			ref: z.string().min(1).optional(),
+		})
+		.strict(),
+]);
+
+export type ConfigSource = z.infer<typeof ConfigSourceSchema>;
+
+/**
+ * Schema for a named profile: a skill set selected with --profile.
+ */
+export const ConfigProfileSchema = z
+	.object({
+		sources: z.array(ConfigSourceSchema).optional(),
+		include: z.array(z.string().min(1)).optional(),
+		exclude: z.array(z.string().min(1)).optional(),
+		bundled: z.boolean().optional(),
+	})
+	.strict();
+
+export type ConfigProfile = z.infer<typeof ConfigProfileSchema>;
+
+/**
+ * Schema for config.yaml and .skillkit.yaml.
+ */
+export const SkillkitConfigSchema = z
+	.object({
+		/** Skill repositories, highest priority first. */
+		sources: z.array(ConfigSourceSchema).optional(),
+		/** Skill name patterns to serve ('*' and '?' wildcards). */
+		include: z.array(z.string().min(1)).optional(),
+		/** Skill name patterns to hide; wins over include. */
+		exclude: z.array(z.string().min(1)).optional(),
+		bundled: z.boolean().optional(),
+		logLevel: z.enum(LOG_LEVELS as [LogLevel, ...LogLevel[]]).optional(),
+		transport: z.enum(["stdio", "http"]).optional(),
+		port: z.number().int().min(0).max(65535).optional(),
+		host: z.string().min(1).optional(),
+		/** Named profiles; their settings replace the ones above when selected. */
+		profiles: z.record(z.string().min(1), ConfigProfileSchema).optional(),
+		/** Profile to use when neither --profile nor SKILLKIT_PROFILE is set. */
+		profile: z.string().min(1).optional(),
+	})
+	.strict();
+
+export type SkillkitConfig = z.infer<typeof SkillkitConfigSchema>;
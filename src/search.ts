@@ -0,0 +1,246 @@
+/**
+ * Local full-text ranking of skills using BM25F.
+ *
+ * Scores are computed per call over the documents passed in, so there is
+ * no persistent index to keep in sync with the skill directories.
+ */
+
+/**
+ * Searchable fields of a skill document.
+ */
+export interface SearchDocument {
+	name: string;
+	description: string;
+	headings: string[];
+	body: string;
+	references: string[];
+}
+
+/**
+ * A ranked search hit returned by rankDocuments().
+ */
+export interface SearchResult {
+	name: string;
+	description: string;
+	score: number;
+	snippets: string[];
+}
+
+type FieldName = "name" | "description" | "headings" | "body" | "references";
+
+/**
+ * Relative importance of each field when combining term frequencies.
+ */
+const FIELD_WEIGHTS: Record<FieldName, number> = {
+	name: 3,
+	description: 2,
+	headings: 1.5,
+	body: 1,
+	references: 1.5,
+};
+
+/**
+ * BM25 term frequency saturation.
+ */
+const K1 = 1.2;
+
+/**
+ * BM25 length normalisation strength.
+ */
+const B = 0.75;
+
+/**
+ * Maximum number of snippets returned per result.
+ */
+const MAX_SNIPPETS = 3;
+
+/**
+ * Maximum length of a single snippet.
+ */
+const MAX_SNIPPET_LENGTH = 160;
+
+/**
+ * Common words that carry no meaning for ranking.
+ */
+const STOPWORDS = new Set([
+	"a",
+	"an",
+	"and",
+	"are",
+	"as",
+	"at",
+	"be",
+	"by",
+	"for",
+	"from",
+	"how",
+	"in",
+	"is",
+	"it",
+	"of",
+	"on",
+	"or",
+	"that",
+	"the",
+	"this",
+	"to",
+	"use",
+	"when",
+	"with",
+]);
+
+/**
+ * Split text into lowercase search terms.
+ *
+ * @param text - Text to tokenize.
+ * @returns Terms with punctuation and stopwords removed.
+ */
+export function tokenize(text: string): string[] {
+	return text
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter((term) => term.length > 1 && !STOPWORDS.has(term));
+}
+
+/**
+ * Extract markdown heading text from a document body.
+ *
+ * @param body - Markdown content.
+ * @returns Heading titles without the leading # markers.
+ */
+export function extractHeadings(body: string): string[] {
+	const headings: string[] = [];
+	for (const match of body.matchAll(/^#{1,6}\s+(.+?)\s*#*\s*$/gm)) {
+		headings.push(match[1]);
+	}
+	return headings;
+}
+
+/**
+ * Count term occurrences in a list of tokens.
+ */
+function countTerms(tokens: string[]): Map<string, number> {
+	const counts = new Map<string, number>();
+	for (const token of tokens) {
+		counts.set(token, (counts.get(token) ?? 0) + 1);
+	}
+	return counts;
+}
+
+/**
+ * Pick the lines that best match the query terms.
+ */
+function buildSnippets(doc: SearchDocument, terms: Set<string>): string[] {
+	const candidates: { text: string; hits: number; order: number }[] = [];
+	const lines = [
+		doc.description,
+		...doc.body.split("\n"),
+		...doc.references.map((ref) => `references/${ref}`),
+	];
+
+	lines.forEach((line, order) => {
+		const text = line.trim();
+		if (!text) return;
+
+		const hits = new Set(tokenize(text).filter((t) => terms.has(t))).size;
+		if (hits > 0) {
+			candidates.push({ text, hits, order });
+		}
+	});
+
+	return candidates
+		.sort((a, b) => b.hits - a.hits || a.order - b.order)
+		.slice(0, MAX_SNIPPETS)
+		.map(({ text }) =>
+			text.length > MAX_SNIPPET_LENGTH
+				? `${text.slice(0, MAX_SNIPPET_LENGTH - 3)}...`
+				: text,
+		);
+}
+
+/**
+ * Rank documents against a query using BM25F.
+ *
+ * Each field's term frequency is normalised by that field's average length
+ * and weighted before saturation, so a match in a skill's name counts for
+ * more than the same word buried in its body.
+ *
+ * @param docs - Documents to rank.
+ * @param query - Free-text query.
+ * @param limit - Maximum number of results to return.
+ * @returns Matching documents ordered by descending score.
+ */
+export function rankDocuments(
+	docs: SearchDocument[],
+	query: string,
+	limit: number,
+): SearchResult[] {
+	const queryTerms = [...new Set(tokenize(query))];
+	if (queryTerms.length === 0 || docs.length === 0) return [];
+
+	const fields = Object.keys(FIELD_WEIGHTS) as FieldName[];
+
+	// Tokenize every field of every document once
+	const tokenized = docs.map((doc) => {
+		const byField = {} as Record<FieldName, Map<string, number>>;
+		const lengths = {} as Record<FieldName, number>;
+		for (const field of fields) {
+			const value = doc[field];
+			const tokens = tokenize(Array.isArray(value) ? value.join(" ") : value);
+			byField[field] = countTerms(tokens);
+			lengths[field] = tokens.length;
+		}
+		return { byField, lengths };
+	});
+
+	const avgLengths = {} as Record<FieldName, number>;
+	for (const field of fields) {
+		const total = tokenized.reduce((sum, t) => sum + t.lengths[field], 0);
+		avgLengths[field] = total / docs.length || 1;
+	}
+
+	// Document frequency per query term (a term counts once per document)
+	const docFreq = new Map<string, number>();
+	for (const term of queryTerms) {
+		const df = tokenized.filter((t) =>
+			fields.some((field) => t.byField[field].has(term)),
+		).length;
+		docFreq.set(term, df);
+	}
+
+	const results: SearchResult[] = [];
+	docs.forEach((doc, i) => {
+		const { byField, lengths } = tokenized[i];
+		let score = 0;
+
+		for (const term of queryTerms) {
+			const df = docFreq.get(term) ?? 0;
+			if (df === 0) continue;
+
+			let weightedTf = 0;
+			for (const field of fields) {
+				const tf = byField[field].get(term) ?? 0;
+				if (tf === 0) continue;
+				const norm = 1 - B + B * (lengths[field] / avgLengths[field]);
+				weightedTf += (FIELD_WEIGHTS[field] * tf) / norm;
+			}
+			if (weightedTf === 0) continue;
+
+			const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+			score += (idf * weightedTf) / (K1 + weightedTf);
+		}
+
+		if (score > 0) {
+			results.push({
+				name: doc.name,
+				description: doc.description,
+				score: Math.round(score * 1000) / 1000,
+				snippets: buildSnippets(doc, new Set(queryTerms)),
+			});
+		}
+	});
+
+	return results
+		.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+		.slice(0, limit);
+}
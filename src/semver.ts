@@ -0,0 +1,295 @@
+/**
+ * Semantic versions and version ranges for skill versions.
+ *
+ * Supports the subset of npm range syntax skills need: exact versions,
+ * partial versions ('2', '2.1', '2.x'), '^' and '~', comparisons
+ * ('>=1.2.0 <2'), '*' and alternatives joined with '||'.
+ */
+
+/**
+ * A parsed semantic version.
+ */
+export interface SemVer {
+	major: number;
+	minor: number;
+	patch: number;
+	/** Pre-release identifiers ('beta.1' is ['beta', 1]); empty if stable. */
+	prerelease: (string | number)[];
+}
+
+type Operator = "<" | "<=" | ">" | ">=" | "=";
+
+interface Comparator {
+	operator: Operator;
+	version: SemVer;
+}
+
+/**
+ * Error thrown when a version range cannot be parsed.
+ */
+export class InvalidRangeError extends Error {
+	constructor(range: string) {
+		super(
+			`Invalid version range '${range}'. Use a version (2.1.0), a partial version (2, 2.x), ^, ~ or comparisons (>=1.2.0 <2).`,
+		);
+		this.name = "InvalidRangeError";
+	}
+}
+
+const PRERELEASE = "(?:-([0-9A-Za-z.-]+))?(?:\\+[0-9A-Za-z.-]+)?";
+const VERSION_PATTERN = new RegExp(`^v?(\\d+)\\.(\\d+)\\.(\\d+)${PRERELEASE}$`);
+const PARTIAL_PATTERN = new RegExp(
+	`^v?(\\d+|[xX*])(?:\\.(\\d+|[xX*]))?(?:\\.(\\d+|[xX*]))?${PRERELEASE}$`,
+);
+
+function parsePrerelease(text: string | undefined): (string | number)[] {
+	if (!text) return [];
+	return text.split(".").map((id) => (/^\d+$/.test(id) ? Number(id) : id));
+}
+
+/**
+ * Parse a full version such as '2.1.0' or '2.0.0-beta.1'.
+ *
+ * @returns The version, or undefined if the text is not a full version.
+ */
+export function parseVersion(text: string): SemVer | undefined {
+	const match = text.trim().match(VERSION_PATTERN);
+	if (!match) return undefined;
+	return {
+		major: Number(match[1]),
+		minor: Number(match[2]),
+		patch: Number(match[3]),
+		prerelease: parsePrerelease(match[4]),
+	};
+}
+
+/**
+ * A version with missing or wildcard parts left undefined.
+ */
+interface PartialVersion {
+	major?: number;
+	minor?: number;
+	patch?: number;
+	prerelease: (string | number)[];
+}
+
+function parsePartial(text: string): PartialVersion | undefined {
+	const match = text.match(PARTIAL_PATTERN);
+	if (!match) return undefined;
+
+	// Parts after a wildcard are ignored, as in '2.x.5'
+	const parts: (number | undefined)[] = [];
+	for (const part of match.slice(1, 4)) {
+		if (part === undefined || !/^\d+$/.test(part)) break;
+		parts.push(Number(part));
+	}
+	return {
+		major: parts[0],
+		minor: parts[1],
+		patch: parts[2],
+		prerelease: parts.length === 3 ? parsePrerelease(match[4]) : [],
+	};
+}
+
+/**
+ * Read a version from a folder suffix or loose text: '2' is 2.0.0 and
+ * '2.1' is 2.1.0.
+ *
+ * @returns The version, or undefined if the text does not start with a number.
+ */
+export function coerceVersion(text: string): SemVer | undefined {
+	const partial = parsePartial(text.trim());
+	if (partial?.major === undefined) return undefined;
+	return {
+		major: partial.major,
+		minor: partial.minor ?? 0,
+		patch: partial.patch ?? 0,
+		prerelease: partial.prerelease,
+	};
+}
+
+/**
+ * Format a version as 'major.minor.patch[-prerelease]'.
+ */
+export function formatVersion(version: SemVer): string {
+	const { major, minor, patch, prerelease } = version;
+	const suffix = prerelease.length > 0 ? `-${prerelease.join(".")}` : "";
+	return `${major}.${minor}.${patch}${suffix}`;
+}
+
+/**
+ * Compare two versions by semver precedence.
+ *
+ * @returns Negative if a is lower, positive if a is higher, 0 if equal.
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+	for (const key of ["major", "minor", "patch"] as const) {
+		if (a[key] !== b[key]) return a[key] - b[key];
+	}
+
+	// A stable version ranks above its pre-releases
+	if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+		return b.prerelease.length - a.prerelease.length;
+	}
+	const length = Math.max(a.prerelease.length, b.prerelease.length);
+	for (let i = 0; i < length; i++) {
+		const x = a.prerelease[i];
+		const y = b.prerelease[i];
+		if (x === undefined) return -1;
+		if (y === undefined) return 1;
+		if (x === y) continue;
+		if (typeof x === "number" && typeof y === "number") return x - y;
+		if (typeof x === "number") return -1;
+		if (typeof y === "number") return 1;
+		return x < y ? -1 : 1;
+	}
+	return 0;
+}
+
+/**
+ * Translate one range token ('^1.2', '>=2', '1.x') into comparators.
+ */
+function parseComparator(token: string, range: string): Comparator[] {
+	const operator = token.match(/^(\^|~|>=|<=|>|<|=)/)?.[0] ?? "";
+	const partial = parsePartial(token.slice(operator.length));
+	if (!partial) throw new InvalidRangeError(range);
+
+	const { major, minor, patch, prerelease } = partial;
+	if (major === undefined) {
+		// '*' matches everything; '<*' and '>*' match nothing useful
+		if (operator === "" || operator === "=" || operator === ">=") return [];
+		throw new InvalidRangeError(range);
+	}
+
+	const lower: SemVer = {
+		major,
+		minor: minor ?? 0,
+		patch: patch ?? 0,
+		prerelease,
+	};
+	// Upper bounds exclude pre-releases of the next version ('<2.0.0-0')
+	const below = (next: [number, number, number]): Comparator => ({
+		operator: "<",
+		version: {
+			major: next[0],
+			minor: next[1],
+			patch: next[2],
+			prerelease: [0],
+		},
+	});
+	const nextPartial = (): [number, number, number] =>
+		minor === undefined
+			? [major + 1, 0, 0]
+			: patch === undefined
+				? [major, minor + 1, 0]
+				: [major, minor, patch + 1];
+
+	switch (operator) {
+		case "^": {
+			const next: [number, number, number] =
+				major > 0 || minor === undefined
+					? [major + 1, 0, 0]
+					: minor > 0 || patch === undefined
+						? [0, minor + 1, 0]
+						: [0, 0, patch + 1];
+			return [{ operator: ">=", version: lower }, below(next)];
+		}
+		case "~": {
+			const next: [number, number, number] =
+				minor === undefined ? [major + 1, 0, 0] : [major, minor + 1, 0];
+			return [{ operator: ">=", version: lower }, below(next)];
+		}
+		case "":
+		case "=":
+			return patch !== undefined
+				? [{ operator: "=", version: lower }]
+				: [{ operator: ">=", version: lower }, below(nextPartial())];
+		case ">": {
+			if (patch !== undefined) return [{ operator: ">", version: lower }];
+			const [nextMajor, nextMinor] = nextPartial();
+			return [
+				{
+					operator: ">=",
+					version: {
+						major: nextMajor,
+						minor: nextMinor,
+						patch: 0,
+						prerelease: [],
+					},
+				},
+			];
+		}
+		case "<=":
+			return patch !== undefined
+				? [{ operator: "<=", version: lower }]
+				: [below(nextPartial())];
+		default:
+			return [{ operator: operator as Operator, version: lower }];
+	}
+}
+
+/**
+ * Parse a range into alternatives, each a list of comparators that must
+ * all match.
+ *
+ * @throws InvalidRangeError if the range cannot be parsed.
+ */
+function parseRange(range: string): Comparator[][] {
+	return range.split("||").map((alternative) => {
+		const tokens = alternative
+			.trim()
+			.replace(/(\^|~|>=|<=|>|<|=)\s+/g, "$1")
+			.split(/\s+/)
+			.filter(Boolean);
+		return tokens.flatMap((token) => parseComparator(token, range));
+	});
+}
+
+function test(comparator: Comparator, version: SemVer): boolean {
+	const order = compareVersions(version, comparator.version);
+	switch (comparator.operator) {
+		case "<":
+			return order < 0;
+		case "<=":
+			return order <= 0;
+		case ">":
+			return order > 0;
+		case ">=":
+			return order >= 0;
+		default:
+			return order === 0;
+	}
+}
+
+/**
+ * Check whether a version is in a range.
+ *
+ * As with npm, a pre-release only matches if the range names a
+ * pre-release of the same major.minor.patch, so '^2' never selects
+ * 2.1.0-beta by accident.
+ *
+ * @throws InvalidRangeError if the range cannot be parsed.
+ */
+export function satisfies(version: SemVer, range: string): boolean {
+	return parseRange(range).some(
+		(comparators) =>
+			comparators.every((c) => test(c, version)) &&
+			(version.prerelease.length === 0 ||
+				comparators.some(
+					(c) =>
+						c.version.prerelease.length > 0 &&
+						c.version.major === version.major &&
+						c.version.minor === version.minor &&
+						c.version.patch === version.patch,
+				)),
+	);
+}
+
+/**
+ * Check that a range can be parsed.
+ *
+ * @throws InvalidRangeError if it cannot.
+ */
+export function assertValidRange(range: string): void {
+	parseRange(range);
+}
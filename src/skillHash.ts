@@ -0,0 +1,54 @@
+/**
+ * Content hashing for skills, used to detect concurrent edits.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { listFilesRecursive } from "./fileTree.js";
+
+/**
+ * Subfolders of a skill whose files are part of its content.
+ */
+const CONTENT_FOLDERS = ["scripts", "references"];
+
+/**
+ * List the files that make up a skill, relative to the skill directory.
+ *
+ * @param skillPath - Skill directory.
+ * @returns Sorted relative paths (e.g. 'SKILL.md', 'scripts/db/migrate.ts').
+ */
+export function listSkillFiles(skillPath: string): string[] {
+	const files: string[] = [];
+	if (existsSync(join(skillPath, "SKILL.md"))) {
+		files.push("SKILL.md");
+	}
+
+	for (const folder of CONTENT_FOLDERS) {
+		for (const file of listFilesRecursive(join(skillPath, folder))) {
+			files.push(`${folder}/${file}`);
+		}
+	}
+
+	return files.sort();
+}
+
+/**
+ * Compute a hash over every file of a skill.
+ *
+ * Any change to SKILL.md, a script or a reference (including adding or
+ * removing one) changes the hash.
+ *
+ * @param skillPath - Skill directory.
+ * @returns Hex-encoded SHA-256 prefix.
+ */
+export function computeSkillHash(skillPath: string): string {
+	const hash = createHash("sha256");
+	for (const file of listSkillFiles(skillPath)) {
+		hash.update(file);
+		hash.update("\0");
+		hash.update(readFileSync(join(skillPath, file)));
+		hash.update("\0");
+	}
+	return hash.digest("hex").slice(0, 16);
+}
@@ -4,21 +4,183 @@
 
 import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
 import { homedir } from "node:os";
-import { dirname, join, resolve } from "node:path";
+import { basename, dirname, join, resolve, sep } from "node:path";
 import { fileURLToPath } from "node:url";
 import yaml from "js-yaml";
+import { requiresOf, resolveDependencies } from "./dependencies.js";
+import { listFilesRecursive } from "./fileTree.js";
+import {
+	getCacheRoot,
+	isGitUrl,
+	localSourcePath,
+	parseGitUrl,
+} from "./gitSource.js";
+import { expandIncludes, type IncludeTarget } from "./includes.js";
+import type { Logger, LogLevel } from "./logger.js";
+import { getMimeType } from "./mimeTypes.js";
+import { resolveWithin, type SymlinkPolicy } from "./safePath.js";
+import {
+	type SemVer,
+	coerceVersion,
+	compareVersions,
+	formatVersion,
+	parseVersion,
+	satisfies,
+} from "./semver.js";
+import {
+	extractHeadings,
+	rankDocuments,
+	type SearchDocument,
+	type SearchResult,
+} from "./search.js";
+import { computeSkillHash } from "./skillHash.js";
+import { type FileSize, measureFile } from "./tokens.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+/**
+ * Estimated size of a script or reference, keyed by path within the skill.
+ */
+export interface SkillFileInfo extends FileSize {
+	/** Path relative to the skill directory (e.g. 'references/api/auth.md'). */
+	path: string;
+}
+
 /**
  * Skill metadata returned by listAll().
  */
 export interface SkillInfo {
 	name: string;
 	description: string;
+	/** Estimated tokens of SKILL.md. */
+	tokens: number;
+	/** Size of SKILL.md in bytes. */
+	bytes: number;
+	/** Scripts and references with their estimated sizes. */
+	files: SkillFileInfo[];
+	/** Version of the served folder, from frontmatter or the folder name. */
+	version?: string;
+	/** All versions, highest first, when the skill has more than one folder. */
+	versions?: string[];
+}
+
+/**
+ * Where a skill repository comes from.
+ */
+export type SkillSourceKind = "local" | "git" | "bundled";
+
+/**
+ * How a source was configured: --skills-path ('cli'), sources in a config
+ * file ('config'), SKILLKIT_SKILLS_PATH ('env'), the default ~/.skillkit
+ * ('default') or the package ('bundled').
+ */
+export type SourceOrigin = "cli" | "config" | "env" | "default" | "bundled";
+
+/**
+ * A skill folder hidden by a folder of the same name in a source with
+ * higher priority.
+ */
+export interface ShadowedSkill {
+	/** Folder name (e.g. 'deploy' or 'deploy@2'). */
+	name: string;
+	/** The hidden folder. */
+	path: string;
+	/** Source the served folder comes from. */
+	winner: string;
 }
 
+/**
+ * A configured skill source and what it contributes, from getSources().
+ */
+export interface SkillSourceInfo {
+	/** Source directory (the parent of its skills/ folder). */
+	path: string;
+	origin: SourceOrigin;
+	kind: SkillSourceKind;
+	/** Repository URL and ref, for git sources. */
+	git?: { url: string; ref: string };
+	/** Whether the directory exists; a missing source contributes nothing. */
+	exists: boolean;
+	/** Skill folders served from this source, sorted. */
+	skills: string[];
+	/** Skill folders of this source hidden by a higher-priority source. */
+	shadowed: ShadowedSkill[];
+}
+
+/**
+ * A script or reference in a skill's file inventory.
+ */
+export interface SkillFileEntry extends FileSize {
+	/** Path relative to the subfolder (e.g. 'db/migrate.ts'). */
+	name: string;
+	/** MIME type based on the file extension. */
+	type: string;
+}
+
+/**
+ * Full skill details returned by getDetails().
+ */
+export interface SkillDetails {
+	/** Name from frontmatter, or the directory name. */
+	name: string;
+	/** Skill directory. */
+	path: string;
+	/** Skill repository the skill was found in. */
+	source: { path: string; kind: SkillSourceKind };
+	/** Version of the folder, from frontmatter or the folder name. */
+	version?: string;
+	frontmatter: Record<string, unknown>;
+	/** SKILL.md content after the frontmatter, with includes expanded unless read raw. */
+	body: string;
+	/** Content hash, as returned by getContentHash(). */
+	hash: string;
+	scripts: SkillFileEntry[];
+	references: SkillFileEntry[];
+}
+
+/**
+ * How getContent() and getDetails() read SKILL.md.
+ */
+export interface ReadSkillOptions {
+	/**
+	 * Expand include directives (default true). Read with false before
+	 * editing a skill, so that saving it keeps the directives.
+	 */
+	expandIncludes?: boolean;
+}
+
+/**
+ * Optional SkillManager behaviour.
+ */
+export interface SkillManagerOptions {
+	/** How symlinks in scripts/ and references/ are treated. */
+	symlinkPolicy?: SymlinkPolicy;
+	/** Receives skipped skills, unreadable files and shadowed names. */
+	logger?: Logger;
+	/** Skill name patterns to serve ('*' and '?' wildcards); all if empty. */
+	include?: string[];
+	/** Skill name patterns to hide; wins over include. */
+	exclude?: string[];
+	/** Sources as given, before git URLs were cloned; names git sources in getSources(). */
+	sources?: string[];
+	/** Where extraPaths come from: --skills-path (default) or a config file. */
+	pathsOrigin?: "cli" | "config";
+}
+
+/**
+ * Skill subfolders that hold supporting files.
+ */
+type SkillFolder = "scripts" | "references";
+
+/**
+ * Names used for each subfolder in error messages.
+ */
+const FOLDER_LABELS: Record<SkillFolder, { label: string; plural: string }> = {
+	scripts: { label: "Script", plural: "scripts" },
+	references: { label: "Reference", plural: "references" },
+};
+
 /**
  * Resolves a path, expanding ~ to home directory.
  */
@@ -29,6 +191,95 @@ function resolvePath(p: string): string {
 	return resolve(p);
 }
 
+/**
+ * Convert a name pattern with '*' and '?' wildcards to a regular expression.
+ */
+function patternToRegExp(pattern: string): RegExp {
+	const source = pattern
+		.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+		.replace(/\*/g, ".*")
+		.replace(/\?/g, ".");
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Split a skill reference such as 'deploy@^2' into the skill name and a
+ * version range. Folders use the same form ('skills/deploy@2/').
+ */
+export function splitSkillVersion(spec: string): {
+	name: string;
+	range?: string;
+} {
+	const at = spec.indexOf("@");
+	return at === -1
+		? { name: spec }
+		: { name: spec.slice(0, at), range: spec.slice(at + 1) };
+}
+
+/**
+ * Version of a skill folder: 'version' from frontmatter, or the folder
+ * suffix ('deploy@2' is 2.0.0).
+ *
+ * @param skillPath - Skill folder.
+ * @param frontmatter - Parsed SKILL.md frontmatter of the folder.
+ */
+export function skillVersion(
+	skillPath: string,
+	frontmatter: Record<string, unknown>,
+): SemVer | undefined {
+	const fromFrontmatter =
+		typeof frontmatter.version === "string"
+			? parseVersion(frontmatter.version)
+			: undefined;
+	const { range: suffix } = splitSkillVersion(basename(skillPath));
+	return fromFrontmatter ?? (suffix ? coerceVersion(suffix) : undefined);
+}
+
+/**
+ * Pick the folder of a skill to serve.
+ *
+ * With a range, the highest version in it. Without one, the latest
+ * stable version, then the latest pre-release, then an unversioned
+ * folder.
+ *
+ * @param paths - Folders of one skill.
+ * @param versionOf - Returns the version of a folder (see skillVersion()).
+ * @param range - Semver range (e.g. '2', '^1.4', '2.0.0-beta.1').
+ * @returns The chosen folder, or undefined if no version matches.
+ * @throws InvalidRangeError if the range cannot be parsed.
+ */
+export function selectVersion(
+	paths: string[],
+	versionOf: (skillPath: string) => SemVer | undefined,
+	range?: string,
+): string | undefined {
+	if (paths.length === 1 && range === undefined) return paths[0];
+
+	const versioned = paths
+		.map((skillPath) => ({ skillPath, version: versionOf(skillPath) }))
+		.filter(
+			(entry): entry is { skillPath: string; version: SemVer } =>
+				entry.version !== undefined,
+		)
+		.sort((a, b) => compareVersions(b.version, a.version));
+
+	if (range !== undefined) {
+		return versioned.find((entry) => satisfies(entry.version, range))
+			?.skillPath;
+	}
+	const stable = versioned.find(
+		(entry) => entry.version.prerelease.length === 0,
+	);
+	return (stable ?? versioned[0])?.skillPath ?? paths[0];
+}
+
+/**
+ * Message of a caught error.
+ */
+function errorMessage(e: unknown): string {
+	return e instanceof Error ? e.message : String(e);
+}
+
 /**
  * Default location for user skills when no paths are configured.
  */
@@ -51,30 +302,67 @@ const DEFAULT_SKILLKIT_HOME = join(homedir(), ".skillkit");
  * 3. Default ~/.skillkit (only if no explicit paths configured)
  * 4. Bundled skills in the package (lowest priority)
  *
- * Skills from higher priority sources override those with matching names.
+ * Skills from higher priority sources override those with matching names,
+ * including every version of the skill.
+ *
+ * Versions of a skill can live side by side as 'deploy/' and 'deploy@2/'.
+ * Methods taking a skill name accept 'name@range' to pick a version; a
+ * plain name resolves to the latest stable version.
  */
 export class SkillManager {
 	private skillPaths: string[] = [];
 	private writablePaths: string[] = [];
+	private bundledPath: string | undefined;
+	private sources: { path: string; origin: SourceOrigin }[] = [];
+	private gitSources = new Map<string, { url: string; ref: string }>();
+	private symlinkPolicy: SymlinkPolicy | undefined;
+	private logger: Logger | undefined;
+	private reported = new Set<string>();
+	private include: RegExp[];
+	private exclude: RegExp[];
 
 	/**
 	 * Initialize SkillManager with skill paths.
 	 *
 	 * @param extraPaths - Additional skill directories (highest priority).
 	 * @param includeBundled - Whether to include bundled default skills.
+	 * @param options - Optional behaviour (symlink policy).
 	 */
-	constructor(extraPaths?: string[], includeBundled: boolean = true) {
+	constructor(
+		extraPaths?: string[],
+		includeBundled: boolean = true,
+		options: SkillManagerOptions = {},
+	) {
+		this.symlinkPolicy = options.symlinkPolicy;
+		this.logger = options.logger;
+		this.include = (options.include ?? []).map(patternToRegExp);
+		this.exclude = (options.exclude ?? []).map(patternToRegExp);
 		const hasExtraPaths = extraPaths && extraPaths.length > 0;
 		const hasEnvPaths = (process.env.SKILLKIT_SKILLS_PATH ?? "").trim() !== "";
 		const hasExplicitPaths = hasExtraPaths || hasEnvPaths;
 
+		for (const source of options.sources ?? []) {
+			if (!isGitUrl(source)) continue;
+			const { url, ref } = parseGitUrl(source);
+			this.gitSources.set(resolve(localSourcePath(source)), {
+				url,
+				ref: ref ?? "HEAD",
+			});
+		}
+
 		// 1. Extra paths from CLI (highest priority)
 		if (extraPaths) {
 			for (const p of extraPaths) {
 				const expanded = resolvePath(p);
+				this.sources.push({
+					path: expanded,
+					origin: options.pathsOrigin ?? "cli",
+				});
 				if (existsSync(expanded) && statSync(expanded).isDirectory()) {
 					this.skillPaths.push(expanded);
-					this.writablePaths.push(expanded);
+					if (!this.isGitClone(expanded)) this.writablePaths.push(expanded);
+				} else {
+					this.report("warning", `Skill path not found: ${expanded}`);
 				}
 			}
 		}
@@ -85,28 +373,27 @@ export class SkillManager {
 			const trimmed = pathStr.trim();
 			if (trimmed) {
 				const p = resolvePath(trimmed);
+				if (!this.sources.some((source) => source.path === p)) {
+					this.sources.push({ path: p, origin: "env" });
+				}
 				if (
 					existsSync(p) &&
 					statSync(p).isDirectory() &&
 					!this.skillPaths.includes(p)
 				) {
 					this.skillPaths.push(p);
-					this.writablePaths.push(p);
+					if (!this.isGitClone(p)) this.writablePaths.push(p);
 				}
 			}
 		}
 
 		// 3. Default ~/.skillkit (only if no explicit paths configured)
 		if (!hasExplicitPaths) {
-			// Always add to writable paths (directory will be created when needed)
+			// Always add to writable paths (directory will be created when needed).
+			// Discovery skips it until it exists, so skills created later are found.
 			this.writablePaths.push(DEFAULT_SKILLKIT_HOME);
-			// Only add to skill paths if it exists (for discovery)
-			if (
-				existsSync(DEFAULT_SKILLKIT_HOME) &&
-				statSync(DEFAULT_SKILLKIT_HOME).isDirectory()
-			) {
-				this.skillPaths.push(DEFAULT_SKILLKIT_HOME);
-			}
+			this.skillPaths.push(DEFAULT_SKILLKIT_HOME);
+			this.sources.push({ path: DEFAULT_SKILLKIT_HOME, origin: "default" });
 		}
 
 		// 4. Bundled skills (lowest priority, always available)
@@ -114,6 +401,8 @@ export class SkillManager {
 			const bundled = resolve(__dirname, "..", "bundled");
 			if (existsSync(bundled) && statSync(bundled).isDirectory()) {
 				this.skillPaths.push(bundled);
+				this.bundledPath = bundled;
+				this.sources.push({ path: bundled, origin: "bundled" });
 			}
 		}
 	}
@@ -121,99 +410,398 @@ export class SkillManager {
 	/**
 	 * Return paths where new skills can be created.
 	 *
-	 * Returns only user-provided paths, not bundled skills directory.
+	 * Returns only user-provided paths, not bundled skills directory or git
+	 * sources, whose clones are reset on the next fetch.
 	 */
 	getWritablePaths(): string[] {
 		return [...this.writablePaths];
 	}
 
 	/**
-	 * Discover all available skills, with earlier paths taking priority.
+	 * Return all directories searched for skills, highest priority first.
+	 */
+	getSkillPaths(): string[] {
+		return [...this.skillPaths];
+	}
+
+	/**
+	 * Discover all skill folders, with earlier paths taking priority.
 	 *
-	 * Skills are located in the skills/ subdirectory of each skill path.
+	 * Skills are located in the skills/ subdirectory of each skill path. A
+	 * skill name belongs to the first source that has a folder for it, so
+	 * every version of a skill comes from one source: a lower-priority
+	 * 'deploy@2' does not override a higher-priority 'deploy'.
 	 *
-	 * @returns Map of skill name to its directory path.
+	 * @returns Map of folder name (e.g. 'deploy' or 'deploy@2') to its path.
 	 */
-	private discoverSkills(): Map<string, string> {
+	private discoverFolders(): Map<string, string> {
+		const skills = new Map<string, string>();
+		// Source and first folder of each skill name
+		const owners = new Map<string, { source: string; folder: string }>();
+
+		for (const repoPath of new Set(this.skillPaths)) {
+			for (const [item, itemPath] of this.scanSource(repoPath)) {
+				const { name } = splitSkillVersion(item);
+				const owner = owners.get(name);
+				if (owner && owner.source !== repoPath) {
+					const winner = skills.get(item) ?? owner.folder;
+					this.report(
+						"notice",
+						`Skill '${item}' in ${winner} shadows ${itemPath}`,
+						{ skill: item, winner, shadowed: itemPath },
+					);
+					continue;
+				}
+				if (!owner) owners.set(name, { source: repoPath, folder: itemPath });
+				skills.set(item, itemPath);
+			}
+		}
+
+		return skills;
+	}
+
+	/**
+	 * List the skill folders of one source, skipping folders starting with
+	 * _, folders excluded by filters and folders without SKILL.md.
+	 *
+	 * @returns Map of folder name to its path.
+	 */
+	private scanSource(repoPath: string): Map<string, string> {
 		const skills = new Map<string, string>();
+		if (!existsSync(repoPath)) return skills;
+
+		// Look for skills in skills/ subdirectory
+		const skillsDir = join(repoPath, "skills");
+		if (!existsSync(skillsDir) || !statSync(skillsDir).isDirectory()) {
+			this.report("debug", `No skills/ folder in ${repoPath}`);
+			return skills;
+		}
+
+		let items: string[];
+		try {
+			items = readdirSync(skillsDir);
+		} catch (e) {
+			this.report("error", `Cannot read ${skillsDir}: ${errorMessage(e)}`);
+			return skills;
+		}
 
-		// Process in reverse order so earlier paths (higher priority) override
-		for (const repoPath of [...this.skillPaths].reverse()) {
-			if (!existsSync(repoPath)) continue;
+		for (const item of items) {
+			const itemPath = join(skillsDir, item);
 
-			// Look for skills in skills/ subdirectory
-			const skillsDir = join(repoPath, "skills");
-			if (!existsSync(skillsDir) || !statSync(skillsDir).isDirectory())
+			// Skip directories starting with _
+			if (item.startsWith("_")) {
+				this.report("debug", `Skipped ${itemPath}: name starts with _`);
 				continue;
+			}
+
+			if (!this.isSelected(splitSkillVersion(item).name)) {
+				this.report("debug", `Skipped ${itemPath}: excluded by filters`);
+				continue;
+			}
 
 			try {
-				const items = readdirSync(skillsDir);
-				for (const item of items) {
-					// Skip directories starting with _
-					if (item.startsWith("_")) continue;
+				if (!statSync(itemPath).isDirectory()) continue;
+			} catch (e) {
+				this.report("error", `Cannot read ${itemPath}: ${errorMessage(e)}`);
+				continue;
+			}
 
-					const itemPath = join(skillsDir, item);
-					if (!statSync(itemPath).isDirectory()) continue;
+			const skillFile = join(itemPath, "SKILL.md");
+			if (!existsSync(skillFile)) {
+				this.report("warning", `Skipped ${itemPath}: no SKILL.md`, {
+					skill: item,
+				});
+				continue;
+			}
 
-					const skillFile = join(itemPath, "SKILL.md");
-					if (existsSync(skillFile)) {
-						skills.set(item, itemPath);
+			skills.set(item, itemPath);
+		}
+
+		return skills;
+	}
+
+	/**
+	 * Describe every configured source, highest priority first: where it
+	 * was configured, the skill folders it serves and the ones hidden by a
+	 * source with higher priority.
+	 *
+	 * Sources that do not exist are listed too, since a mistyped path is a
+	 * common reason for a skill to be missing.
+	 */
+	getSources(): SkillSourceInfo[] {
+		const served = this.discoverFolders();
+		// Source serving each skill name, for folders of other versions
+		const owners = new Map<string, string>();
+		for (const [folder, folderPath] of served) {
+			owners.set(splitSkillVersion(folder).name, dirname(dirname(folderPath)));
+		}
+
+		return this.sources.map(({ path, origin }) => {
+			const skills: string[] = [];
+			const shadowed: ShadowedSkill[] = [];
+			if (this.skillPaths.includes(path)) {
+				for (const [folder, folderPath] of this.scanSource(path)) {
+					const winner = owners.get(splitSkillVersion(folder).name);
+					if (served.get(folder) === folderPath) {
+						skills.push(folder);
+					} else if (winner !== undefined) {
+						shadowed.push({ name: folder, path: folderPath, winner });
 					}
 				}
-			} catch {
-				// Ignore errors reading directory
 			}
+			const git = this.gitSources.get(path);
+
+			return {
+				path,
+				origin,
+				kind: this.sourceKind(join(path, "skills")),
+				...(git ? { git } : {}),
+				exists: existsSync(path),
+				skills: skills.sort(),
+				shadowed: shadowed.sort((a, b) => a.name.localeCompare(b.name)),
+			};
+		});
+	}
+
+	/**
+	 * Group skill folders by skill name: 'deploy' and 'deploy@2' are two
+	 * versions of the skill 'deploy'.
+	 *
+	 * @returns Map of skill name to its folders.
+	 */
+	private discoverVersions(): Map<string, string[]> {
+		const skills = new Map<string, string[]>();
+		for (const [folder, skillPath] of this.discoverFolders()) {
+			const { name } = splitSkillVersion(folder);
+			skills.set(name, [...(skills.get(name) ?? []), skillPath]);
 		}
+		return skills;
+	}
 
+	/**
+	 * Discover all available skills, each resolved to its default version.
+	 *
+	 * @returns Map of skill name to its directory path.
+	 */
+	private discoverSkills(): Map<string, string> {
+		const skills = new Map<string, string>();
+		for (const [name, paths] of this.discoverVersions()) {
+			skills.set(name, this.selectVersion(paths) ?? paths[0]);
+		}
 		return skills;
 	}
 
+	/**
+	 * Version of a skill folder, reading its frontmatter unless given.
+	 */
+	private versionOf(
+		skillPath: string,
+		frontmatter?: Record<string, unknown>,
+	): SemVer | undefined {
+		let parsed = frontmatter;
+		if (!parsed) {
+			try {
+				parsed = this.parseFrontmatter(
+					readFileSync(join(skillPath, "SKILL.md"), "utf-8"),
+				);
+			} catch {
+				parsed = {};
+			}
+		}
+		return skillVersion(skillPath, parsed);
+	}
+
+	/**
+	 * Pick the folder of a skill to serve; see selectVersion().
+	 */
+	private selectVersion(paths: string[], range?: string): string | undefined {
+		return selectVersion(
+			paths,
+			(skillPath) => this.versionOf(skillPath),
+			range,
+		);
+	}
+
+	/**
+	 * List the versions of a skill's folders, highest first.
+	 */
+	private listVersions(paths: string[]): string[] {
+		return paths
+			.map((skillPath) => this.versionOf(skillPath))
+			.filter((version): version is SemVer => version !== undefined)
+			.sort((a, b) => compareVersions(b, a))
+			.map(formatVersion);
+	}
+
+	/**
+	 * Check a skill name against the include and exclude patterns.
+	 */
+	private isSelected(name: string): boolean {
+		if (this.exclude.some((re) => re.test(name))) return false;
+		return (
+			this.include.length === 0 || this.include.some((re) => re.test(name))
+		);
+	}
+
+	/**
+	 * Forget which problems were logged, so discovery logs the ones still
+	 * present again. Call when the skills change on disk: a problem that
+	 * was fixed and comes back is then reported again.
+	 */
+	resetReported(): void {
+		this.reported.clear();
+	}
+
+	/**
+	 * Log a discovery problem once, since discovery runs on every call.
+	 * resetReported() starts over.
+	 */
+	private report(
+		level: LogLevel,
+		message: string,
+		data?: Record<string, unknown>,
+	): void {
+		if (!this.logger || this.reported.has(message)) return;
+		this.reported.add(message);
+		this.logger.log(level, "skills", message, data);
+	}
+
+	/**
+	 * Resolve a skill name, optionally with a version range ('deploy@^2'),
+	 * to its folder.
+	 *
+	 * @throws Error if the skill or a matching version is not found.
+	 * @throws InvalidRangeError if the range cannot be parsed.
+	 */
+	private requireSkill(spec: string): string {
+		const { name, range } = splitSkillVersion(spec);
+		const skills = this.discoverVersions();
+		const paths = skills.get(name);
+
+		if (!paths) {
+			const available = [...skills.keys()].sort().join(", ");
+			throw new Error(
+				`Skill '${name}' not found. Available skills: ${available}`,
+			);
+		}
+
+		const skillPath = this.selectVersion(paths, range);
+		if (!skillPath) {
+			const versions = this.listVersions(paths);
+			throw new Error(
+				`Skill '${name}' has no version matching '${range}'. Available versions: ${versions.join(", ") || "(none)"}`,
+			);
+		}
+		return skillPath;
+	}
+
 	/**
 	 * Parse YAML frontmatter from SKILL.md content.
 	 *
 	 * @param content - Full content of SKILL.md file.
+	 * @param skillFile - Path to report problems for (omit to parse quietly).
 	 * @returns Parsed frontmatter (name, description, etc.)
 	 */
-	private parseFrontmatter(content: string): Record<string, unknown> {
+	private parseFrontmatter(
+		content: string,
+		skillFile?: string,
+	): Record<string, unknown> {
 		// Match frontmatter between --- markers
 		const match = content.match(/^---\n([\s\S]*?)\n---/);
-		if (!match) return {};
+		if (!match) {
+			if (skillFile) this.report("warning", `No frontmatter in ${skillFile}`);
+			return {};
+		}
 
 		try {
 			return (yaml.load(match[1]) as Record<string, unknown>) ?? {};
-		} catch {
+		} catch (e) {
+			if (skillFile) {
+				this.report(
+					"warning",
+					`Invalid frontmatter in ${skillFile}: ${errorMessage(e)}`,
+				);
+			}
 			return {};
 		}
 	}
 
 	/**
-	 * Return list of all available skills with name and description.
+	 * Get content after frontmatter.
+	 *
+	 * @param content - Full content of SKILL.md file.
+	 * @returns Content after the YAML frontmatter.
+	 */
+	private extractBody(content: string): string {
+		const match = content.match(/^---\n[\s\S]*?\n---\n?([\s\S]*)/);
+		return match ? match[1] : content;
+	}
+
+	/**
+	 * List files inside a skill subfolder, including nested subdirectories.
 	 *
-	 * @returns Array of objects with 'name' and 'description' keys.
+	 * @param skillPath - Skill directory.
+	 * @param folder - Subfolder name ('scripts' or 'references').
+	 * @returns Relative paths (e.g. 'db/migrate.ts'), or empty array if the folder does not exist.
 	 */
-	listAll(): SkillInfo[] {
-		const skills = this.discoverSkills();
+	private listFiles(skillPath: string, folder: string): string[] {
+		try {
+			return listFilesRecursive(join(skillPath, folder));
+		} catch {
+			return [];
+		}
+	}
+
+	/**
+	 * Return list of all available skills with name, description and size.
+	 *
+	 * Sizes are estimated locally and cached by file mtime, so repeated calls
+	 * only re-read files that changed.
+	 *
+	 * @param maxTokens - Only include skills whose SKILL.md fits this many tokens.
+	 * @returns Array of skill metadata for the default version of each skill, sorted by name.
+	 */
+	listAll(maxTokens?: number): SkillInfo[] {
+		const skills = this.discoverVersions();
 		const result: SkillInfo[] = [];
 
 		const sortedEntries = [...skills.entries()].sort(([a], [b]) =>
 			a.localeCompare(b),
 		);
-		for (const [name, skillPath] of sortedEntries) {
+		for (const [name, paths] of sortedEntries) {
+			const skillPath = this.selectVersion(paths) ?? paths[0];
 			const skillFile = join(skillPath, "SKILL.md");
 
+			let info: SkillInfo;
 			try {
 				const content = readFileSync(skillFile, "utf-8");
-				const frontmatter = this.parseFrontmatter(content);
-				result.push({
+				const frontmatter = this.parseFrontmatter(content, skillFile);
+				if (typeof frontmatter.description !== "string") {
+					this.report("warning", `No description in ${skillFile}`);
+				}
+				const version = this.versionOf(skillPath, frontmatter);
+				info = {
 					name: (frontmatter.name as string) ?? name,
 					description:
 						(frontmatter.description as string) ?? "No description available",
-				});
-			} catch {
-				result.push({
+					...measureFile(skillFile),
+					files: this.measureFiles(skillPath),
+					...(version ? { version: formatVersion(version) } : {}),
+					...(paths.length > 1 ? { versions: this.listVersions(paths) } : {}),
+				};
+			} catch (e) {
+				this.report("error", `Cannot read ${skillFile}: ${errorMessage(e)}`);
+				info = {
 					name,
 					description: "Unable to read skill description",
-				});
+					tokens: 0,
+					bytes: 0,
+					files: [],
+				};
+			}
+
+			if (maxTokens === undefined || info.tokens <= maxTokens) {
+				result.push(info);
 			}
 		}
 
@@ -221,22 +809,57 @@ export class SkillManager {
 	}
 
 	/**
-	 * Return full SKILL.md content for a skill.
+	 * Measure every script and reference of a skill.
+	 */
+	private measureFiles(skillPath: string): SkillFileInfo[] {
+		const files: SkillFileInfo[] = [];
+		for (const folder of Object.keys(FOLDER_LABELS) as SkillFolder[]) {
+			for (const file of this.listFiles(skillPath, folder)) {
+				try {
+					files.push({
+						path: `${folder}/${file}`,
+						...measureFile(join(skillPath, folder, file)),
+					});
+				} catch {
+					// Unreadable files are left out of the size report
+				}
+			}
+		}
+		return files;
+	}
+
+	/**
+	 * Return full SKILL.md content for a skill, with include directives
+	 * expanded.
 	 *
-	 * @param name - Skill name to retrieve.
+	 * Includes that cannot be expanded (missing targets, cycles, nesting
+	 * deeper than MAX_INCLUDE_DEPTH) are logged as warnings and replaced
+	 * with a comment.
+	 *
+	 * @param name - Skill name to retrieve, optionally with a version range ('deploy@^2').
+	 * @param options - expandIncludes: false returns SKILL.md as stored.
 	 * @returns Full content of SKILL.md file.
 	 * @throws Error if skill not found.
 	 */
-	getContent(name: string): string {
-		const skills = this.discoverSkills();
-		const skillPath = skills.get(name);
+	getContent(name: string, options: ReadSkillOptions = {}): string {
+		if (options.expandIncludes === false) return this.readSkillMd(name);
 
-		if (!skillPath) {
-			const available = [...skills.keys()].sort().join(", ");
-			throw new Error(
-				`Skill '${name}' not found. Available skills: ${available}`,
-			);
+		const { content, problems } = expandIncludes(
+			this.readSkillMd(name),
+			{ skill: name, file: "SKILL.md" },
+			(target) => this.readIncludeTarget(target),
+		);
+		for (const problem of problems) {
+			this.report("warning", problem, { skill: name });
 		}
+		return content;
+	}
+
+	/**
+	 * Read SKILL.md as stored, without expanding includes.
+	 */
+	private readSkillMd(name: string): string {
+		const skillPath = this.requireSkill(name);
 
 		const skillFile = join(skillPath, "SKILL.md");
 		try {
@@ -248,115 +871,281 @@ export class SkillManager {
 		}
 	}
 
+	/**
+	 * Read the file an include directive names: a SKILL.md body or a
+	 * reference, through the same checks as getReference().
+	 */
+	private readIncludeTarget(target: IncludeTarget): string {
+		if (target.file === "SKILL.md") {
+			return this.extractBody(this.readSkillMd(target.skill));
+		}
+		return this.getReference(
+			target.skill,
+			target.file.slice("references/".length),
+		);
+	}
+
+	/**
+	 * Return the skills a skill requires, directly or indirectly, in load
+	 * order (each skill after the ones it requires).
+	 *
+	 * Missing skills and cycles are logged as warnings and left out.
+	 *
+	 * @param name - Skill name.
+	 * @returns Required skill names, not including the skill itself.
+	 * @throws Error if skill not found.
+	 */
+	getDependencies(name: string): string[] {
+		this.requireSkill(name);
+
+		// Entries may carry a version range, as in 'requires: [deploy@^2]'
+		const chain = resolveDependencies(name, (skill) => {
+			let skillPath: string;
+			try {
+				skillPath = this.requireSkill(skill);
+			} catch {
+				return undefined;
+			}
+			try {
+				const content = readFileSync(join(skillPath, "SKILL.md"), "utf-8");
+				return requiresOf(this.parseFrontmatter(content));
+			} catch {
+				return [];
+			}
+		});
+		for (const problem of [...chain.missing, ...chain.cycles]) {
+			this.report("warning", problem, { skill: name });
+		}
+		return chain.order;
+	}
+
 	/**
 	 * Return content of a script file from a skill's scripts/ folder.
 	 *
 	 * @param skill - Skill name.
-	 * @param filename - Script filename (e.g., 'hello.py').
+	 * @param filename - Script path relative to scripts/ (e.g., 'hello.py', 'db/migrate.ts').
 	 * @returns Raw script content.
+	 * @throws UnsafePathError if the filename escapes the scripts/ folder.
 	 * @throws Error if skill or script not found.
 	 */
 	getScript(skill: string, filename: string): string {
-		const skills = this.discoverSkills();
-		const skillPath = skills.get(skill);
+		return this.readSkillFile(skill, "scripts", filename);
+	}
 
-		if (!skillPath) {
-			const available = [...skills.keys()].sort().join(", ");
-			throw new Error(
-				`Skill '${skill}' not found. Available skills: ${available}`,
-			);
-		}
+	/**
+	 * Return content of a reference document from a skill's references/ folder.
+	 *
+	 * @param skill - Skill name.
+	 * @param filename - Reference path relative to references/ (e.g., 'notes.md', 'api/v2/auth.md').
+	 * @returns Reference document content.
+	 * @throws UnsafePathError if the filename escapes the references/ folder.
+	 * @throws Error if skill or reference file not found.
+	 */
+	getReference(skill: string, filename: string): string {
+		return this.readSkillFile(skill, "references", filename);
+	}
+
+	/**
+	 * Read a file from a skill subfolder through the safe path resolver.
+	 *
+	 * @param skill - Skill name.
+	 * @param folder - Subfolder name.
+	 * @param filename - Path relative to the subfolder.
+	 * @returns File content.
+	 * @throws UnsafePathError if the path is rejected by resolveWithin().
+	 * @throws Error if skill or file not found.
+	 */
+	private readSkillFile(
+		skill: string,
+		folder: SkillFolder,
+		filename: string,
+	): string {
+		const skillPath = this.requireSkill(skill);
+		const { label, plural } = FOLDER_LABELS[folder];
 
-		const scriptPath = join(skillPath, "scripts", filename);
+		const filePath = resolveWithin(join(skillPath, folder), filename, {
+			root: dirname(dirname(skillPath)),
+			symlinkPolicy: this.symlinkPolicy,
+		});
 
-		if (!existsSync(scriptPath)) {
-			const scriptsDir = join(skillPath, "scripts");
-			if (existsSync(scriptsDir) && statSync(scriptsDir).isDirectory()) {
-				try {
-					const availableScripts = readdirSync(scriptsDir).filter((f) => {
-						const fPath = join(scriptsDir, f);
-						return existsSync(fPath) && statSync(fPath).isFile();
-					});
-					if (availableScripts.length > 0) {
-						throw new Error(
-							`Script '${filename}' not found in skill '${skill}'. ` +
-								`Available scripts: ${availableScripts.join(", ")}`,
-						);
-					}
-				} catch (e) {
-					if (e instanceof Error && e.message.includes("not found in skill")) {
-						throw e;
-					}
-				}
+		if (!existsSync(filePath)) {
+			const available = this.listFiles(skillPath, folder);
+			if (available.length > 0) {
+				throw new Error(
+					`${label} '${filename}' not found in skill '${skill}'. ` +
+						`Available ${plural}: ${available.join(", ")}`,
+				);
 			}
 			throw new Error(
-				`Script '${filename}' not found in skill '${skill}'. ` +
-					`No scripts directory exists for this skill.`,
+				`${label} '${filename}' not found in skill '${skill}'. ` +
+					`No ${folder} directory exists for this skill.`,
 			);
 		}
 
 		try {
-			return readFileSync(scriptPath, "utf-8");
+			return readFileSync(filePath, "utf-8");
 		} catch (e) {
 			throw new Error(
-				`Error reading script '${filename}' from skill '${skill}': ${e instanceof Error ? e.message : String(e)}`,
+				`Error reading ${label.toLowerCase()} '${filename}' from skill '${skill}': ${e instanceof Error ? e.message : String(e)}`,
 			);
 		}
 	}
 
 	/**
-	 * Return content of a reference document from a skill's references/ folder.
+	 * Return files in a skill's scripts/ folder, including subdirectories.
 	 *
 	 * @param skill - Skill name.
-	 * @param filename - Reference filename (e.g., 'notes.md').
-	 * @returns Reference document content.
-	 * @throws Error if skill or reference file not found.
+	 * @returns Sorted script paths relative to scripts/ (empty if the skill has no scripts).
+	 * @throws Error if skill not found.
 	 */
-	getReference(skill: string, filename: string): string {
-		const skills = this.discoverSkills();
-		const skillPath = skills.get(skill);
+	listScripts(skill: string): string[] {
+		return this.listFiles(this.requireSkill(skill), "scripts");
+	}
 
-		if (!skillPath) {
-			const available = [...skills.keys()].sort().join(", ");
-			throw new Error(
-				`Skill '${skill}' not found. Available skills: ${available}`,
-			);
-		}
+	/**
+	 * Return files in a skill's references/ folder, including subdirectories.
+	 *
+	 * @param skill - Skill name.
+	 * @returns Sorted reference paths relative to references/ (empty if the skill has no references).
+	 * @throws Error if skill not found.
+	 */
+	listReferences(skill: string): string[] {
+		return this.listFiles(this.requireSkill(skill), "references");
+	}
+
+	/**
+	 * Return the directory a skill resolves to.
+	 *
+	 * @param name - Skill name.
+	 * @returns Path to the winning skill directory.
+	 * @throws Error if skill not found.
+	 */
+	getSkillPath(name: string): string {
+		return this.requireSkill(name);
+	}
+
+	/**
+	 * Return a hash over all files of a skill (SKILL.md, scripts, references).
+	 *
+	 * @param name - Skill name.
+	 * @returns Content hash that changes whenever any skill file changes.
+	 * @throws Error if skill not found.
+	 */
+	getContentHash(name: string): string {
+		return computeSkillHash(this.requireSkill(name));
+	}
 
-		const refPath = join(skillPath, "references", filename);
+	/**
+	 * Return parsed SKILL.md, source and file inventory for a skill.
+	 *
+	 * @param name - Skill name, optionally with a version range ('deploy@^2').
+	 * @param options - expandIncludes: false returns the body as stored.
+	 * @returns Frontmatter, body, content hash and scripts/references with sizes.
+	 * @throws Error if skill not found or SKILL.md cannot be read.
+	 */
+	getDetails(name: string, options: ReadSkillOptions = {}): SkillDetails {
+		const skillPath = this.requireSkill(name);
+		const content = this.getContent(name, options);
+		const frontmatter = this.parseFrontmatter(content);
+		const version = this.versionOf(skillPath, frontmatter);
 
-		if (!existsSync(refPath)) {
-			const refsDir = join(skillPath, "references");
-			if (existsSync(refsDir) && statSync(refsDir).isDirectory()) {
+		const inventory = (folder: SkillFolder): SkillFileEntry[] =>
+			this.listFiles(skillPath, folder).flatMap((file) => {
 				try {
-					const availableRefs = readdirSync(refsDir).filter((f) => {
-						const fPath = join(refsDir, f);
-						return existsSync(fPath) && statSync(fPath).isFile();
-					});
-					if (availableRefs.length > 0) {
-						throw new Error(
-							`Reference '${filename}' not found in skill '${skill}'. ` +
-								`Available references: ${availableRefs.join(", ")}`,
-						);
-					}
-				} catch (e) {
-					if (e instanceof Error && e.message.includes("not found in skill")) {
-						throw e;
-					}
+					return [
+						{
+							name: file,
+							type: getMimeType(file),
+							...measureFile(join(skillPath, folder, file)),
+						},
+					];
+				} catch {
+					// Unreadable files are left out of the inventory
+					return [];
 				}
+			});
+
+		return {
+			name: typeof frontmatter.name === "string" ? frontmatter.name : name,
+			path: skillPath,
+			source: {
+				path: dirname(dirname(skillPath)),
+				kind: this.sourceKind(skillPath),
+			},
+			...(version ? { version: formatVersion(version) } : {}),
+			frontmatter,
+			body: this.extractBody(content),
+			hash: computeSkillHash(skillPath),
+			scripts: inventory("scripts"),
+			references: inventory("references"),
+		};
+	}
+
+	/**
+	 * Classify the source a skill directory belongs to.
+	 */
+	private sourceKind(skillPath: string): SkillSourceKind {
+		const isBelow = (root: string | undefined) =>
+			root !== undefined && skillPath.startsWith(resolve(root) + sep);
+		if (isBelow(this.bundledPath)) return "bundled";
+		if (this.isGitClone(skillPath)) return "git";
+		return "local";
+	}
+
+	/**
+	 * Check whether a path lies in the git cache.
+	 */
+	private isGitClone(path: string): boolean {
+		return path.startsWith(resolve(getCacheRoot()) + sep);
+	}
+
+	/**
+	 * Check whether a skill comes from a source that must not be edited.
+	 *
+	 * Bundled skills ship with the package and git sources are managed
+	 * clones that would be reset on the next fetch.
+	 *
+	 * @param name - Skill name.
+	 * @returns True if the skill resolves to the bundled directory or git cache.
+	 * @throws Error if skill not found.
+	 */
+	isReadOnly(name: string): boolean {
+		return this.sourceKind(this.requireSkill(name)) !== "local";
+	}
+
+	/**
+	 * Rank skills against a free-text query.
+	 *
+	 * Searches frontmatter name and description, headings and body of SKILL.md,
+	 * and reference filenames. Uses the same discovery as listAll(), so a
+	 * shadowed skill never appears in results.
+	 *
+	 * @param query - Free-text search query.
+	 * @param limit - Maximum number of results to return.
+	 * @returns Matching skills with scores and snippets, best first.
+	 */
+	search(query: string, limit: number = 10): SearchResult[] {
+		const docs: SearchDocument[] = [];
+
+		for (const [name, skillPath] of this.discoverSkills()) {
+			let content: string;
+			try {
+				content = readFileSync(join(skillPath, "SKILL.md"), "utf-8");
+			} catch {
+				continue;
 			}
-			throw new Error(
-				`Reference '${filename}' not found in skill '${skill}'. ` +
-					`No references directory exists for this skill.`,
-			);
-		}
 
-		try {
-			return readFileSync(refPath, "utf-8");
-		} catch (e) {
-			throw new Error(
-				`Error reading reference '${filename}' from skill '${skill}': ${e instanceof Error ? e.message : String(e)}`,
-			);
+			const frontmatter = this.parseFrontmatter(content);
+			const body = this.extractBody(content);
+			docs.push({
+				name: (frontmatter.name as string) ?? name,
+				description: (frontmatter.description as string) ?? "",
+				headings: extractHeadings(body),
+				body,
+				references: this.listFiles(skillPath, "references"),
+			});
 		}
+
+		return rankDocuments(docs, query, limit);
 	}
 }
@@ -0,0 +1,55 @@
+/**
+ * Tool names for skills-as-tools mode, where each skill is registered as
+ * its own MCP tool for clients that pick tools better than they read lists.
+ */
+
+export const SKILL_TOOL_PREFIX = "skill_";
+
+/**
+ * Longest tool name accepted by common clients.
+ */
+export const MAX_TOOL_NAME_LENGTH = 64;
+
+export const DEFAULT_SKILL_TOOL_LIMIT = 50;
+
+/**
+ * Build a tool name for a skill: 'skill_' plus the name with characters
+ * outside [a-z0-9_-] replaced by '_', cut to MAX_TOOL_NAME_LENGTH.
+ *
+ * @param skillName - Skill name as discovered (usually hyphen-case).
+ */
+export function toolNameForSkill(skillName: string): string {
+	const sanitised = skillName
+		.toLowerCase()
+		.replace(/[^a-z0-9_-]/g, "_")
+		.replace(/_+/g, "_");
+	return `${SKILL_TOOL_PREFIX}${sanitised}`.slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Assign unique tool names to skills, up to a limit.
+ *
+ * Names that collide after sanitising get a numeric suffix ('_2', '_3').
+ *
+ * @param skillNames - Skill names in the order they should be exposed.
+ * @param limit - Maximum number of tools.
+ * @returns Map of tool name to skill name, in input order.
+ */
+export function assignSkillToolNames(
+	skillNames: string[],
+	limit: number = DEFAULT_SKILL_TOOL_LIMIT,
+): Map<string, string> {
+	const tools = new Map<string, string>();
+	for (const skillName of skillNames) {
+		if (tools.size >= limit) break;
+
+		const base = toolNameForSkill(skillName);
+		let toolName = base;
+		for (let n = 2; tools.has(toolName); n++) {
+			const suffix = `_${n}`;
+			toolName = base.slice(0, MAX_TOOL_NAME_LENGTH - suffix.length) + suffix;
+		}
+		tools.set(toolName, skillName);
+	}
+	return tools;
+}
@@ -0,0 +1,401 @@
+/**
+ * Writing skills to disk on behalf of agents that cannot touch the filesystem.
+ */
+
+import { randomBytes } from "node:crypto";
+import {
+	cpSync,
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	renameSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { basename, dirname, join, resolve } from "node:path";
+import yaml from "js-yaml";
+import { unifiedDiff } from "./diff.js";
+import { updateReadmeAfterSkillCreation } from "./readmeUpdater.js";
+import { computeSkillHash, listSkillFiles } from "./skillHash.js";
+import { validateSkill } from "./validation.js";
+
+/**
+ * Files to write into a skill, keyed by path relative to the folder.
+ */
+export type SkillFiles = Record<string, string>;
+
+/**
+ * Input for createSkill().
+ */
+export interface CreateSkillOptions {
+	name: string;
+	description: string;
+	body: string;
+	scripts?: SkillFiles;
+	references?: SkillFiles;
+	targetPath?: string;
+	overwrite?: boolean;
+}
+
+/**
+ * Result of createSkill().
+ */
+export interface CreateSkillResult {
+	name: string;
+	path: string;
+	files: string[];
+	readmeUpdated: boolean;
+}
+
+/**
+ * Input for updateSkill().
+ */
+export interface UpdateSkillOptions {
+	/** Hash from skillkit_get_skill that the edit is based on. */
+	expectedHash: string;
+	/** New file contents keyed by path relative to the skill; null deletes. */
+	files: Record<string, string | null>;
+	/** Treat files as the complete skill and delete anything not listed. */
+	replaceAll?: boolean;
+}
+
+/**
+ * Result of updateSkill().
+ */
+export interface UpdateSkillResult {
+	name: string;
+	path: string;
+	hash: string;
+	changed: string[];
+	readmeUpdated: boolean;
+}
+
+/**
+ * Error thrown when a skill changed after the caller last read it.
+ */
+export class SkillConflictError extends Error {
+	currentHash: string;
+	diff: string;
+
+	constructor(
+		name: string,
+		expectedHash: string,
+		currentHash: string,
+		diff: string,
+	) {
+		super(
+			`Skill '${name}' changed since it was read ` +
+				`(expected hash ${expectedHash}, current hash ${currentHash}). ` +
+				"Re-read it with skillkit_get_skill and reapply your changes.\n\n" +
+				`Diff from the current files to your update:\n${diff || "(no differences)"}`,
+		);
+		this.name = "SkillConflictError";
+		this.currentHash = currentHash;
+		this.diff = diff;
+	}
+}
+
+/**
+ * Build SKILL.md content from frontmatter fields and a markdown body.
+ *
+ * @param frontmatter - Frontmatter properties (name, description, ...).
+ * @param body - Markdown instructions without frontmatter.
+ * @returns Full SKILL.md content.
+ */
+export function buildSkillMd(
+	frontmatter: Record<string, unknown>,
+	body: string,
+): string {
+	const fm = yaml.dump(frontmatter, { lineWidth: -1 }).trimEnd();
+	return `---\n${fm}\n---\n\n${body.trim()}\n`;
+}
+
+/**
+ * Check that a supplied filename stays inside its folder.
+ *
+ * Nested paths such as 'db/migrate.ts' are allowed.
+ *
+ * @throws Error if the filename is empty, absolute, uses backslashes, or has empty, '.' or '..' segments.
+ */
+export function assertSafeFilename(filename: string, folder: string): void {
+	const segments = filename.split("/");
+	if (
+		!filename ||
+		filename.includes("\\") ||
+		segments.some((s) => s === "" || s === "." || s === "..")
+	) {
+		throw new Error(
+			`Invalid ${folder} filename '${filename}'. Use a relative path without '.' or '..' segments.`,
+		);
+	}
+}
+
+/**
+ * Check that a path names a file a skill may contain.
+ *
+ * @throws Error unless the path is SKILL.md or a file below scripts/ or references/.
+ */
+export function assertSkillFilePath(path: string): void {
+	if (path === "SKILL.md") return;
+
+	const slash = path.indexOf("/");
+	const folder = path.slice(0, slash);
+	if (slash === -1 || (folder !== "scripts" && folder !== "references")) {
+		throw new Error(
+			`Invalid skill file '${path}'. Use SKILL.md, scripts/<path> or references/<path>.`,
+		);
+	}
+	assertSafeFilename(path.slice(slash + 1), folder);
+}
+
+/**
+ * Choose the repository to write into.
+ *
+ * @param writablePaths - Allowed repositories from SkillManager.getWritablePaths().
+ * @param targetPath - Requested repository, or undefined for the first writable path.
+ * @returns Resolved repository path.
+ * @throws Error if no writable path exists or targetPath is not one of them.
+ */
+export function resolveTargetPath(
+	writablePaths: string[],
+	targetPath?: string,
+): string {
+	if (writablePaths.length === 0) {
+		throw new Error(
+			"No writable skill paths configured. Use --skills-path or SKILLKIT_SKILLS_PATH.",
+		);
+	}
+
+	if (targetPath === undefined) {
+		return writablePaths[0];
+	}
+
+	const resolved = resolve(targetPath);
+	if (!writablePaths.map((p) => resolve(p)).includes(resolved)) {
+		throw new Error(
+			`Path '${targetPath}' is not a writable skill path. Available paths: ${writablePaths.join(", ")}`,
+		);
+	}
+	return resolved;
+}
+
+/**
+ * Write a set of files into a folder, creating it as needed.
+ */
+function writeFolder(dir: string, folder: string, files: SkillFiles): string[] {
+	const written: string[] = [];
+	for (const [filename, content] of Object.entries(files)) {
+		assertSafeFilename(filename, folder);
+		const filePath = join(dir, filename);
+		mkdirSync(dirname(filePath), { recursive: true });
+		writeFileSync(filePath, content);
+		written.push(`${folder}/${filename}`);
+	}
+	return written;
+}
+
+/**
+ * Replace a skill directory with a fully written staging directory.
+ *
+ * The staging directory lives next to the target with a leading underscore,
+ * so discovery never sees a half-written skill. An existing skill is moved
+ * aside first and only deleted once the new one is in place.
+ */
+function commitSkillDir(stagingDir: string, skillDir: string): void {
+	if (!existsSync(skillDir)) {
+		renameSync(stagingDir, skillDir);
+		return;
+	}
+
+	const backupDir = `${stagingDir}-old`;
+	renameSync(skillDir, backupDir);
+	try {
+		renameSync(stagingDir, skillDir);
+	} catch (e) {
+		renameSync(backupDir, skillDir);
+		throw e;
+	}
+	rmSync(backupDir, { recursive: true, force: true });
+}
+
+/**
+ * Create a skill in one of the writable skill repositories.
+ *
+ * All files are written to a staging directory and validated with
+ * validateSkill() before the skill appears under skills/. The repository
+ * README skill index is refreshed afterwards.
+ *
+ * @param writablePaths - Allowed repositories from SkillManager.getWritablePaths().
+ * @param options - Skill content and target.
+ * @returns Location and files of the created skill.
+ * @throws Error if the target is invalid, the skill exists, or validation fails.
+ */
+export function createSkill(
+	writablePaths: string[],
+	options: CreateSkillOptions,
+): CreateSkillResult {
+	const repoPath = resolveTargetPath(writablePaths, options.targetPath);
+	const skillsDir = join(repoPath, "skills");
+	const skillDir = join(skillsDir, options.name);
+
+	if (existsSync(skillDir) && !options.overwrite) {
+		throw new Error(
+			`Skill '${options.name}' already exists at ${skillDir}. Set overwrite to replace it.`,
+		);
+	}
+
+	mkdirSync(skillsDir, { recursive: true });
+	const stagingDir = join(
+		skillsDir,
+		`_staging-${options.name}-${randomBytes(4).toString("hex")}`,
+	);
+
+	try {
+		mkdirSync(stagingDir);
+		writeFileSync(
+			join(stagingDir, "SKILL.md"),
+			buildSkillMd(
+				{ name: options.name, description: options.description },
+				options.body,
+			),
+		);
+		const files = [
+			"SKILL.md",
+			...writeFolder(
+				join(stagingDir, "scripts"),
+				"scripts",
+				options.scripts ?? {},
+			),
+			...writeFolder(
+				join(stagingDir, "references"),
+				"references",
+				options.references ?? {},
+			),
+		];
+
+		const validation = validateSkill(stagingDir);
+		if (!validation.valid) {
+			throw new Error(`Skill validation failed: ${validation.message}`);
+		}
+
+		commitSkillDir(stagingDir, skillDir);
+
+		const readme = updateReadmeAfterSkillCreation(skillsDir);
+		return {
+			name: options.name,
+			path: skillDir,
+			files,
+			readmeUpdated: readme.updated,
+		};
+	} finally {
+		rmSync(stagingDir, { recursive: true, force: true });
+	}
+}
+
+/**
+ * Read a skill file, or null if it does not exist.
+ */
+function readSkillFile(skillPath: string, path: string): string | null {
+	const filePath = join(skillPath, path);
+	return existsSync(filePath) ? readFileSync(filePath, "utf-8") : null;
+}
+
+/**
+ * Compute the proposed state of every file an update touches.
+ */
+function plannedChanges(
+	skillPath: string,
+	options: UpdateSkillOptions,
+): Map<string, string | null> {
+	const planned = new Map(Object.entries(options.files));
+	if (options.replaceAll) {
+		for (const file of listSkillFiles(skillPath)) {
+			if (!planned.has(file)) planned.set(file, null);
+		}
+	}
+	return planned;
+}
+
+/**
+ * Update files of an existing skill with optimistic concurrency.
+ *
+ * The update only applies if the skill's content hash still matches the
+ * hash the caller read; otherwise a SkillConflictError carries a diff from
+ * the current files to the proposed ones. Changes are applied to a staged
+ * copy, validated with validateSkill(), then swapped in.
+ *
+ * @param skillPath - Directory of the skill to update.
+ * @param options - Expected hash and file replacements.
+ * @returns New hash and the files that changed.
+ * @throws SkillConflictError if the skill changed since it was read.
+ * @throws Error if a path is invalid or validation fails.
+ */
+export function updateSkill(
+	skillPath: string,
+	options: UpdateSkillOptions,
+): UpdateSkillResult {
+	const name = basename(skillPath);
+	for (const path of Object.keys(options.files)) {
+		assertSkillFilePath(path);
+	}
+
+	const planned = plannedChanges(skillPath, options);
+	const assertUnchanged = () => {
+		const currentHash = computeSkillHash(skillPath);
+		if (currentHash === options.expectedHash) return;
+
+		const diff = [...planned]
+			.map(([path, content]) =>
+				unifiedDiff(readSkillFile(skillPath, path), content, path),
+			)
+			.filter(Boolean)
+			.join("\n");
+		throw new SkillConflictError(name, options.expectedHash, currentHash, diff);
+	};
+
+	assertUnchanged();
+
+	const changed = [...planned]
+		.filter(([path, content]) => readSkillFile(skillPath, path) !== content)
+		.map(([path]) => path)
+		.sort();
+
+	const skillsDir = dirname(skillPath);
+	const stagingDir = join(
+		skillsDir,
+		`_staging-${name}-${randomBytes(4).toString("hex")}`,
+	);
+
+	try {
+		cpSync(skillPath, stagingDir, { recursive: true });
+		for (const [path, content] of planned) {
+			const filePath = join(stagingDir, path);
+			if (content === null) {
+				rmSync(filePath, { force: true });
+			} else {
+				mkdirSync(dirname(filePath), { recursive: true });
+				writeFileSync(filePath, content);
+			}
+		}
+
+		const validation = validateSkill(stagingDir);
+		if (!validation.valid) {
+			throw new Error(`Skill validation failed: ${validation.message}`);
+		}
+
+		// Narrow the race window: re-check right before swapping in
+		assertUnchanged();
+		commitSkillDir(stagingDir, skillPath);
+
+		const readme = updateReadmeAfterSkillCreation(skillsDir);
+		return {
+			name,
+			path: skillPath,
+			hash: computeSkillHash(skillPath),
+			changed,
+			readmeUpdated: readme.updated,
+		};
+	} finally {
+		rmSync(stagingDir, { recursive: true, force: true });
+	}
+}
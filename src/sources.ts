@@ -0,0 +1,146 @@
+/**
+ * Report of configured sources for `skillkit-mcp sources` and the
+ * skillkit_get_sources tool.
+ */
+
+import { dirname } from "node:path";
+import type { PromptManager } from "./promptManager.js";
+import type {
+	SkillManager,
+	SkillSourceKind,
+	SourceOrigin,
+} from "./skillManager.js";
+
+/**
+ * A skill or prompt hidden by one of the same name in a source with higher
+ * priority.
+ */
+export interface ShadowedItem {
+	type: "skill" | "prompt";
+	/** Skill folder (e.g. 'deploy@2') or prompt name. */
+	name: string;
+	/** The hidden folder or file. */
+	path: string;
+	/** Source the served skill or prompt comes from. */
+	winner: string;
+}
+
+/**
+ * A configured source and what it contributes.
+ */
+export interface SourceReport {
+	path: string;
+	origin: SourceOrigin;
+	kind: SkillSourceKind;
+	/** Repository URL and ref, for git sources. */
+	git?: { url: string; ref: string };
+	exists: boolean;
+	/** Skill folders served from this source. */
+	skills: string[];
+	/** Prompts served from its prompts/ folder. */
+	prompts: string[];
+	/** Skills and prompts of this source hidden by a higher-priority one. */
+	shadowed: ShadowedItem[];
+}
+
+/**
+ * Describe every source of skills and prompts, highest priority first.
+ *
+ * Prompts are read from the prompts/ folder of each source, so they are
+ * merged into the matching skill source. A prompts/ folder without one
+ * (the default home, when skills come from SKILLKIT_SKILLS_PATH) is listed
+ * before the bundled source.
+ */
+export function describeSources(
+	skills: SkillManager,
+	prompts: PromptManager,
+): SourceReport[] {
+	const reports: SourceReport[] = skills.getSources().map((source) => ({
+		...source,
+		prompts: [],
+		shadowed: source.shadowed.map((item) => ({
+			type: "skill" as const,
+			...item,
+		})),
+	}));
+
+	for (const promptSource of prompts.getSources()) {
+		const path = dirname(promptSource.path);
+		let report = reports.find((candidate) => candidate.path === path);
+		if (!report) {
+			report = {
+				path,
+				origin: promptSource.origin,
+				kind: promptSource.origin === "bundled" ? "bundled" : "local",
+				exists: true,
+				skills: [],
+				prompts: [],
+				shadowed: [],
+			};
+			const bundledIndex = reports.findIndex(
+				(candidate) => candidate.origin === "bundled",
+			);
+			reports.splice(
+				bundledIndex === -1 ? reports.length : bundledIndex,
+				0,
+				report,
+			);
+		}
+		report.prompts.push(...promptSource.prompts);
+		report.shadowed.push(
+			...promptSource.shadowed.map((item) => ({
+				type: "prompt" as const,
+				...item,
+				winner: dirname(item.winner),
+			})),
+		);
+	}
+
+	return reports;
+}
+
+/**
+ * Labels for source origins in text output.
+ */
+const ORIGIN_LABELS: Record<SourceOrigin, string> = {
+	cli: "--skills-path",
+	config: "config file",
+	env: "SKILLKIT_SKILLS_PATH",
+	default: "default home",
+	bundled: "bundled",
+};
+
+/**
+ * Render source reports as plain text.
+ */
+export function formatSources(sources: SourceReport[]): string {
+	const list = (items: string[]) =>
+		items.length > 0 ? `${items.length}: ${items.join(", ")}` : "(none)";
+
+	return sources
+		.map((source, index) => {
+			const status = source.exists
+				? ""
+				: source.kind === "git"
+					? " (not cloned yet)"
+					: " (not found)";
+			const lines = [
+				`${index + 1}. ${source.path}${status}`,
+				`   origin:   ${ORIGIN_LABELS[source.origin]}`,
+			];
+			if (source.git) {
+				lines.push(`   git:      ${source.git.url}#${source.git.ref}`);
+			}
+			lines.push(
+				`   skills:   ${list(source.skills)}`,
+				`   prompts:  ${list(source.prompts)}`,
+			);
+			for (const item of source.shadowed) {
+				lines.push(
+					`   shadowed: ${item.type} '${item.name}' by ${item.winner}`,
+				);
+			}
+			return lines.join("\n");
+		})
+		.join("\n\n");
+}
@@ -0,0 +1,25 @@
+/**
+ * Default template for the MCP instructions sent on initialize.
+ */
+
+import dedent from "dedent";
+
+/**
+ * Placeholders: {{skill_count}}, {{prompt_count}}, {{categories}} and
+ * {{skills}} (one line per skill, most used first).
+ */
+export const INSTRUCTIONS_TEMPLATE = dedent`
+	SkillKit provides {{skill_count}} skills: tested instructions for recurring tasks. Check for a matching skill before starting a task, even if the user does not mention skillkit.
+
+	Categories: {{categories}}
+
+	Skills:
+	{{skills}}
+
+	How to use:
+	1. Find a skill with skillkit_search_skills(query) or skillkit_list_skills.
+	2. Call skillkit_get_skill(name) and follow its instructions.
+	3. Fetch the scripts and references it mentions with skillkit_get_script and skillkit_get_reference.
+
+	{{prompt_count}} prompts are available as slash commands.
+`;
@@ -0,0 +1,75 @@
+/**
+ * Approximate token counts, so agents can budget context before fetching.
+ *
+ * Counting is local and tokenizer-agnostic: short words count as one token,
+ * longer words and numbers are split into chunks, and every other
+ * non-whitespace character counts as one token. This tracks BPE tokenizers
+ * closely enough for prose, markdown and code.
+ */
+
+import { readFileSync, statSync } from "node:fs";
+
+/**
+ * Characters per token for words and numbers.
+ */
+const CHARS_PER_WORD_TOKEN = 5;
+const CHARS_PER_NUMBER_TOKEN = 3;
+
+/**
+ * Estimated size of a file.
+ */
+export interface FileSize {
+	tokens: number;
+	bytes: number;
+}
+
+/**
+ * Sizes keyed by absolute path, valid while mtime and byte size are unchanged.
+ */
+const sizeCache = new Map<string, { mtimeMs: number; size: FileSize }>();
+
+/**
+ * Estimate how many tokens a text uses.
+ *
+ * @param text - Text to measure.
+ * @returns Approximate token count.
+ */
+export function estimateTokens(text: string): number {
+	let tokens = 0;
+	for (const [piece] of text.matchAll(/[A-Za-z]+|[0-9]+|\S/g)) {
+		if (/^[A-Za-z]/.test(piece)) {
+			tokens += Math.ceil(piece.length / CHARS_PER_WORD_TOKEN);
+		} else if (/^[0-9]/.test(piece)) {
+			tokens += Math.ceil(piece.length / CHARS_PER_NUMBER_TOKEN);
+		} else {
+			tokens += 1;
+		}
+	}
+	return tokens;
+}
+
+/**
+ * Measure a file, reusing the previous result while its mtime is unchanged.
+ *
+ * @param filePath - File to measure.
+ * @returns Estimated tokens and size in bytes.
+ * @throws Error if the file cannot be read.
+ */
+export function measureFile(filePath: string): FileSize {
+	const stat = statSync(filePath);
+	const cached = sizeCache.get(filePath);
+	if (
+		cached &&
+		cached.mtimeMs === stat.mtimeMs &&
+		cached.size.bytes === stat.size
+	) {
+		return cached.size;
+	}
+
+	const size = {
+		tokens: estimateTokens(readFileSync(filePath, "utf-8")),
+		bytes: stat.size,
+	};
+	sizeCache.set(filePath, { mtimeMs: stat.mtimeMs, size });
+	return size;
+}
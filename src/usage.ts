@@ -0,0 +1,301 @@
+/**
+ * Opt-in local usage log and the reports built from it.
+ *
+ * Every tool call and prompt invocation is appended as one JSON line to
+ * usage.jsonl under the skillkit home. Nothing leaves the machine.
+ */
+
+import {
+	appendFileSync,
+	closeSync,
+	existsSync,
+	mkdirSync,
+	openSync,
+	readFileSync,
+	readSync,
+	statSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+import { getSkillkitHome } from "./gitSource.js";
+
+/**
+ * One recorded tool call or prompt invocation.
+ */
+export interface UsageEvent {
+	/** ISO timestamp. */
+	ts: string;
+	kind: "tool" | "prompt";
+	/** Tool or prompt name. */
+	name: string;
+	skill?: string;
+	/** Script or reference path for file fetches. */
+	file?: string;
+	/** Skill repository the skill resolved to. */
+	source?: string;
+	/** Client name from the MCP initialize request. */
+	client?: string;
+	ok: boolean;
+	error?: string;
+}
+
+/**
+ * Dimensions a usage report can be grouped by.
+ */
+export type UsageDimension = "skill" | "source" | "client" | "tool" | "day";
+
+export const USAGE_DIMENSIONS: readonly UsageDimension[] = [
+	"skill",
+	"source",
+	"client",
+	"tool",
+	"day",
+];
+
+/**
+ * One row of a usage report.
+ */
+export interface UsageRow {
+	key: string;
+	calls: number;
+	errors: number;
+	/** ISO timestamp of the most recent call, or null if never used. */
+	lastUsed: string | null;
+}
+
+/**
+ * Options for aggregateUsage().
+ */
+export interface AggregateOptions {
+	by: UsageDimension;
+	since?: Date;
+	until?: Date;
+	/** Keys to report even without calls (e.g. every available skill). */
+	include?: string[];
+}
+
+/**
+ * Default location of the usage log.
+ */
+export function getUsageLogPath(): string {
+	return join(getSkillkitHome(), "usage.jsonl");
+}
+
+/**
+ * Append-only usage log.
+ *
+ * Write failures are swallowed: usage logging must never break a tool call.
+ */
+export class UsageLog {
+	private path: string;
+
+	constructor(path: string = getUsageLogPath()) {
+		this.path = path;
+	}
+
+	/**
+	 * Append an event, stamping it with the current time.
+	 */
+	record(event: Omit<UsageEvent, "ts">): void {
+		const line = JSON.stringify({ ts: new Date().toISOString(), ...event });
+		try {
+			mkdirSync(dirname(this.path), { recursive: true });
+			appendFileSync(this.path, `${line}\n`);
+		} catch {
+			// Ignore: logging is best effort
+		}
+	}
+}
+
+/**
+ * Read all events from a usage log, skipping malformed lines.
+ *
+ * @param path - Log file (defaults to getUsageLogPath()).
+ * @returns Events in file order; empty if the log does not exist.
+ */
+export function readUsageLog(path: string = getUsageLogPath()): UsageEvent[] {
+	if (!existsSync(path)) return [];
+	return parseUsageLines(readFileSync(path, "utf-8"));
+}
+
+/**
+ * Parse usage log lines, skipping malformed ones.
+ */
+function parseUsageLines(text: string): UsageEvent[] {
+	const events: UsageEvent[] = [];
+	for (const line of text.split("\n")) {
+		if (!line.trim()) continue;
+		try {
+			const event = JSON.parse(line) as UsageEvent;
+			if (typeof event.ts === "string" && typeof event.name === "string") {
+				events.push(event);
+			}
+		} catch {
+			// Partially written line
+		}
+	}
+	return events;
+}
+
+/**
+ * Calls per skill counted so far, by log file, and the byte offset read up to.
+ */
+const skillCallCounts = new Map<
+	string,
+	{ offset: number; counts: Map<string, number> }
+>();
+
+/**
+ * Count calls per skill over the whole usage log.
+ *
+ * Counts are kept for the life of the process and the log is append-only,
+ * so each call only reads the lines added since the last one: a server
+ * per HTTP session does not re-read the whole log. A log that shrank
+ * (rotated or truncated) is read from the start again.
+ *
+ * @param path - Log file (defaults to getUsageLogPath()).
+ * @returns Calls per skill name; empty if the log does not exist.
+ */
+export function countSkillCalls(
+	path: string = getUsageLogPath(),
+): Map<string, number> {
+	if (!existsSync(path)) {
+		skillCallCounts.delete(path);
+		return new Map();
+	}
+
+	const size = statSync(path).size;
+	let cached = skillCallCounts.get(path);
+	if (!cached || size < cached.offset) {
+		cached = { offset: 0, counts: new Map() };
+		skillCallCounts.set(path, cached);
+	}
+
+	if (size > cached.offset) {
+		const buffer = Buffer.alloc(size - cached.offset);
+		const fd = openSync(path, "r");
+		try {
+			readSync(fd, buffer, 0, buffer.length, cached.offset);
+		} finally {
+			closeSync(fd);
+		}
+		// A partially written last line is counted once it is complete
+		const end = buffer.lastIndexOf("\n") + 1;
+		const events = parseUsageLines(buffer.subarray(0, end).toString("utf-8"));
+		for (const row of aggregateUsage(events, { by: "skill" })) {
+			cached.counts.set(row.key, (cached.counts.get(row.key) ?? 0) + row.calls);
+		}
+		cached.offset += end;
+	}
+
+	return new Map(cached.counts);
+}
+
+/**
+ * Parse a time window bound: a duration back from now ('24h', '7d', '4w')
+ * or anything Date understands ('2025-01-31').
+ *
+ * @throws Error if the value cannot be parsed.
+ */
+export function parseTimeBound(value: string, now: Date = new Date()): Date {
+	const match = value.match(/^(\d+)([hdw])$/);
+	if (match) {
+		const hours = { h: 1, d: 24, w: 24 * 7 }[match[2] as "h" | "d" | "w"];
+		return new Date(now.getTime() - Number(match[1]) * hours * 3_600_000);
+	}
+
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		throw new Error(
+			`Invalid time '${value}'. Use a duration like 24h, 7d or 4w, or a date like 2025-01-31.`,
+		);
+	}
+	return date;
+}
+
+/**
+ * Read the key of an event for a dimension.
+ */
+function keyOf(event: UsageEvent, by: UsageDimension): string | undefined {
+	switch (by) {
+		case "skill":
+			return event.skill;
+		case "source":
+			return event.source;
+		case "client":
+			return event.client ?? "(unknown)";
+		case "tool":
+			return event.name;
+		case "day":
+			return event.ts.slice(0, 10);
+	}
+}
+
+/**
+ * Group events by a dimension within a time window.
+ *
+ * Events without a value for the dimension (e.g. search calls when grouping
+ * by skill) are left out.
+ *
+ * @param events - Events from readUsageLog().
+ * @param options - Dimension, time window and keys to always include.
+ * @returns Rows sorted by call count (descending), then key.
+ */
+export function aggregateUsage(
+	events: UsageEvent[],
+	options: AggregateOptions,
+): UsageRow[] {
+	const rows = new Map<string, UsageRow>();
+	for (const key of options.include ?? []) {
+		rows.set(key, { key, calls: 0, errors: 0, lastUsed: null });
+	}
+
+	for (const event of events) {
+		const ts = new Date(event.ts);
+		if (options.since && ts < options.since) continue;
+		if (options.until && ts > options.until) continue;
+
+		const key = keyOf(event, options.by);
+		if (key === undefined) continue;
+
+		const row = rows.get(key) ?? { key, calls: 0, errors: 0, lastUsed: null };
+		row.calls++;
+		if (!event.ok) row.errors++;
+		if (row.lastUsed === null || event.ts > row.lastUsed) {
+			row.lastUsed = event.ts;
+		}
+		rows.set(key, row);
+	}
+
+	return [...rows.values()].sort(
+		(a, b) => b.calls - a.calls || a.key.localeCompare(b.key),
+	);
+}
+
+/**
+ * Render usage rows as a plain-text table.
+ *
+ * @param rows - Rows from aggregateUsage().
+ * @param by - Dimension used as the first column header.
+ * @returns Aligned table text.
+ */
+export function formatUsageTable(rows: UsageRow[], by: UsageDimension): string {
+	const header = [by.toUpperCase(), "CALLS", "ERRORS", "LAST USED"];
+	const body = rows.map((row) => [
+		row.key,
+		String(row.calls),
+		String(row.errors),
+		row.lastUsed ?? "never",
+	]);
+
+	const widths = header.map((cell, i) =>
+		Math.max(cell.length, ...body.map((line) => line[i].length)),
+	);
+	return [header, ...body]
+		.map((line) =>
+			line
+				.map((cell, i) => cell.padEnd(widths[i]))
+				.join("  ")
+				.trimEnd(),
+		)
+		.join("\n");
+}
@@ -4,14 +4,36 @@
  * Ported from bundled-skills/skill-creator/scripts/quick_validate.py
  */
 
-import { existsSync, readFileSync } from "node:fs";
-import { join } from "node:path";
+import {
+	existsSync,
+	readdirSync,
+	readFileSync,
+	realpathSync,
+	statSync,
+} from "node:fs";
+import { dirname, join, sep } from "node:path";
 import yaml from "js-yaml";
+import { requiresOf, resolveDependencies } from "./dependencies.js";
+import { expandIncludes, type IncludeTarget } from "./includes.js";
+import { buildArgumentSchema } from "./promptArguments.js";
+import { PROMPT_ARGUMENT_TYPES, PromptArgumentSchema } from "./schemas.js";
+import { parseVersion } from "./semver.js";
+import {
+	selectVersion,
+	skillVersion,
+	splitSkillVersion,
+} from "./skillManager.js";
 
 /**
  * Allowed properties in SKILL.md frontmatter.
  */
-const ALLOWED_PROPERTIES = new Set(["name", "description", "license"]);
+const ALLOWED_PROPERTIES = new Set([
+	"name",
+	"description",
+	"license",
+	"requires",
+	"version",
+]);
 
 /**
  * Maximum length for skill name (per spec).
@@ -23,6 +45,16 @@ const MAX_NAME_LENGTH = 64;
  */
 const MAX_DESCRIPTION_LENGTH = 1024;
 
+/**
+ * Skill subfolders whose files are checked, including nested directories.
+ */
+const SKILL_FOLDERS = ["scripts", "references"];
+
+/**
+ * Matches markdown links to skill files, e.g. [auth](references/api/v2/auth.md).
+ */
+const FILE_LINK_PATTERN = /\]\(((?:scripts|references)\/[^)\s#]+)[^)]*\)/g;
+
 /**
  * Result of skill validation.
  */
@@ -30,6 +62,7 @@ export interface ValidationResult {
 	valid: boolean;
 	message: string;
 	errors?: string[];
+	warnings?: string[];
 }
 
 /**
@@ -48,6 +81,8 @@ export interface SkillFrontmatter {
 	name: string;
 	description: string;
 	license?: string;
+	/** Skills to load before this one. */
+	requires?: string[];
 }
 
 /**
@@ -83,6 +118,9 @@ export function parseSkillFrontmatter(content: string): SkillFrontmatter | null
 			name: frontmatter.name,
 			description: frontmatter.description,
 			license: typeof frontmatter.license === "string" ? frontmatter.license : undefined,
+			requires: Array.isArray(frontmatter.requires)
+				? requiresOf(frontmatter)
+				: undefined,
 		};
 	} catch {
 		return null;
@@ -99,6 +137,15 @@ export function parseSkillFrontmatter(content: string): SkillFrontmatter | null
  * - Name format (hyphen-case, valid length)
  * - Description format (no angle brackets, valid length)
  * - No unexpected frontmatter properties
+ * - version is a semantic version (e.g. '2.1.0' or '2.0.0-beta.1')
+ * - requires is a list of skill names with no dependency cycles
+ * - include directives name existing skills, references and sections,
+ *   without cycles or nesting deeper than MAX_INCLUDE_DEPTH
+ * - scripts/ and references/ (including nested folders) have no broken or escaping symlinks
+ *
+ * Markdown links from SKILL.md to missing scripts/references files are
+ * reported as warnings, as are required or included skills that are not in
+ * the same skills/ folder (they may come from another source at runtime).
  *
  * @param skillPath - Path to the skill directory
  * @returns Validation result with valid flag and message
@@ -268,18 +315,206 @@ export function validateSkill(skillPath: string): ValidationResult {
 		}
 	}
 
+	const version = frontmatter.version;
+	if (version !== undefined) {
+		if (typeof version !== "string") {
+			errors.push(
+				`Version must be a quoted string like "2.1.0", got ${typeof version}`,
+			);
+		} else if (!parseVersion(version)) {
+			errors.push(
+				`Version '${version}' is not a semantic version (MAJOR.MINOR.PATCH, e.g. 2.1.0 or 2.0.0-beta.1)`,
+			);
+		}
+	}
+
+	const warnings: string[] = [];
+	checkRequires(skillPath, trimmedName, frontmatter.requires, errors, warnings);
+	checkIncludes(skillPath, trimmedName, content, errors, warnings);
+	for (const folder of SKILL_FOLDERS) {
+		checkSkillFolder(skillPath, folder, errors);
+	}
+	const linked = new Set(
+		[...content.matchAll(FILE_LINK_PATTERN)].map((m) => m[1]),
+	);
+	for (const target of linked) {
+		if (!existsSync(join(skillPath, target))) {
+			warnings.push(`SKILL.md links to ${target}, which does not exist`);
+		}
+	}
+
 	if (errors.length > 0) {
 		return {
 			valid: false,
 			message: errors.join("; "),
 			errors,
+			warnings,
 		};
 	}
 
 	return {
 		valid: true,
 		message: "Skill is valid!",
+		warnings,
+	};
+}
+
+/**
+ * Check the requires list and follow it through the other skills in the
+ * same skills/ folder to find missing skills and cycles.
+ */
+function checkRequires(
+	skillPath: string,
+	name: string,
+	requires: unknown,
+	errors: string[],
+	warnings: string[],
+): void {
+	if (requires === undefined) return;
+	if (
+		!Array.isArray(requires) ||
+		requires.some((entry) => typeof entry !== "string" || entry.trim() === "")
+	) {
+		errors.push("'requires' must be a list of skill names");
+		return;
+	}
+	if (requires.some((entry) => splitSkillVersion(entry).name === name)) {
+		errors.push(`Skill '${name}' cannot require itself`);
+		return;
+	}
+
+	// Siblings are read from disk; this skill may be a staged copy
+	const skillsDir = dirname(skillPath);
+	const frontmatterOf = (dir: string): Record<string, unknown> => {
+		const match = readFileSync(join(dir, "SKILL.md"), "utf-8").match(
+			/^---\n([\s\S]*?)\n---/,
+		);
+		try {
+			const parsed = match ? yaml.load(match[1]) : undefined;
+			return typeof parsed === "object" && parsed !== null
+				? (parsed as Record<string, unknown>)
+				: {};
+		} catch {
+			return {};
+		}
+	};
+	// A range ('deploy@^2') picks among the skill's folders as the server does
+	const lookup = (spec: string): string[] | undefined => {
+		const { name: skill, range } = splitSkillVersion(spec);
+		if (skill === name) return requires;
+		const folders = readdirSync(skillsDir)
+			.filter(
+				(folder) =>
+					!folder.startsWith("_") &&
+					splitSkillVersion(folder).name === skill &&
+					existsSync(join(skillsDir, folder, "SKILL.md")),
+			)
+			.map((folder) => join(skillsDir, folder));
+		let folder: string | undefined;
+		try {
+			folder = selectVersion(
+				folders,
+				(dir) => skillVersion(dir, frontmatterOf(dir)),
+				range,
+			);
+		} catch {
+			return undefined;
+		}
+		return folder ? requiresOf(frontmatterOf(folder)) : undefined;
 	};
+
+	const { missing, cycles } = resolveDependencies(name, lookup);
+	errors.push(...cycles);
+	warnings.push(...missing);
+}
+
+/**
+ * Expand include directives against the files on disk and report targets
+ * that cannot be expanded.
+ */
+function checkIncludes(
+	skillPath: string,
+	name: string,
+	content: string,
+	errors: string[],
+	warnings: string[],
+): void {
+	// This skill may be a staged copy, so it is read from skillPath
+	const skillsDir = dirname(skillPath);
+	const read = (target: IncludeTarget): string | undefined => {
+		const dir =
+			target.skill === name ? skillPath : join(skillsDir, target.skill);
+		if (!existsSync(join(dir, "SKILL.md"))) {
+			warnings.push(
+				`Included skill '${target.skill}' is not in this skills/ folder`,
+			);
+			return undefined;
+		}
+		if (target.file.split("/").includes("..")) {
+			throw new Error(`${target.file} is outside the skill`);
+		}
+		const file = join(dir, target.file);
+		if (!existsSync(file)) {
+			throw new Error(`${target.file} does not exist in '${target.skill}'`);
+		}
+		const text = readFileSync(file, "utf-8");
+		return target.file === "SKILL.md"
+			? text.replace(/^---\n[\s\S]*?\n---\n?/, "")
+			: text;
+	};
+
+	errors.push(
+		...expandIncludes(content, { skill: name, file: "SKILL.md" }, read)
+			.problems,
+	);
+}
+
+/**
+ * Check every entry below a skill subfolder, descending into nested directories.
+ *
+ * Symlinks must resolve, and their targets must stay inside the skill source
+ * (the repository containing skills/), matching what the server will serve.
+ */
+function checkSkillFolder(
+	skillPath: string,
+	folder: string,
+	errors: string[],
+): void {
+	const dir = join(skillPath, folder);
+	if (!existsSync(dir)) return;
+	if (!statSync(dir).isDirectory()) {
+		errors.push(`${folder} must be a directory`);
+		return;
+	}
+
+	const sourceRoot = realpathSync(dirname(dirname(skillPath)));
+	const walk = (current: string, relPath: string) => {
+		const entries = readdirSync(current, { withFileTypes: true }).sort((a, b) =>
+			a.name.localeCompare(b.name),
+		);
+		for (const entry of entries) {
+			const entryRelPath = `${relPath}/${entry.name}`;
+			const entryPath = join(current, entry.name);
+
+			if (entry.isDirectory()) {
+				walk(entryPath, entryRelPath);
+			} else if (entry.isSymbolicLink()) {
+				let target: string;
+				try {
+					target = realpathSync(entryPath);
+				} catch {
+					errors.push(`${entryRelPath} is a broken symlink`);
+					continue;
+				}
+				if (!target.startsWith(sourceRoot + sep)) {
+					errors.push(
+						`${entryRelPath} is a symlink pointing outside the skill source`,
+					);
+				}
+			}
+		}
+	};
+	walk(dir, folder);
 }
 
 /**
@@ -325,6 +560,105 @@ function findSimilar(name: string, candidates: string[]): string | undefined {
 	return undefined;
 }
 
+/**
+ * Check a prompt argument's constraints, values and default.
+ *
+ * @param argName - Argument name, used in messages.
+ * @param def - Raw argument definition from frontmatter.
+ * @returns Error messages (empty if valid).
+ */
+function checkPromptArgument(
+	argName: string,
+	def: Record<string, unknown>,
+): string[] {
+	const errors: string[] = [];
+	const prefix = `Argument '${argName}'`;
+	const type = def.type ?? (def.enum !== undefined ? "enum" : "string");
+
+	// Completion values must be lists of scalars
+	for (const key of ["enum", "suggestions"]) {
+		const values = def[key];
+		if (values === undefined) continue;
+		if (
+			!Array.isArray(values) ||
+			values.some((v) => typeof v === "object" && v !== null) ||
+			(key === "enum" && values.length === 0)
+		) {
+			errors.push(
+				`${prefix}: '${key}' must be a ${key === "enum" ? "non-empty " : ""}list of values.`,
+			);
+		}
+	}
+	if (type === "enum" && def.enum === undefined) {
+		errors.push(`${prefix}: type 'enum' needs an 'enum' list of values.`);
+	}
+
+	if (def.required !== undefined && typeof def.required !== "boolean") {
+		errors.push(`${prefix}: 'required' must be true or false.`);
+	}
+	if (def.required === true && def.default !== undefined) {
+		errors.push(`${prefix} is required but has a default.`);
+	}
+
+	for (const key of ["min", "max"]) {
+		if (def[key] === undefined) continue;
+		if (typeof def[key] !== "number") {
+			errors.push(`${prefix}: '${key}' must be a number.`);
+		} else if (
+			!["number", "string", "skill", "string[]"].includes(type as string)
+		) {
+			errors.push(`${prefix}: '${key}' does not apply to type '${type}'.`);
+		}
+	}
+	if (
+		typeof def.min === "number" &&
+		typeof def.max === "number" &&
+		def.min > def.max
+	) {
+		errors.push(
+			`${prefix}: min (${def.min}) is greater than max (${def.max}).`,
+		);
+	}
+
+	if (def.pattern !== undefined) {
+		if (typeof def.pattern !== "string") {
+			errors.push(`${prefix}: 'pattern' must be a string.`);
+		} else if (!["string", "skill", "string[]"].includes(type as string)) {
+			errors.push(`${prefix}: 'pattern' does not apply to type '${type}'.`);
+		} else {
+			try {
+				new RegExp(def.pattern);
+			} catch {
+				errors.push(`${prefix}: invalid pattern '${def.pattern}'.`);
+			}
+		}
+	}
+	if (errors.length > 0 || def.default === undefined) {
+		return errors;
+	}
+
+	// The default must satisfy the argument's own type and constraints
+	if (
+		Array.isArray(def.enum) &&
+		!def.enum.map(String).includes(String(def.default))
+	) {
+		errors.push(
+			`${prefix}: default '${def.default}' is not one of its enum values.`,
+		);
+		return errors;
+	}
+	const parsed = PromptArgumentSchema.safeParse(def);
+	if (parsed.success) {
+		const result = buildArgumentSchema(parsed.data).safeParse(undefined);
+		if (!result.success) {
+			errors.push(
+				`${prefix}: default ${JSON.stringify(def.default)} is invalid: ${result.error.issues[0].message}`,
+			);
+		}
+	}
+	return errors;
+}
+
 /**
  * Validate a prompt file (strict mode for CLI).
  *
@@ -380,12 +714,14 @@ export function validatePrompt(promptPath: string): PromptValidationResult {
 
 			// Check type is valid
 			if (def.type !== undefined) {
-				const validTypes = ["string", "number", "boolean"];
+				const validTypes: readonly string[] = PROMPT_ARGUMENT_TYPES;
 				if (!validTypes.includes(def.type as string)) {
 					errors.push(`Invalid type '${def.type}'. Use: ${validTypes.join(", ")}.`);
 				}
 			}
 
+			errors.push(...checkPromptArgument(argName, def));
+
 			// Warning: missing description
 			if (!def.description) {
 				warnings.push(`Argument '${argName}' has no description.`);
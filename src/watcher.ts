@@ -0,0 +1,191 @@
+/**
+ * Filesystem watching for live reload of skills and prompts.
+ */
+
+import {
+	existsSync,
+	type FSWatcher,
+	readdirSync,
+	statSync,
+	watch,
+} from "node:fs";
+import { join, resolve, sep } from "node:path";
+
+/**
+ * Default delay before reporting a burst of changes (e.g. a `git pull`).
+ */
+export const DEFAULT_DEBOUNCE_MS = 300;
+
+/**
+ * Directory names never watched or reported (VCS metadata, dependencies).
+ */
+const IGNORED_DIRS = new Set([".git", "node_modules"]);
+
+/**
+ * Check whether a path relative to a watched directory is ignored.
+ */
+function isIgnored(relativePath: string): boolean {
+	return relativePath
+		.split(/[\\/]/)
+		.some((segment) => IGNORED_DIRS.has(segment));
+}
+
+/**
+ * Drop paths that are nested inside another path in the list.
+ */
+function outermostPaths(paths: string[]): string[] {
+	const unique = [...new Set(paths.map((p) => resolve(p)))];
+	return unique.filter(
+		(p) => !unique.some((other) => other !== p && p.startsWith(other + sep)),
+	);
+}
+
+/**
+ * Watches skill and prompt source directories and reports changed files.
+ *
+ * Uses recursive fs.watch where the platform supports it, and falls back to
+ * one watcher per directory otherwise (picking up new subdirectories as they
+ * appear). Events are debounced so a burst of edits produces one callback
+ * with every changed path.
+ */
+export class SourceWatcher {
+	private watchers = new Map<string, FSWatcher>();
+	private pending = new Set<string>();
+	private timer: NodeJS.Timeout | undefined;
+	private closed = false;
+	private listeners = new Set<(changed: string[]) => void>();
+	private debounceMs: number;
+
+	/**
+	 * Start watching the given directories.
+	 *
+	 * @param paths - Directories to watch (missing paths are ignored).
+	 * @param onChange - Called with absolute paths of changed files after a quiet period (more can be added with subscribe()).
+	 * @param debounceMs - Quiet period before onChange fires.
+	 */
+	constructor(
+		paths: string[],
+		onChange?: (changed: string[]) => void,
+		debounceMs: number = DEFAULT_DEBOUNCE_MS,
+	) {
+		if (onChange) this.listeners.add(onChange);
+		this.debounceMs = debounceMs;
+
+		for (const root of outermostPaths(paths)) {
+			if (!existsSync(root) || !statSync(root).isDirectory()) continue;
+
+			try {
+				this.track(
+					root,
+					watch(root, { recursive: true }, (_event, filename) =>
+						this.record(root, filename),
+					),
+				);
+			} catch {
+				// Recursive watching unsupported on this platform
+				this.watchTree(root);
+			}
+		}
+	}
+
+	/**
+	 * Number of underlying fs watchers (for diagnostics and tests).
+	 */
+	get size(): number {
+		return this.watchers.size;
+	}
+
+	/**
+	 * Report changes to another listener as well, so several servers can
+	 * share one set of fs watchers.
+	 *
+	 * @returns Function removing the listener.
+	 */
+	subscribe(listener: (changed: string[]) => void): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Stop watching and drop any pending changes.
+	 */
+	close(): void {
+		this.closed = true;
+		clearTimeout(this.timer);
+		for (const watcher of this.watchers.values()) {
+			watcher.close();
+		}
+		this.watchers.clear();
+		this.pending.clear();
+	}
+
+	/**
+	 * Keep a watcher, dropping it if its directory goes away.
+	 */
+	private track(dir: string, watcher: FSWatcher): void {
+		watcher.on("error", () => {
+			watcher.close();
+			this.watchers.delete(dir);
+		});
+		this.watchers.set(dir, watcher);
+	}
+
+	/**
+	 * Watch a directory and all its subdirectories non-recursively.
+	 */
+	private watchTree(dir: string): void {
+		if (this.watchers.has(dir)) return;
+
+		try {
+			this.track(
+				dir,
+				watch(dir, (_event, filename) => {
+					this.record(dir, filename);
+					// A new subdirectory needs its own watcher
+					if (filename && !isIgnored(filename.toString())) {
+						const child = join(dir, filename.toString());
+						if (existsSync(child) && statSync(child).isDirectory()) {
+							this.watchTree(child);
+						}
+					}
+				}),
+			);
+
+			for (const item of readdirSync(dir)) {
+				const child = join(dir, item);
+				if (!isIgnored(item) && statSync(child).isDirectory()) {
+					this.watchTree(child);
+				}
+			}
+		} catch {
+			// Directory vanished or is unreadable
+		}
+	}
+
+	/**
+	 * Queue a changed path and (re)start the debounce timer.
+	 */
+	private record(dir: string, filename: string | Buffer | null): void {
+		if (this.closed) return;
+
+		const relativePath = filename?.toString() ?? "";
+		if (isIgnored(relativePath)) return;
+
+		this.pending.add(join(dir, relativePath));
+		clearTimeout(this.timer);
+		this.timer = setTimeout(() => this.flush(), this.debounceMs);
+	}
+
+	/**
+	 * Report all queued paths at once.
+	 */
+	private flush(): void {
+		const changed = [...this.pending].sort();
+		this.pending.clear();
+		if (changed.length > 0 && !this.closed) {
+			for (const listener of [...this.listeners]) listener(changed);
+		}
+	}
+}
@@ -8,7 +8,7 @@ import { join } from "node:path";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
 import dedent from "dedent";
-import { createServer } from "../../src/index.js";
+import { type CreateServerOptions, createServer } from "../../src/index.js";
 
 /**
  * Create a unique temporary directory for tests.
@@ -148,11 +148,14 @@ export function createPromptFixtures(baseDir: string): void {
 /**
  * Set up a connected MCP client and server for testing.
  */
-export async function setupClientServer(testDir: string): Promise<{
+export async function setupClientServer(
+	testDir: string,
+	options: CreateServerOptions = {},
+): Promise<{
 	client: Client;
 	cleanup: () => Promise<void>;
 }> {
-	const server = createServer([testDir], false);
+	const server = createServer([testDir], false, options);
 	const [clientTransport, serverTransport] =
 		InMemoryTransport.createLinkedPair();
 
@@ -0,0 +1,290 @@
+/**
+ * Integration tests for the streamable HTTP transport.
+ */
+
+import { mkdirSync, writeFileSync } from "node:fs";
+import { request, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { defaultAllowedHosts } from "../../src/httpServer.js";
+import { runHttpServer } from "../../src/index.js";
+import {
+	cleanupTestDir,
+	createSkillFixtures,
+	createTestDir,
+} from "./fixtures.js";
+
+const INITIALIZE_REQUEST = {
+	jsonrpc: "2.0",
+	id: 1,
+	method: "initialize",
+	params: {
+		protocolVersion: "2025-06-18",
+		capabilities: {},
+		clientInfo: { name: "test-client", version: "1.0.0" },
+	},
+};
+
+describe("HTTP transport", () => {
+	let testDir: string;
+	let httpServer: Server;
+	let baseUrl: string;
+
+	beforeEach(async () => {
+		testDir = createTestDir();
+		createSkillFixtures(testDir);
+		httpServer = await runHttpServer(
+			[testDir],
+			false,
+			{},
+			{ port: 0, host: "127.0.0.1" },
+		);
+		const { port } = httpServer.address() as AddressInfo;
+		baseUrl = `http://127.0.0.1:${port}`;
+	});
+
+	afterEach(async () => {
+		httpServer.closeAllConnections();
+		await new Promise((resolve) => httpServer.close(resolve));
+		cleanupTestDir(testDir);
+	});
+
+	it("serves tools to an MCP client", async () => {
+		const client = new Client({ name: "test-client", version: "1.0.0" });
+		const transport = new StreamableHTTPClientTransport(
+			new URL(`${baseUrl}/mcp`),
+		);
+		await client.connect(transport);
+
+		expect(transport.sessionId).toBeDefined();
+		const result = await client.listTools();
+		expect(result.tools.map((t) => t.name)).toContain("skillkit_get_skill");
+
+		await transport.terminateSession();
+		await client.close();
+	});
+
+	it("reports health and session count", async () => {
+		const response = await fetch(`${baseUrl}/healthz`);
+
+		expect(response.status).toBe(200);
+		const body = (await response.json()) as {
+			status: string;
+			sessions: number;
+		};
+		expect(body.status).toBe("ok");
+		expect(body.sessions).toBe(0);
+	});
+
+	it("rejects requests with an unexpected Host header", async () => {
+		// fetch() does not allow overriding Host, so use node:http directly
+		const { port } = httpServer.address() as AddressInfo;
+		const status = await new Promise<number | undefined>((resolve, reject) => {
+			const req = request(
+				{
+					host: "127.0.0.1",
+					port,
+					path: "/mcp",
+					method: "POST",
+					headers: {
+						Host: "evil.example.com",
+						"Content-Type": "application/json",
+						Accept: "application/json, text/event-stream",
+					},
+				},
+				(res) => {
+					res.resume();
+					resolve(res.statusCode);
+				},
+			);
+			req.on("error", reject);
+			req.end(JSON.stringify(INITIALIZE_REQUEST));
+		});
+
+		expect(status).toBe(403);
+	});
+
+	it("rejects requests from a foreign Origin", async () => {
+		const response = await fetch(`${baseUrl}/mcp`, {
+			method: "POST",
+			headers: {
+				Origin: "http://evil.example.com",
+				"Content-Type": "application/json",
+				Accept: "application/json, text/event-stream",
+			},
+			body: JSON.stringify(INITIALIZE_REQUEST),
+		});
+
+		expect(response.status).toBe(403);
+	});
+
+	it("rejects non-initialize requests without a session", async () => {
+		const response = await fetch(`${baseUrl}/mcp`, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Accept: "application/json, text/event-stream",
+			},
+			body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+		});
+
+		expect(response.status).toBe(400);
+	});
+
+	it("returns 404 for unknown sessions", async () => {
+		const response = await fetch(`${baseUrl}/mcp`, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Accept: "application/json, text/event-stream",
+				"Mcp-Session-Id": "does-not-exist",
+			},
+			body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+		});
+
+		expect(response.status).toBe(404);
+	});
+});
+
+describe("HTTP transport session expiry", () => {
+	let testDir: string;
+	let httpServer: Server;
+	let baseUrl: string;
+
+	beforeEach(async () => {
+		testDir = createTestDir();
+		createSkillFixtures(testDir);
+		httpServer = await runHttpServer(
+			[testDir],
+			false,
+			{ watch: true },
+			{ port: 0, host: "127.0.0.1", sessionIdleTimeoutMs: 100 },
+		);
+		const { port } = httpServer.address() as AddressInfo;
+		baseUrl = `http://127.0.0.1:${port}`;
+	});
+
+	afterEach(async () => {
+		httpServer.closeAllConnections();
+		await new Promise((resolve) => httpServer.close(resolve));
+		cleanupTestDir(testDir);
+	});
+
+	async function sessionCount(): Promise<number> {
+		const response = await fetch(`${baseUrl}/healthz`);
+		return ((await response.json()) as { sessions: number }).sessions;
+	}
+
+	async function connect(): Promise<Client> {
+		const client = new Client({ name: "test-client", version: "1.0.0" });
+		await client.connect(
+			new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)),
+		);
+		await client.listTools();
+		return client;
+	}
+
+	it("closes sessions of clients that left without DELETE", async () => {
+		const gone = await connect();
+		const connected = await connect();
+		expect(await sessionCount()).toBe(2);
+
+		// Closing the client drops its connections without ending the session
+		await gone.close();
+		const deadline = Date.now() + 3000;
+		while ((await sessionCount()) > 1 && Date.now() < deadline) {
+			await new Promise((r) => setTimeout(r, 50));
+		}
+
+		expect(await sessionCount()).toBe(1);
+		// The client with an open notification stream keeps its session
+		const result = await connected.listTools();
+		expect(result.tools.length).toBeGreaterThan(0);
+		await connected.close();
+	});
+});
+
+describe("HTTP transport live reload", () => {
+	let testDir: string;
+	let httpServer: Server;
+	let baseUrl: string;
+
+	beforeEach(async () => {
+		testDir = createTestDir();
+		createSkillFixtures(testDir);
+		httpServer = await runHttpServer(
+			[testDir],
+			false,
+			{ watch: true, watchDebounceMs: 50 },
+			{ port: 0, host: "127.0.0.1" },
+		);
+		const { port } = httpServer.address() as AddressInfo;
+		baseUrl = `http://127.0.0.1:${port}`;
+	});
+
+	afterEach(async () => {
+		httpServer.closeAllConnections();
+		await new Promise((resolve) => httpServer.close(resolve));
+		cleanupTestDir(testDir);
+	});
+
+	async function connect(onToolsChanged: () => void): Promise<Client> {
+		const client = new Client({ name: "test-client", version: "1.0.0" });
+		client.setNotificationHandler(
+			ToolListChangedNotificationSchema,
+			onToolsChanged,
+		);
+		await client.connect(
+			new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)),
+		);
+		await client.listTools();
+		return client;
+	}
+
+	async function addSkill(name: string): Promise<void> {
+		mkdirSync(join(testDir, "skills", name), { recursive: true });
+		writeFileSync(
+			join(testDir, "skills", name, "SKILL.md"),
+			`---\nname: ${name}\ndescription: ${name}\n---\n\nBody.\n`,
+		);
+		await new Promise((r) => setTimeout(r, 300));
+	}
+
+	it("notifies every session from one watcher", async () => {
+		let first = 0;
+		let second = 0;
+		const firstClient = await connect(() => first++);
+		const secondClient = await connect(() => second++);
+
+		await addSkill("added-skill");
+		expect(first).toBe(1);
+		expect(second).toBe(1);
+
+		// A closed session stops receiving changes; the others keep them
+		await firstClient.close();
+		await addSkill("another-skill");
+		expect(first).toBe(1);
+		expect(second).toBe(2);
+		await secondClient.close();
+	});
+});
+
+describe("defaultAllowedHosts", () => {
+	it("allows all loopback names for loopback binds", () => {
+		expect(defaultAllowedHosts("127.0.0.1", 3333)).toEqual([
+			"localhost:3333",
+			"127.0.0.1:3333",
+			"[::1]:3333",
+		]);
+	});
+
+	it("allows only the bound host otherwise", () => {
+		expect(defaultAllowedHosts("skills.internal", 80)).toEqual([
+			"skills.internal:80",
+		]);
+	});
+});
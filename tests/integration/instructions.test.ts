@@ -0,0 +1,60 @@
+/**
+ * Integration tests for the instructions sent on initialize.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	cleanupTestDir,
+	createPromptFixtures,
+	createSkillFixtures,
+	createTestDir,
+	setupClientServer,
+} from "./fixtures.js";
+
+describe("MCP Server Instructions", () => {
+	let testDir: string;
+	let cleanup: (() => Promise<void>) | undefined;
+
+	beforeEach(() => {
+		testDir = createTestDir();
+		createSkillFixtures(testDir);
+		createPromptFixtures(testDir);
+	});
+
+	afterEach(async () => {
+		await cleanup?.();
+		cleanup = undefined;
+		cleanupTestDir(testDir);
+	});
+
+	it("summarises the skill catalog", async () => {
+		const setup = await setupClientServer(testDir);
+		cleanup = setup.cleanup;
+
+		const instructions = setup.client.getInstructions();
+		expect(instructions).toContain("SkillKit provides 2 skills");
+		expect(instructions).toContain(
+			"- test-skill: A test skill for integration testing",
+		);
+		expect(instructions).toContain("another-skill");
+	});
+
+	it("uses the configured template and size cap", async () => {
+		const setup = await setupClientServer(testDir, {
+			instructionsTemplate: "Skills: {{skills}}",
+			instructionsMaxLength: 90,
+		});
+		cleanup = setup.cleanup;
+
+		expect(setup.client.getInstructions()).toBe(
+			"Skills: - another-skill: Another test skill\n- ...and 1 more (see skillkit_list_skills)",
+		);
+	});
+
+	it("can be turned off", async () => {
+		const setup = await setupClientServer(testDir, { instructions: false });
+		cleanup = setup.cleanup;
+
+		expect(setup.client.getInstructions()).toBeUndefined();
+	});
+});
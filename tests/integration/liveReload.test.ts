@@ -0,0 +1,216 @@
+/**
+ * Integration tests for live reload of skills and prompts.
+ */
+
+import { existsSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+	PromptListChangedNotificationSchema,
+	ResourceListChangedNotificationSchema,
+	ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import dedent from "dedent";
+import {
+	cleanupTestDir,
+	createPromptFixtures,
+	createSkillFixtures,
+	createTestDir,
+	setupClientServer,
+} from "./fixtures.js";
+
+/**
+ * Wait until a condition holds, polling every 25ms.
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 3000) {
+	const deadline = Date.now() + timeoutMs;
+	while (!condition()) {
+		if (Date.now() > deadline) throw new Error("Timed out waiting");
+		await new Promise((r) => setTimeout(r, 25));
+	}
+}
+
+describe("MCP Server Live Reload", () => {
+	let testDir: string;
+	let client: Client;
+	let cleanup: () => Promise<void>;
+	const notifications: string[] = [];
+
+	beforeEach(async () => {
+		notifications.length = 0;
+		testDir = createTestDir();
+		createSkillFixtures(testDir);
+		createPromptFixtures(testDir);
+		const setup = await setupClientServer(testDir, {
+			watch: true,
+			watchDebounceMs: 50,
+		});
+		client = setup.client;
+		cleanup = setup.cleanup;
+
+		client.setNotificationHandler(PromptListChangedNotificationSchema, () => {
+			notifications.push("prompts");
+		});
+		client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+			notifications.push("tools");
+		});
+		client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+			notifications.push("resources");
+		});
+	});
+
+	afterEach(async () => {
+		await cleanup();
+		cleanupTestDir(testDir);
+	});
+
+	it("registers new prompts and notifies the client", async () => {
+		writeFileSync(
+			join(testDir, "prompts", "added-prompt.md"),
+			dedent`---
+				name: added-prompt
+				description: Added while running
+				---
+
+				New prompt body.
+			`,
+		);
+
+		await waitFor(() => notifications.includes("prompts"));
+		const result = await client.listPrompts();
+		expect(result.prompts.map((p) => p.name)).toContain("added-prompt");
+		expect(notifications).not.toContain("tools");
+	});
+
+	it("removes deleted prompts", async () => {
+		rmSync(join(testDir, "prompts", "simple-prompt.md"));
+
+		await waitFor(() => notifications.includes("prompts"));
+		const result = await client.listPrompts();
+		expect(result.prompts.map((p) => p.name)).not.toContain("simple-prompt");
+	});
+
+	it("notifies tool and resource list changes when skills change", async () => {
+		writeFileSync(
+			join(testDir, "skills", "another-skill", "SKILL.md"),
+			dedent`---
+				name: another-skill
+				description: Edited description
+				---
+
+				Edited.
+			`,
+		);
+
+		await waitFor(
+			() =>
+				notifications.includes("tools") && notifications.includes("resources"),
+		);
+		expect(notifications).not.toContain("prompts");
+	});
+});
+
+describe("MCP Server Live Reload with telemetry", () => {
+	let testDir: string;
+	let client: Client;
+	let cleanup: () => Promise<void>;
+	const notifications: string[] = [];
+
+	beforeEach(async () => {
+		notifications.length = 0;
+		testDir = createTestDir();
+		createSkillFixtures(testDir);
+		const setup = await setupClientServer(testDir, {
+			watch: true,
+			watchDebounceMs: 50,
+			usageLog: true,
+			usageLogPath: join(testDir, "usage.jsonl"),
+		});
+		client = setup.client;
+		cleanup = setup.cleanup;
+
+		client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+			notifications.push("tools");
+		});
+		client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+			notifications.push("resources");
+		});
+	});
+
+	afterEach(async () => {
+		await cleanup();
+		cleanupTestDir(testDir);
+	});
+
+	it("does not notify when the usage log in the source root is written", async () => {
+		for (let i = 0; i < 3; i++) {
+			await client.callTool({ name: "skillkit_list_skills", arguments: {} });
+		}
+		await new Promise((r) => setTimeout(r, 300));
+
+		expect(existsSync(join(testDir, "usage.jsonl"))).toBe(true);
+		expect(notifications).toEqual([]);
+	});
+});
+
+describe("MCP Server Live Reload of skill tools", () => {
+	let testDir: string;
+	let client: Client;
+	let cleanup: () => Promise<void>;
+
+	beforeEach(async () => {
+		testDir = createTestDir();
+		createSkillFixtures(testDir);
+		const setup = await setupClientServer(testDir, {
+			watch: true,
+			watchDebounceMs: 50,
+			exposeSkillsAsTools: true,
+		});
+		client = setup.client;
+		cleanup = setup.cleanup;
+	});
+
+	afterEach(async () => {
+		await cleanup();
+		cleanupTestDir(testDir);
+	});
+
+	async function skillToolDescriptions(): Promise<Record<string, string>> {
+		const result = await client.listTools();
+		return Object.fromEntries(
+			result.tools
+				.filter((tool) => tool.name.startsWith("skill_"))
+				.map((tool) => [tool.name, tool.description ?? ""]),
+		);
+	}
+
+	it("re-registers tools when skills are edited or removed", async () => {
+		writeFileSync(
+			join(testDir, "skills", "another-skill", "SKILL.md"),
+			dedent`---
+				name: another-skill
+				description: Edited description
+				---
+
+				Edited.
+			`,
+		);
+		rmSync(join(testDir, "skills", "test-skill"), { recursive: true });
+
+		// Poll the tool list, since the edit and the removal may be reported
+		// in separate bursts
+		const deadline = Date.now() + 3000;
+		const settled = (tools: Record<string, string>) =>
+			Object.keys(tools).length === 1 &&
+			tools["skill_another-skill"]?.startsWith("Edited description");
+		let tools = await skillToolDescriptions();
+		while (!settled(tools) && Date.now() < deadline) {
+			await new Promise((r) => setTimeout(r, 25));
+			tools = await skillToolDescriptions();
+		}
+		expect(tools).toEqual({
+			"skill_another-skill": expect.stringContaining("Edited description"),
+		});
+	});
+});
@@ -0,0 +1,132 @@
+/**
+ * Integration tests for MCP server logging notifications.
+ */
+
+import { mkdirSync } from "node:fs";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+	type LoggingMessageNotification,
+	LoggingMessageNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { type CreateServerOptions, createServer } from "../../src/index.js";
+import { Logger } from "../../src/logger.js";
+import {
+	cleanupTestDir,
+	createSkillFixtures,
+	createTestDir,
+} from "./fixtures.js";
+
+type LogParams = LoggingMessageNotification["params"];
+
+describe("MCP Server Logging", () => {
+	let testDir: string;
+	let cleanup: (() => Promise<void>) | undefined;
+
+	beforeEach(() => {
+		testDir = createTestDir();
+		createSkillFixtures(testDir);
+		mkdirSync(join(testDir, "skills", "half-written"), { recursive: true });
+	});
+
+	afterEach(async () => {
+		await cleanup?.();
+		cleanup = undefined;
+		cleanupTestDir(testDir);
+	});
+
+	// Connect a client that records log notifications from the start, so
+	// entries replayed right after initialization are not missed
+	async function connect(
+		options: CreateServerOptions = {},
+	): Promise<{ client: Client; messages: LogParams[] }> {
+		const server = createServer([testDir], false, options);
+		const [clientTransport, serverTransport] =
+			InMemoryTransport.createLinkedPair();
+		await server.connect(serverTransport);
+
+		const client = new Client({ name: "test-client", version: "1.0.0" });
+		const messages: LogParams[] = [];
+		client.setNotificationHandler(
+			LoggingMessageNotificationSchema,
+			(notification) => {
+				messages.push(notification.params);
+			},
+		);
+		await client.connect(clientTransport);
+
+		cleanup = async () => {
+			await client.close();
+			await server.close();
+		};
+		return { client, messages };
+	}
+
+	it("declares the logging capability", async () => {
+		const { client } = await connect();
+
+		expect(client.getServerCapabilities()?.logging).toEqual({});
+	});
+
+	it("sends skipped skill directories as warnings", async () => {
+		const { client, messages } = await connect();
+
+		await client.callTool({ name: "skillkit_list_skills", arguments: {} });
+
+		expect(messages).toContainEqual({
+			level: "warning",
+			logger: "skills",
+			data: {
+				message: `Skipped ${join(testDir, "skills", "half-written")}: no SKILL.md`,
+				skill: "half-written",
+			},
+		});
+	});
+
+	it("honours logging/setLevel", async () => {
+		const { client, messages } = await connect();
+		const about = (dir: string) =>
+			messages.filter((m) => JSON.stringify(m.data).includes(dir));
+
+		await client.setLoggingLevel("error");
+		mkdirSync(join(testDir, "skills", "added-later"));
+		await client.callTool({ name: "skillkit_list_skills", arguments: {} });
+		expect(about("added-later")).toEqual([]);
+
+		await client.setLoggingLevel("warning");
+		mkdirSync(join(testDir, "skills", "added-last"));
+		await client.callTool({ name: "skillkit_list_skills", arguments: {} });
+		expect(about("added-last")).toHaveLength(1);
+	});
+
+	it("replays entries logged before the client connected", async () => {
+		const logger = new Logger();
+		logger.log("info", "git", "Cloned https://example.com/skills.git@main");
+		logger.log("debug", "git", "below the default level");
+
+		const { client, messages } = await connect({ logger });
+		await client.ping();
+
+		expect(messages.filter((m) => m.logger === "git")).toEqual([
+			{
+				level: "info",
+				logger: "git",
+				data: "Cloned https://example.com/skills.git@main",
+			},
+		]);
+	});
+
+	it("starts at the configured level", async () => {
+		const logger = new Logger();
+		logger.log("debug", "git", "fetching");
+
+		const { client, messages } = await connect({ logger, logLevel: "debug" });
+		await client.ping();
+
+		expect(
+			messages.filter((m) => m.logger === "git").map((m) => m.data),
+		).toEqual(["fetching"]);
+	});
+});
@@ -2,12 +2,16 @@
  * Integration tests for MCP server prompts.
  */
 
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import dedent from "dedent";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import type { TextContent } from "@modelcontextprotocol/sdk/types.js";
 import {
 	cleanupTestDir,
 	createPromptFixtures,
+	createSkillFixtures,
 	createTestDir,
 	setupClientServer,
 } from "./fixtures.js";
@@ -119,3 +123,156 @@ describe("MCP Server Prompts", () => {
 		).rejects.toThrow();
 	});
 });
+
+describe("MCP Server Prompt Argument Types", () => {
+	let testDir: string;
+	let client: Client;
+	let cleanup: () => Promise<void>;
+
+	beforeEach(async () => {
+		testDir = createTestDir();
+		createPromptFixtures(testDir);
+		writeFileSync(
+			join(testDir, "prompts", "deploy.md"),
+			dedent`---
+				name: deploy
+				description: Deploy services
+				arguments:
+				  services:
+				    type: string[]
+				    description: Services to deploy
+				  replicas:
+				    type: number
+				    description: Replica count
+				    min: 1
+				    max: 10
+				  config:
+				    type: json
+				    description: Extra settings
+				    required: false
+				---
+
+				Deploy {{services}} with {{replicas}} replicas. Settings: {{config}}
+			`,
+		);
+		const setup = await setupClientServer(testDir);
+		client = setup.client;
+		cleanup = setup.cleanup;
+	});
+
+	afterEach(async () => {
+		await cleanup();
+		cleanupTestDir(testDir);
+	});
+
+	it("lists required and optional arguments", async () => {
+		const result = await client.listPrompts();
+		const deploy = result.prompts.find((p) => p.name === "deploy");
+
+		expect(deploy?.arguments).toEqual([
+			{ name: "services", description: "Services to deploy", required: true },
+			{ name: "replicas", description: "Replica count", required: true },
+			{ name: "config", description: "Extra settings", required: false },
+		]);
+	});
+
+	it("coerces string arguments before substitution", async () => {
+		const result = await client.getPrompt({
+			name: "deploy",
+			arguments: {
+				services: "api, web",
+				replicas: "3",
+				config: '{"region":"eu"}',
+			},
+		});
+
+		const text = (result.messages[0].content as TextContent).text;
+		expect(text).toContain("Deploy api, web with 3 replicas.");
+		expect(text).toContain('"region": "eu"');
+	});
+
+	it("rejects values that violate constraints", async () => {
+		await expect(
+			client.getPrompt({
+				name: "deploy",
+				arguments: { services: "api", replicas: "50" },
+			}),
+		).rejects.toThrow(/replicas/);
+	});
+});
+
+describe("MCP Server Completions", () => {
+	let testDir: string;
+	let client: Client;
+	let cleanup: () => Promise<void>;
+
+	beforeEach(async () => {
+		testDir = createTestDir();
+		createSkillFixtures(testDir);
+		createPromptFixtures(testDir);
+		writeFileSync(
+			join(testDir, "prompts", "apply-skill.md"),
+			dedent`---
+				name: apply-skill
+				description: Apply a skill to an environment
+				arguments:
+				  skill:
+				    description: Skill to apply
+				  env:
+				    description: Target environment
+				    enum: [staging, production]
+				---
+
+				Use {{skill}} on {{env}}.
+			`,
+		);
+		const setup = await setupClientServer(testDir);
+		client = setup.client;
+		cleanup = setup.cleanup;
+	});
+
+	afterEach(async () => {
+		await cleanup();
+		cleanupTestDir(testDir);
+	});
+
+	it("advertises the completions capability", () => {
+		expect(client.getServerCapabilities()?.completions).toBeDefined();
+	});
+
+	it("completes skill arguments against skill names", async () => {
+		const result = await client.complete({
+			ref: { type: "ref/prompt", name: "apply-skill" },
+			argument: { name: "skill", value: "ano" },
+		});
+
+		expect(result.completion.values).toEqual(["another-skill"]);
+	});
+
+	it("completes enum arguments", async () => {
+		const result = await client.complete({
+			ref: { type: "ref/prompt", name: "apply-skill" },
+			argument: { name: "env", value: "" },
+		});
+
+		expect(result.completion.values).toEqual(["staging", "production"]);
+	});
+
+	it("returns no completions for free-text arguments", async () => {
+		const result = await client.complete({
+			ref: { type: "ref/prompt", name: "test-prompt" },
+			argument: { name: "feature_name", value: "a" },
+		});
+
+		expect(result.completion.values).toEqual([]);
+	});
+
+	it("completes skill names in resource templates", async () => {
+		const result = await client.complete({
+			ref: { type: "ref/resource", uri: "skillkit://skills/{name}/SKILL.md" },
+			argument: { name: "name", value: "test" },
+		});
+
+		expect(result.completion.values).toEqual(["test-skill"]);
+	});
+});
@@ -0,0 +1,118 @@
+/**
+ * Integration tests for MCP server resources.
+ */
+
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { TextResourceContents } from "@modelcontextprotocol/sdk/types.js";
+import {
+	cleanupTestDir,
+	createSkillFixtures,
+	createTestDir,
+	setupClientServer,
+} from "./fixtures.js";
+
+describe("MCP Server Resources", () => {
+	let testDir: string;
+	let client: Client;
+	let cleanup: () => Promise<void>;
+
+	beforeEach(async () => {
+		testDir = createTestDir();
+		createSkillFixtures(testDir);
+		const setup = await setupClientServer(testDir);
+		client = setup.client;
+		cleanup = setup.cleanup;
+	});
+
+	afterEach(async () => {
+		await cleanup();
+		cleanupTestDir(testDir);
+	});
+
+	it("lists resource templates", async () => {
+		const result = await client.listResourceTemplates();
+		const templates = result.resourceTemplates.map((t) => t.uriTemplate);
+
+		expect(templates).toContain("skillkit://skills/{name}/SKILL.md");
+		expect(templates).toContain("skillkit://skills/{name}/scripts/{file}");
+		expect(templates).toContain("skillkit://skills/{name}/references/{file}");
+	});
+
+	it("lists skill files as resources with mime types", async () => {
+		const result = await client.listResources();
+		const byUri = new Map(result.resources.map((r) => [r.uri, r]));
+
+		expect(byUri.get("skillkit://skills/test-skill/SKILL.md")).toMatchObject({
+			name: "test-skill",
+			description: "A test skill for integration testing",
+			mimeType: "text/markdown",
+		});
+		expect(byUri.get("skillkit://skills/another-skill/SKILL.md")).toBeDefined();
+		expect(
+			byUri.get("skillkit://skills/test-skill/scripts/validate.sh")?.mimeType,
+		).toBe("application/x-sh");
+		expect(
+			byUri.get("skillkit://skills/test-skill/references/guide.md")?.mimeType,
+		).toBe("text/markdown");
+	});
+
+	it("reads SKILL.md", async () => {
+		const result = await client.readResource({
+			uri: "skillkit://skills/test-skill/SKILL.md",
+		});
+
+		expect(result.contents).toHaveLength(1);
+		expect(result.contents[0].mimeType).toBe("text/markdown");
+		const contents = result.contents as TextResourceContents[];
+		expect(contents[0].text).toContain("# Test Skill");
+	});
+
+	it("reads scripts and references", async () => {
+		const script = await client.readResource({
+			uri: "skillkit://skills/test-skill/scripts/validate.sh",
+		});
+		expect((script.contents as TextResourceContents[])[0].text).toContain(
+			'echo "Validating..."',
+		);
+
+		const reference = await client.readResource({
+			uri: "skillkit://skills/test-skill/references/guide.md",
+		});
+		expect((reference.contents as TextResourceContents[])[0].text).toContain(
+			"# Guide",
+		);
+	});
+
+	it("lists and reads files in nested folders", async () => {
+		const nestedDir = join(
+			testDir,
+			"skills",
+			"test-skill",
+			"references",
+			"api",
+		);
+		mkdirSync(nestedDir, { recursive: true });
+		writeFileSync(join(nestedDir, "auth.md"), "# Auth");
+
+		const { resources } = await client.listResources();
+		expect(resources.map((r) => r.uri)).toContain(
+			"skillkit://skills/test-skill/references/api%2Fauth.md",
+		);
+
+		const reference = await client.readResource({
+			uri: "skillkit://skills/test-skill/references/api%2Fauth.md",
+		});
+		expect((reference.contents as TextResourceContents[])[0].text).toBe(
+			"# Auth",
+		);
+	});
+
+	it("returns an error for unknown skills", async () => {
+		await expect(
+			client.readResource({ uri: "skillkit://skills/missing/SKILL.md" }),
+		).rejects.toThrow(/not found/);
+	});
+});
@@ -2,6 +2,8 @@
  * Integration tests for MCP server tools.
  */
 
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import type { TextContent } from "@modelcontextprotocol/sdk/types.js";
@@ -11,6 +13,8 @@ import {
 	createTestDir,
 	setupClientServer,
 } from "./fixtures.js";
+import { FeedbackStore } from "../../src/feedback.js";
+import { readUsageLog } from "../../src/usage.js";
 
 describe("MCP Server Tools", () => {
 	let testDir: string;
@@ -25,6 +29,14 @@ describe("MCP Server Tools", () => {
 		cleanup = setup.cleanup;
 	});
 
+	function writeRequiringSkill(name: string, requires: string[]): void {
+		mkdirSync(join(testDir, "skills", name), { recursive: true });
+		writeFileSync(
+			join(testDir, "skills", name, "SKILL.md"),
+			`---\nname: ${name}\ndescription: ${name}\nrequires: [${requires.join(", ")}]\n---\n\nBody.\n`,
+		);
+	}
+
 	afterEach(async () => {
 		await cleanup();
 		cleanupTestDir(testDir);
@@ -39,7 +51,12 @@ describe("MCP Server Tools", () => {
 		expect(toolNames).toContain("skillkit_get_script");
 		expect(toolNames).toContain("skillkit_get_reference");
 		expect(toolNames).toContain("skillkit_get_skill_paths");
-		expect(toolNames).toHaveLength(5);
+		expect(toolNames).toContain("skillkit_search_skills");
+		expect(toolNames).toContain("skillkit_create_skill");
+		expect(toolNames).toContain("skillkit_update_skill");
+		expect(toolNames).toContain("skillkit_report_feedback");
+		expect(toolNames).toContain("skillkit_get_sources");
+		expect(toolNames).toHaveLength(10);
 	});
 
 	it("skillkit_list_skills returns skill metadata", async () => {
@@ -70,6 +87,29 @@ describe("MCP Server Tools", () => {
 		expect(anotherSkill.description).toBe("Another test skill");
 	});
 
+	it("skillkit_list_skills reports sizes and filters by maxTokens", async () => {
+		const all = await client.callTool({
+			name: "skillkit_list_skills",
+			arguments: {},
+		});
+		const { skills } = all.structuredContent as {
+			skills: { name: string; tokens: number; files: { path: string }[] }[];
+		};
+		const testSkill = skills.find((s) => s.name === "test-skill");
+		expect(testSkill?.files.map((f) => f.path)).toEqual([
+			"scripts/validate.sh",
+			"references/guide.md",
+		]);
+
+		const smallest = Math.min(...skills.map((s) => s.tokens));
+		const filtered = await client.callTool({
+			name: "skillkit_list_skills",
+			arguments: { maxTokens: smallest },
+		});
+		const result = filtered.structuredContent as { skills: unknown[] };
+		expect(result.skills.length).toBeLessThan(skills.length);
+	});
+
 	it("skillkit_get_skill returns SKILL.md content", async () => {
 		const result = await client.callTool({
 			name: "skillkit_get_skill",
@@ -78,12 +118,153 @@ describe("MCP Server Tools", () => {
 
 		expect(result.isError).toBeFalsy();
 		const content = result.content as TextContent[];
-		expect(content).toHaveLength(1);
+		expect(content).toHaveLength(2);
 		expect(content[0].type).toBe("text");
 		expect(content[0].text).toContain("# Test Skill");
 		expect(content[0].text).toContain(
 			"This is a test skill with scripts and references.",
 		);
+		expect(content[1].text).toMatch(/^Content hash: [0-9a-f]{16}$/);
+	});
+
+	it("skillkit_get_skill returns structured skill details", async () => {
+		const result = await client.callTool({
+			name: "skillkit_get_skill",
+			arguments: { name: "test-skill" },
+		});
+
+		const details = result.structuredContent as Record<string, unknown>;
+		expect(details).toMatchObject({
+			name: "test-skill",
+			source: { path: testDir, kind: "local" },
+			frontmatter: {
+				name: "test-skill",
+				description: "A test skill for integration testing",
+			},
+			scripts: [
+				expect.objectContaining({
+					name: "validate.sh",
+					type: "application/x-sh",
+				}),
+			],
+			references: [
+				expect.objectContaining({ name: "guide.md", type: "text/markdown" }),
+			],
+		});
+		expect(details.body).toContain("# Test Skill");
+		expect(details.body).not.toContain("description:");
+		expect((result.content as TextContent[])[1].text).toBe(
+			`Content hash: ${details.hash}`,
+		);
+	});
+
+	it("skillkit_get_skill structured body follows the sections argument", async () => {
+		const result = await client.callTool({
+			name: "skillkit_get_skill",
+			arguments: { name: "test-skill", sections: ["Scripts"] },
+		});
+
+		expect((result.structuredContent as { body: string }).body).toBe(
+			"## Scripts\n- validate.sh",
+		);
+	});
+
+	it("skillkit_get_skill returns the outline in toc mode", async () => {
+		const result = await client.callTool({
+			name: "skillkit_get_skill",
+			arguments: { name: "test-skill", sections: "toc" },
+		});
+
+		expect(result.isError).toBeFalsy();
+		expect((result.content as TextContent[])[0].text).toBe(
+			" 6: # Test Skill\n10: ## Scripts\n13: ## References",
+		);
+	});
+
+	it("skillkit_get_skill returns only the requested sections", async () => {
+		const result = await client.callTool({
+			name: "skillkit_get_skill",
+			arguments: { name: "test-skill", sections: ["References", "Scripts"] },
+		});
+
+		expect(result.isError).toBeFalsy();
+		expect((result.content as TextContent[])[0].text).toBe(
+			"## References\n- guide.md\n\n## Scripts\n- validate.sh",
+		);
+	});
+
+	it("skillkit_get_skill lists required skills in load order", async () => {
+		writeRequiringSkill("deploy", ["k8s-conventions"]);
+		writeRequiringSkill("k8s-conventions", ["test-skill"]);
+
+		const result = await client.callTool({
+			name: "skillkit_get_skill",
+			arguments: { name: "deploy" },
+		});
+
+		expect(result.isError).toBeFalsy();
+		const content = result.content as TextContent[];
+		expect(content[0].text).toBe(
+			"Requires (load in this order first): test-skill, k8s-conventions",
+		);
+		expect(content[1].text).toContain("name: deploy");
+		expect(
+			(result.structuredContent as { dependencies: string[] }).dependencies,
+		).toEqual(["test-skill", "k8s-conventions"]);
+	});
+
+	it("skillkit_get_skill inlines required skills on request", async () => {
+		writeRequiringSkill("deploy", ["k8s-conventions"]);
+		writeRequiringSkill("k8s-conventions", ["test-skill"]);
+
+		const result = await client.callTool({
+			name: "skillkit_get_skill",
+			arguments: { name: "deploy", inlineDependencies: true },
+		});
+
+		const content = result.content as TextContent[];
+		expect(content.map((c) => c.text.split("\n")[0])).toEqual([
+			"Required skill 'test-skill':",
+			"Required skill 'k8s-conventions':",
+			"---",
+			expect.stringMatching(/^Content hash: /),
+		]);
+		expect(content[0].text).toContain("# Test Skill");
+	});
+
+	it("skillkit_get_skill picks a version by range", async () => {
+		for (const [folder, version] of [
+			["deploy", "1.4.0"],
+			["deploy@2", "2.0.0"],
+		]) {
+			mkdirSync(join(testDir, "skills", folder), { recursive: true });
+			writeFileSync(
+				join(testDir, "skills", folder, "SKILL.md"),
+				`---\nname: deploy\ndescription: Deploy\nversion: ${version}\n---\n\nVersion ${version}.\n`,
+			);
+		}
+
+		const latest = await client.callTool({
+			name: "skillkit_get_skill",
+			arguments: { name: "deploy" },
+		});
+		const pinned = await client.callTool({
+			name: "skillkit_get_skill",
+			arguments: { name: "deploy", version: "^1" },
+		});
+		const missing = await client.callTool({
+			name: "skillkit_get_skill",
+			arguments: { name: "deploy", version: "3" },
+		});
+
+		expect(latest.structuredContent).toMatchObject({ version: "2.0.0" });
+		expect((pinned.content as TextContent[])[0].text).toContain(
+			"Version 1.4.0.",
+		);
+		expect(missing.isError).toBe(true);
+		expect((missing.content as TextContent[])[0].text).toContain(
+			"no version matching '3'",
+		);
 	});
 
 	it("skillkit_get_script returns script content", async () => {
@@ -108,7 +289,7 @@ describe("MCP Server Tools", () => {
 
 		expect(result.isError).toBeFalsy();
 		const content = result.content as TextContent[];
-		expect(content).toHaveLength(1);
+		expect(content).toHaveLength(2);
 		expect(content[0].type).toBe("text");
 		expect(content[0].text).toContain("# Guide");
 		expect(content[0].text).toContain(
@@ -116,6 +297,37 @@ describe("MCP Server Tools", () => {
 		);
 	});
 
+	it("skillkit_get_reference returns a table of contents", async () => {
+		const result = await client.callTool({
+			name: "skillkit_get_reference",
+			arguments: { skill: "test-skill", filename: "guide.md", toc: true },
+		});
+
+		expect(result.isError).toBeFalsy();
+		const content = result.content as TextContent[];
+		expect(content[0].text).toBe("1: # Guide");
+		expect(content[1].text).toMatch(/^Total lines: \d+$/);
+	});
+
+	it("skillkit_get_reference pages through lines", async () => {
+		const result = await client.callTool({
+			name: "skillkit_get_reference",
+			arguments: {
+				skill: "test-skill",
+				filename: "guide.md",
+				section: "Guide",
+				limit: 1,
+			},
+		});
+
+		expect(result.isError).toBeFalsy();
+		const content = result.content as TextContent[];
+		expect(content[0].text).toBe("# Guide");
+		expect(content[1].text).toMatch(
+			/^Lines 1-1 of \d+ in section 'Guide'\. Continue with offset=2\.$/,
+		);
+	});
+
 	it("skillkit_get_skill_paths returns configured paths", async () => {
 		const result = await client.callTool({
 			name: "skillkit_get_skill_paths",
@@ -132,6 +344,173 @@ describe("MCP Server Tools", () => {
 		expect(paths).toContain(testDir);
 	});
 
+	it("skillkit_get_sources lists each source and what it serves", async () => {
+		const result = await client.callTool({
+			name: "skillkit_get_sources",
+			arguments: {},
+		});
+
+		expect(result.isError).toBeFalsy();
+		const { sources } = result.structuredContent as {
+			sources: { path: string; origin: string; skills: string[] }[];
+		};
+		expect(sources).toHaveLength(1);
+		expect(sources[0]).toMatchObject({
+			path: testDir,
+			origin: "cli",
+			kind: "local",
+			exists: true,
+			shadowed: [],
+		});
+		expect(sources[0].skills).toContain("test-skill");
+		const content = result.content as TextContent[];
+		expect(content[0].text).toContain(`1. ${testDir}`);
+	});
+
+	it("skillkit_search_skills returns ranked matches", async () => {
+		const result = await client.callTool({
+			name: "skillkit_search_skills",
+			arguments: { query: "guide", limit: 5 },
+		});
+
+		expect(result.isError).toBeFalsy();
+		const { results } = result.structuredContent as {
+			results: { name: string; snippets: string[] }[];
+		};
+		expect(results).toHaveLength(1);
+		expect(results[0].name).toBe("test-skill");
+		expect(results[0].snippets).toContain("references/guide.md");
+	});
+
+	it("skillkit_create_skill writes a discoverable skill", async () => {
+		const result = await client.callTool({
+			name: "skillkit_create_skill",
+			arguments: {
+				name: "created-skill",
+				description: "Created through MCP",
+				body: "# Created Skill\n\nFollow these steps.",
+				references: { "notes.md": "# Notes" },
+			},
+		});
+
+		expect(result.isError).toBeFalsy();
+		expect(result.structuredContent).toMatchObject({
+			name: "created-skill",
+			files: ["SKILL.md", "references/notes.md"],
+		});
+
+		const skill = await client.callTool({
+			name: "skillkit_get_skill",
+			arguments: { name: "created-skill" },
+		});
+		expect((skill.content as TextContent[])[0].text).toContain(
+			"Follow these steps.",
+		);
+	});
+
+	it("skillkit_create_skill refuses to overwrite existing skills", async () => {
+		const result = await client.callTool({
+			name: "skillkit_create_skill",
+			arguments: {
+				name: "test-skill",
+				description: "Replacement",
+				body: "Body",
+			},
+		});
+
+		expect(result.isError).toBe(true);
+		expect((result.content as TextContent[])[0].text).toContain(
+			"already exists",
+		);
+	});
+
+	it("skillkit_update_skill applies changes based on the current hash", async () => {
+		const skill = await client.callTool({
+			name: "skillkit_get_skill",
+			arguments: { name: "test-skill" },
+		});
+		const hash = (skill.content as TextContent[])[1].text.split(": ")[1];
+
+		const result = await client.callTool({
+			name: "skillkit_update_skill",
+			arguments: {
+				name: "test-skill",
+				expectedHash: hash,
+				files: { "references/extra.md": "# Extra" },
+			},
+		});
+
+		expect(result.isError).toBeFalsy();
+		expect(result.structuredContent).toMatchObject({
+			name: "test-skill",
+			changed: ["references/extra.md"],
+		});
+
+		const reference = await client.callTool({
+			name: "skillkit_get_reference",
+			arguments: { skill: "test-skill", filename: "extra.md" },
+		});
+		expect((reference.content as TextContent[])[0].text).toBe("# Extra");
+	});
+
+	it("skillkit_update_skill keeps include directives read with expandIncludes=false", async () => {
+		writeRequiringSkill("shared", []);
+		mkdirSync(join(testDir, "skills", "with-include"), { recursive: true });
+		const skillFile = join(testDir, "skills", "with-include", "SKILL.md");
+		writeFileSync(
+			skillFile,
+			"---\nname: with-include\ndescription: Includes shared\n---\n\n<!-- include: shared -->\n",
+		);
+
+		const expanded = await client.callTool({
+			name: "skillkit_get_skill",
+			arguments: { name: "with-include" },
+		});
+		expect((expanded.content as TextContent[])[0].text).not.toContain(
+			"<!-- include: shared -->",
+		);
+
+		const raw = await client.callTool({
+			name: "skillkit_get_skill",
+			arguments: { name: "with-include", expandIncludes: false },
+		});
+		const [content, hashLine] = raw.content as TextContent[];
+		expect(raw.structuredContent).toMatchObject({
+			body: "\n<!-- include: shared -->\n",
+		});
+
+		const result = await client.callTool({
+			name: "skillkit_update_skill",
+			arguments: {
+				name: "with-include",
+				expectedHash: hashLine.text.split(": ")[1],
+				files: { "SKILL.md": `${content.text}\nAlso check the logs.\n` },
+			},
+		});
+
+		expect(result.isError).toBeFalsy();
+		expect(readFileSync(skillFile, "utf-8")).toBe(
+			"---\nname: with-include\ndescription: Includes shared\n---\n\n<!-- include: shared -->\n\nAlso check the logs.\n",
+		);
+	});
+
+	it("skillkit_update_skill rejects stale hashes with a diff", async () => {
+		const result = await client.callTool({
+			name: "skillkit_update_skill",
+			arguments: {
+				name: "test-skill",
+				expectedHash: "0000000000000000",
+				files: { "references/guide.md": "# Rewritten" },
+			},
+		});
+
+		expect(result.isError).toBe(true);
+		const text = (result.content as TextContent[])[0].text;
+		expect(text).toContain("changed since it was read");
+		expect(text).toContain("-# Guide");
+		expect(text).toContain("+# Rewritten");
+	});
+
 	it("skillkit_get_skill returns error for unknown skill", async () => {
 		const result = await client.callTool({
 			name: "skillkit_get_skill",
@@ -149,4 +528,197 @@ describe("MCP Server Tools", () => {
 
 		expect(result.isError).toBe(true);
 	});
+
+	it("skillkit_get_script reports path traversal with an error code", async () => {
+		const result = await client.callTool({
+			name: "skillkit_get_script",
+			arguments: { skill: "test-skill", filename: "../../../SKILL.md" },
+		});
+
+		expect(result.isError).toBe(true);
+		expect((result.content as TextContent[])[0].text).toMatch(
+			/^Error \[PATH_TRAVERSAL\]: /,
+		);
+	});
+});
+
+describe("MCP Server Tools usage log", () => {
+	let testDir: string;
+
+	beforeEach(() => {
+		testDir = createTestDir();
+		createSkillFixtures(testDir);
+	});
+
+	afterEach(() => {
+		cleanupTestDir(testDir);
+	});
+
+	it("records tool calls when enabled", async () => {
+		const usageLogPath = join(testDir, "usage.jsonl");
+		const { client, cleanup } = await setupClientServer(testDir, {
+			usageLog: true,
+			usageLogPath,
+		});
+
+		await client.callTool({
+			name: "skillkit_get_skill",
+			arguments: { name: "test-skill" },
+		});
+		await client.callTool({
+			name: "skillkit_get_script",
+			arguments: { skill: "test-skill", filename: "missing.sh" },
+		});
+		await cleanup();
+
+		const events = readUsageLog(usageLogPath);
+		expect(events).toEqual([
+			expect.objectContaining({
+				kind: "tool",
+				name: "skillkit_get_skill",
+				skill: "test-skill",
+				source: testDir,
+				client: "test-client",
+				ok: true,
+			}),
+			expect.objectContaining({
+				name: "skillkit_get_script",
+				skill: "test-skill",
+				file: "missing.sh",
+				ok: false,
+				error: expect.stringContaining("missing.sh"),
+			}),
+		]);
+	});
+
+	it("records nothing by default", async () => {
+		const { client, cleanup } = await setupClientServer(testDir);
+
+		await client.callTool({
+			name: "skillkit_get_skill",
+			arguments: { name: "test-skill" },
+		});
+		await cleanup();
+
+		expect(readUsageLog(join(testDir, "usage.jsonl"))).toEqual([]);
+	});
+});
+
+describe("MCP Server Tools feedback", () => {
+	let testDir: string;
+	let feedbackDir: string;
+	let client: Client;
+	let cleanup: () => Promise<void>;
+
+	beforeEach(async () => {
+		testDir = createTestDir();
+		createSkillFixtures(testDir);
+		feedbackDir = join(testDir, "feedback");
+		const setup = await setupClientServer(testDir, { feedbackDir });
+		client = setup.client;
+		cleanup = setup.cleanup;
+	});
+
+	afterEach(async () => {
+		await cleanup();
+		cleanupTestDir(testDir);
+	});
+
+	it("skillkit_report_feedback stores feedback for the skill", async () => {
+		const result = await client.callTool({
+			name: "skillkit_report_feedback",
+			arguments: {
+				skill: "test-skill",
+				rating: 2,
+				comment: "Step 3 is outdated",
+			},
+		});
+
+		expect(result.isError).toBeFalsy();
+		expect(result.structuredContent).toMatchObject({
+			skill: "test-skill",
+			rating: 2,
+			comment: "Step 3 is outdated",
+		});
+
+		const entries = new FeedbackStore(feedbackDir).list("test-skill");
+		expect(entries).toEqual([
+			expect.objectContaining({
+				skill: "test-skill",
+				rating: 2,
+				comment: "Step 3 is outdated",
+				client: "test-client",
+				hash: expect.stringMatching(/^[0-9a-f]{16}$/),
+			}),
+		]);
+	});
+
+	it("skillkit_report_feedback rejects unknown skills", async () => {
+		const result = await client.callTool({
+			name: "skillkit_report_feedback",
+			arguments: { skill: "nonexistent", rating: 5 },
+		});
+
+		expect(result.isError).toBe(true);
+		expect(new FeedbackStore(feedbackDir).skills()).toEqual([]);
+	});
+});
+
+describe("MCP Server skills as tools", () => {
+	let testDir: string;
+	let cleanup: (() => Promise<void>) | undefined;
+
+	beforeEach(() => {
+		testDir = createTestDir();
+		createSkillFixtures(testDir);
+	});
+
+	afterEach(async () => {
+		await cleanup?.();
+		cleanup = undefined;
+		cleanupTestDir(testDir);
+	});
+
+	it("registers no skill tools by default", async () => {
+		const setup = await setupClientServer(testDir);
+		cleanup = setup.cleanup;
+
+		const result = await setup.client.listTools();
+		expect(result.tools.filter((t) => t.name.startsWith("skill_"))).toEqual([]);
+	});
+
+	it("registers one tool per skill that returns its instructions", async () => {
+		const setup = await setupClientServer(testDir, {
+			exposeSkillsAsTools: true,
+		});
+		cleanup = setup.cleanup;
+
+		const { tools } = await setup.client.listTools();
+		const tool = tools.find((t) => t.name === "skill_test-skill");
+		expect(tool?.description).toContain("A test skill for integration testing");
+		expect(tool?.annotations?.readOnlyHint).toBe(true);
+		expect(tools.map((t) => t.name)).toContain("skill_another-skill");
+
+		const result = await setup.client.callTool({
+			name: "skill_test-skill",
+			arguments: {},
+		});
+		const content = result.content as TextContent[];
+		expect(result.isError).toBeFalsy();
+		expect(content[0].text).toContain("This is a test skill");
+		expect(content[1].text).toMatch(/^Content hash: [0-9a-f]{16}$/);
+	});
+
+	it("caps the number of skill tools", async () => {
+		const setup = await setupClientServer(testDir, {
+			exposeSkillsAsTools: true,
+			skillToolLimit: 1,
+		});
+		cleanup = setup.cleanup;
+
+		const { tools } = await setup.client.listTools();
+		expect(
+			tools.filter((t) => t.name.startsWith("skill_")).map((t) => t.name),
+		).toEqual(["skill_another-skill"]);
+	});
 });
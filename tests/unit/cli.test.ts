@@ -250,4 +250,277 @@ describe("CLI", () => {
 			}).toThrow();
 		});
 	});
+
+	describe("feedback command", () => {
+		it("lists feedback from the skillkit home", () => {
+			const feedbackDir = join(TEST_DIR, "feedback");
+			mkdirSync(feedbackDir, { recursive: true });
+			writeFileSync(
+				join(feedbackDir, "deploy.jsonl"),
+				`${JSON.stringify({ ts: "2025-03-01T10:00:00.000Z", skill: "deploy", rating: 2, comment: "Uses the old CLI" })}\n`,
+			);
+			const env = { ...process.env, SKILLKIT_HOME: TEST_DIR };
+
+			const output = execSync(`node ${CLI_PATH} feedback deploy`, {
+				encoding: "utf-8",
+				env,
+			});
+			expect(output).toContain("deploy (1 report, average 2.0/5)");
+			expect(output).toContain("2025-03-01  2/5  Uses the old CLI");
+
+			const empty = execSync(`node ${CLI_PATH} feedback other`, {
+				encoding: "utf-8",
+				env,
+			});
+			expect(empty.trim()).toBe("No feedback for 'other'.");
+		});
+	});
+
+	describe("config files", () => {
+		function createSkill(dir: string, name: string): void {
+			mkdirSync(join(dir, "skills", name), { recursive: true });
+			writeFileSync(
+				join(dir, "skills", name, "SKILL.md"),
+				`---\nname: ${name}\ndescription: ${name}\n---\n\nBody.\n`,
+			);
+		}
+
+		function run(cwd: string, args: string, env = {}): string {
+			return execSync(`node ${CLI_PATH} ${args}`, {
+				cwd,
+				encoding: "utf-8",
+				stdio: ["pipe", "pipe", "pipe"],
+				env: {
+					...process.env,
+					SKILLKIT_HOME: join(TEST_DIR, "home"),
+					SKILLKIT_PROFILE: "",
+					...env,
+				},
+			});
+		}
+
+		function statsSkills(cwd: string, args = "", env = {}): string[] {
+			const output = run(
+				cwd,
+				`stats --by skill --json --log ${join(TEST_DIR, "none.jsonl")} ${args}`,
+				env,
+			);
+			return JSON.parse(output).rows.map((row: { key: string }) => row.key);
+		}
+
+		function createProfiles(project: string): void {
+			createSkill(join(project, "work"), "aws-deploy");
+			createSkill(join(project, "work"), "aws-legacy");
+			createSkill(join(project, "personal"), "journal");
+			writeFileSync(
+				join(project, ".skillkit.yaml"),
+				dedent`
+					bundled: false
+					profile: work
+					profiles:
+					  work:
+					    sources: [./work]
+					    exclude: ["*-legacy"]
+					  personal:
+					    sources: [./personal]
+				`,
+			);
+		}
+
+		it("reads sources and filters from .skillkit.yaml in a parent folder", () => {
+			const project = join(TEST_DIR, "project");
+			createSkill(join(project, "team"), "aws-deploy");
+			createSkill(join(project, "team"), "aws-legacy");
+			createSkill(join(project, "team"), "review");
+			mkdirSync(join(project, "src"), { recursive: true });
+			writeFileSync(
+				join(project, ".skillkit.yaml"),
+				dedent`
+					sources: [./team]
+					bundled: false
+					include: ["aws-*"]
+					exclude: ["*-legacy"]
+				`,
+			);
+
+			expect(statsSkills(join(project, "src"))).toEqual(["aws-deploy"]);
+		});
+
+		it("lets --skills-path override config sources", () => {
+			const project = join(TEST_DIR, "project");
+			createSkill(join(project, "team"), "from-config");
+			createSkill(join(TEST_DIR, "cli"), "from-cli");
+			writeFileSync(
+				join(project, ".skillkit.yaml"),
+				"sources: [./team]\nbundled: false\n",
+			);
+
+			expect(
+				statsSkills(project, `--skills-path ${join(TEST_DIR, "cli")}`),
+			).toEqual(["from-cli"]);
+		});
+
+		it("lists skills for stats without cloning git sources", () => {
+			const project = join(TEST_DIR, "project");
+			createSkill(join(project, "team"), "from-team");
+
+			expect(
+				statsSkills(
+					project,
+					`--no-bundled --skills-path ${join(project, "team")} https://example.com/org/skills.git`,
+				),
+			).toEqual(["from-team"]);
+			expect(existsSync(join(TEST_DIR, "home", "cache"))).toBe(false);
+		});
+
+		it("exits with the problems of an invalid config file", () => {
+			const project = join(TEST_DIR, "project");
+			mkdirSync(project, { recursive: true });
+			writeFileSync(
+				join(project, ".skillkit.yaml"),
+				"transport: carrier-pigeon\n",
+			);
+
+			expect(() => statsSkills(project)).toThrow(
+				/Invalid config file.*\n.*transport/,
+			);
+		});
+
+		it("selects a profile with --profile, SKILLKIT_PROFILE or the config default", () => {
+			const project = join(TEST_DIR, "project");
+			createProfiles(project);
+
+			expect(statsSkills(project)).toEqual(["aws-deploy"]);
+			expect(statsSkills(project, "--profile personal")).toEqual(["journal"]);
+			expect(statsSkills(project, "", { SKILLKIT_PROFILE: "personal" })).toEqual(
+				["journal"],
+			);
+			expect(
+				statsSkills(project, "--profile work", { SKILLKIT_PROFILE: "personal" }),
+			).toEqual(["aws-deploy"]);
+		});
+
+		it("exits on an unknown profile", () => {
+			const project = join(TEST_DIR, "project");
+			createProfiles(project);
+
+			expect(() => statsSkills(project, "--profile home")).toThrow(
+				/Unknown profile 'home'. Available profiles: personal, work/,
+			);
+		});
+
+		it("lists profiles with the skills each one serves", () => {
+			const project = join(TEST_DIR, "project");
+			createProfiles(project);
+
+			const profiles = JSON.parse(run(project, "profiles list --json"));
+			expect(
+				profiles.map((p: { name: string; active: boolean; skills: string[] }) => [
+					p.name,
+					p.active,
+					p.skills,
+				]),
+			).toEqual([
+				["personal", false, ["journal"]],
+				["work", true, ["aws-deploy"]],
+			]);
+
+			const text = run(project, "profiles list --profile personal");
+			expect(text).toContain(
+				`personal (active)  ${join(project, ".skillkit.yaml")}`,
+			);
+			expect(text).toContain("skills:   1: aws-deploy");
+		});
+
+		it("lists no skills for a profile whose only source is not cloned yet", () => {
+			const project = join(TEST_DIR, "project");
+			const home = join(TEST_DIR, "user");
+			createSkill(join(home, ".skillkit"), "home-skill");
+			mkdirSync(project, { recursive: true });
+			writeFileSync(
+				join(project, ".skillkit.yaml"),
+				dedent`
+					bundled: false
+					profiles:
+					  remote:
+					    sources: [https://example.com/org/skills.git]
+				`,
+			);
+
+			const [remote] = JSON.parse(
+				run(project, "profiles list --json", { HOME: home }),
+			);
+			expect(remote.uncached).toEqual(["https://example.com/org/skills.git"]);
+			expect(remote.skills).toEqual([]);
+		});
+
+		it("lets SKILLKIT_SKILLS_PATH replace profile sources in profiles list", () => {
+			const project = join(TEST_DIR, "project");
+			createProfiles(project);
+			createSkill(join(TEST_DIR, "env"), "from-env");
+			const env = { SKILLKIT_SKILLS_PATH: join(TEST_DIR, "env") };
+
+			const profiles = JSON.parse(run(project, "profiles list --json", env));
+			expect(
+				profiles.map((p: { fromEnv: boolean; skills: string[] }) => [
+					p.fromEnv,
+					p.skills,
+				]),
+			).toEqual([
+				[true, ["from-env"]],
+				[true, ["from-env"]],
+			]);
+			expect(run(project, "profiles list", env)).toContain(
+				"sources:  SKILLKIT_SKILLS_PATH (replaces the profile's sources)",
+			);
+		});
+
+		it("lists sources with shadowed skills without cloning git sources", () => {
+			const project = join(TEST_DIR, "project");
+			createSkill(join(project, "team"), "skill-creator");
+			createSkill(join(project, "team"), "review");
+			createSkill(join(project, "shared"), "review");
+			writeFileSync(
+				join(project, ".skillkit.yaml"),
+				"sources: [./team, ./shared, https://example.com/org/skills.git#main]\n",
+			);
+
+			const sources = JSON.parse(run(project, "sources --json"));
+			expect(
+				sources.map((s: { origin: string; kind: string; exists: boolean }) => [
+					s.origin,
+					s.kind,
+					s.exists,
+				]),
+			).toEqual([
+				["config", "local", true],
+				["config", "local", true],
+				["config", "git", false],
+				["bundled", "bundled", true],
+			]);
+			expect(sources[1].shadowed).toEqual([
+				{
+					type: "skill",
+					name: "review",
+					path: join(project, "shared", "skills", "review"),
+					winner: join(project, "team"),
+				},
+			]);
+			expect(sources[2].git).toEqual({
+				url: "https://example.com/org/skills.git",
+				ref: "main",
+			});
+
+			const text = run(project, "sources");
+			expect(text).toContain("origin:   config file");
+			expect(text).toContain("(not cloned yet)");
+			const fromCli = JSON.parse(
+				run(project, `sources --json --skills-path ${join(project, "team")}`),
+			);
+			expect(fromCli[0].origin).toBe("cli");
+			expect(text).toContain(
+				`shadowed: skill 'skill-creator' by ${join(project, "team")}`,
+			);
+		});
+	});
 });
@@ -0,0 +1,38 @@
+/**
+ * Tests for completion - ranking completion candidates.
+ */
+
+import { describe, expect, it } from "vitest";
+import { rankCompletions } from "../../src/completion.js";
+
+describe("rankCompletions", () => {
+	const skills = ["api-docs", "code-review", "deploy", "review-checklist"];
+
+	it("returns every candidate for empty input", () => {
+		expect(rankCompletions(skills, "")).toEqual(skills);
+	});
+
+	it("ranks prefix, then substring, then fuzzy matches", () => {
+		expect(rankCompletions(skills, "rev")).toEqual([
+			"review-checklist",
+			"code-review",
+		]);
+		expect(rankCompletions(skills, "dp")).toEqual(["deploy"]);
+		expect(rankCompletions(skills, "c")).toEqual([
+			"code-review",
+			"api-docs",
+			"review-checklist",
+		]);
+	});
+
+	it("ignores case and duplicates", () => {
+		expect(rankCompletions(["Deploy", "deploy", "Deploy"], "DEP")).toEqual([
+			"Deploy",
+			"deploy",
+		]);
+	});
+
+	it("returns nothing when no candidate matches", () => {
+		expect(rankCompletions(skills, "xyz")).toEqual([]);
+	});
+});
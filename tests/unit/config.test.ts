@@ -0,0 +1,236 @@
+/**
+ * Tests for config - user and project config files.
+ */
+
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import dedent from "dedent";
+import {
+	ConfigError,
+	findProjectConfig,
+	loadConfig,
+	readConfigFile,
+	selectProfile,
+	UnknownProfileError,
+} from "../../src/config.js";
+
+const TEST_DIR = join(tmpdir(), `skillkit-config-test-${Date.now()}`);
+const HOME = join(TEST_DIR, "home");
+const PROJECT = join(TEST_DIR, "project");
+
+describe("config", () => {
+	beforeEach(() => {
+		mkdirSync(HOME, { recursive: true });
+		mkdirSync(join(PROJECT, "src", "deep"), { recursive: true });
+	});
+
+	afterEach(() => {
+		if (existsSync(TEST_DIR)) {
+			rmSync(TEST_DIR, { recursive: true, force: true });
+		}
+	});
+
+	describe("findProjectConfig", () => {
+		it("finds .skillkit.yaml in a parent directory", () => {
+			writeFileSync(join(PROJECT, ".skillkit.yaml"), "bundled: false\n");
+
+			expect(findProjectConfig(join(PROJECT, "src", "deep"))).toBe(
+				join(PROJECT, ".skillkit.yaml"),
+			);
+		});
+
+		it("prefers the nearest file", () => {
+			writeFileSync(join(PROJECT, ".skillkit.yaml"), "bundled: false\n");
+			writeFileSync(join(PROJECT, "src", ".skillkit.yaml"), "bundled: true\n");
+
+			expect(findProjectConfig(join(PROJECT, "src", "deep"))).toBe(
+				join(PROJECT, "src", ".skillkit.yaml"),
+			);
+		});
+	});
+
+	describe("readConfigFile", () => {
+		it("resolves sources against the config file's folder", () => {
+			const file = join(PROJECT, ".skillkit.yaml");
+			writeFileSync(
+				file,
+				dedent`
+					sources:
+					  - ./team-skills
+					  - ~/personal
+					  - path: /opt/skills
+					  - git: https://github.com/org/skills.git
+					    ref: v1.2
+					  - git@github.com:org/other.git#main
+					include: ["aws-*"]
+					logLevel: debug
+				`,
+			);
+
+			expect(readConfigFile(file)).toEqual({
+				sources: [
+					join(PROJECT, "team-skills"),
+					"~/personal",
+					"/opt/skills",
+					"https://github.com/org/skills.git#v1.2",
+					"git@github.com:org/other.git#main",
+				],
+				include: ["aws-*"],
+				logLevel: "debug",
+			});
+		});
+
+		it("treats an empty file as no settings", () => {
+			const file = join(PROJECT, ".skillkit.yaml");
+			writeFileSync(file, "");
+
+			expect(readConfigFile(file)).toEqual({});
+		});
+
+		it("reports every invalid setting with its path", () => {
+			const file = join(PROJECT, ".skillkit.yaml");
+			writeFileSync(
+				file,
+				dedent`
+					sources:
+					  - git: ./not-a-url
+					logLevel: loud
+					unknown: 1
+				`,
+			);
+
+			expect(() => readConfigFile(file)).toThrow(ConfigError);
+			try {
+				readConfigFile(file);
+			} catch (e) {
+				const message = (e as Error).message;
+				expect(message).toContain(`Invalid config file ${file}`);
+				expect(message).toContain("sources.0");
+				expect(message).toContain("logLevel");
+				expect(message).toContain("unknown");
+			}
+		});
+
+		it("reports invalid YAML", () => {
+			const file = join(PROJECT, ".skillkit.yaml");
+			writeFileSync(file, "sources: [unclosed\n");
+
+			expect(() => readConfigFile(file)).toThrow(ConfigError);
+		});
+	});
+
+	describe("loadConfig", () => {
+		it("lets project settings replace user settings key by key", () => {
+			writeFileSync(
+				join(HOME, "config.yaml"),
+				"sources: [/user/skills]\nbundled: false\nlogLevel: info\n",
+			);
+			writeFileSync(
+				join(PROJECT, ".skillkit.yaml"),
+				"sources: [/project/skills]\nlogLevel: debug\n",
+			);
+
+			const loaded = loadConfig(join(PROJECT, "src"), HOME);
+
+			expect(loaded.files).toEqual([
+				join(HOME, "config.yaml"),
+				join(PROJECT, ".skillkit.yaml"),
+			]);
+			expect(loaded.config).toEqual({
+				sources: ["/project/skills"],
+				bundled: false,
+				logLevel: "debug",
+			});
+		});
+
+		it("returns no settings without config files", () => {
+			expect(loadConfig(join(PROJECT, "src"), HOME)).toEqual({
+				config: {},
+				files: [],
+				profileFiles: {},
+			});
+		});
+
+		it("merges profiles by name and records where each is defined", () => {
+			writeFileSync(
+				join(HOME, "config.yaml"),
+				dedent`
+					profiles:
+					  work:
+					    sources: [/user/work]
+					  personal:
+					    bundled: false
+				`,
+			);
+			writeFileSync(
+				join(PROJECT, ".skillkit.yaml"),
+				dedent`
+					profile: work
+					profiles:
+					  work:
+					    sources: [./skills]
+					    include: ["aws-*"]
+				`,
+			);
+
+			const loaded = loadConfig(PROJECT, HOME);
+
+			expect(loaded.config).toEqual({
+				profile: "work",
+				profiles: {
+					work: { sources: [join(PROJECT, "skills")], include: ["aws-*"] },
+					personal: { bundled: false },
+				},
+			});
+			expect(loaded.profileFiles).toEqual({
+				work: join(PROJECT, ".skillkit.yaml"),
+				personal: join(HOME, "config.yaml"),
+			});
+		});
+	});
+
+	describe("selectProfile", () => {
+		const config = {
+			sources: ["/base"],
+			bundled: false,
+			logLevel: "debug" as const,
+			profile: "work",
+			profiles: {
+				work: { sources: ["/work"], exclude: ["*-legacy"] },
+				minimal: { bundled: false, include: ["review"] },
+			},
+		};
+
+		it("applies the config's default profile", () => {
+			expect(selectProfile(config)).toMatchObject({
+				sources: ["/work"],
+				exclude: ["*-legacy"],
+				bundled: false,
+				logLevel: "debug",
+				profile: "work",
+			});
+		});
+
+		it("lets a named profile replace only the keys it sets", () => {
+			expect(selectProfile(config, "minimal")).toMatchObject({
+				sources: ["/base"],
+				include: ["review"],
+				profile: "minimal",
+			});
+		});
+
+		it("returns the settings unchanged without a profile", () => {
+			const { profile: _, ...rest } = config;
+			expect(selectProfile(rest)).toBe(rest);
+		});
+
+		it("rejects unknown profiles, listing the defined ones", () => {
+			expect(() => selectProfile(config, "home")).toThrow(UnknownProfileError);
+			expect(() => selectProfile(config, "home")).toThrow(
+				"Unknown profile 'home'. Available profiles: minimal, work",
+			);
+		});
+	});
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests for dependencies - requires: resolution.
+ */
+
+import { describe, expect, it } from "vitest";
+import { requiresOf, resolveDependencies } from "../../src/dependencies.js";
+
+function lookupIn(graph: Record<string, string[]>) {
+	return (skill: string) => graph[skill];
+}
+
+describe("requiresOf", () => {
+	it("returns the listed skill names", () => {
+		expect(requiresOf({ requires: ["a", "b"] })).toEqual(["a", "b"]);
+	});
+
+	it("ignores missing lists and invalid entries", () => {
+		expect(requiresOf({})).toEqual([]);
+		expect(requiresOf({ requires: "a" })).toEqual([]);
+		expect(requiresOf({ requires: ["a", 3, "", null] })).toEqual(["a"]);
+	});
+});
+
+describe("resolveDependencies", () => {
+	it("orders each skill after the skills it requires", () => {
+		const chain = resolveDependencies(
+			"deploy",
+			lookupIn({
+				deploy: ["k8s-conventions", "docker"],
+				"k8s-conventions": ["yaml-style"],
+				docker: ["yaml-style"],
+				"yaml-style": [],
+			}),
+		);
+
+		expect(chain).toEqual({
+			order: ["yaml-style", "k8s-conventions", "docker"],
+			missing: [],
+			cycles: [],
+		});
+	});
+
+	it("follows declaration order, not name order", () => {
+		const graph = { app: ["zeta", "alpha"], zeta: [], alpha: [] };
+
+		expect(resolveDependencies("app", lookupIn(graph)).order).toEqual([
+			"zeta",
+			"alpha",
+		]);
+	});
+
+	it("reports missing skills and keeps the rest of the chain", () => {
+		const chain = resolveDependencies(
+			"deploy",
+			lookupIn({ deploy: ["docker", "gone"], docker: ["also-gone"] }),
+		);
+
+		expect(chain.order).toEqual(["docker"]);
+		expect(chain.missing).toEqual([
+			"Skill 'docker' requires 'also-gone', which was not found",
+			"Skill 'deploy' requires 'gone', which was not found",
+		]);
+	});
+
+	it("reports cycles with the path that closes them", () => {
+		const chain = resolveDependencies(
+			"a",
+			lookupIn({ a: ["b"], b: ["c"], c: ["a"] }),
+		);
+
+		expect(chain.cycles).toEqual(["Dependency cycle: a -> b -> c -> a"]);
+		expect(chain.order).toEqual(["c", "b"]);
+	});
+});
@@ -0,0 +1,42 @@
+/**
+ * Tests for diff - unified diffs in conflict reports.
+ */
+
+import { describe, expect, it } from "vitest";
+import { unifiedDiff } from "../../src/diff.js";
+
+describe("unifiedDiff", () => {
+	it("returns an empty string for identical content", () => {
+		expect(unifiedDiff("a\nb\n", "a\nb\n", "file.md")).toBe("");
+	});
+
+	it("shows changed lines with context", () => {
+		const oldText = "one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\n";
+		const newText = "one\ntwo\nthree\nfour\nFIVE\nsix\nseven\neight\n";
+
+		expect(unifiedDiff(oldText, newText, "notes.md")).toBe(
+			[
+				"--- a/notes.md",
+				"+++ b/notes.md",
+				"@@ -2,7 +2,7 @@",
+				" two",
+				" three",
+				" four",
+				"-five",
+				"+FIVE",
+				" six",
+				" seven",
+				" eight",
+			].join("\n"),
+		);
+	});
+
+	it("uses /dev/null for created and deleted files", () => {
+		expect(unifiedDiff(null, "new\n", "scripts/run.sh")).toBe(
+			"--- /dev/null\n+++ b/scripts/run.sh\n@@ -0,0 +1,1 @@\n+new",
+		);
+		expect(unifiedDiff("old\n", null, "scripts/run.sh")).toBe(
+			"--- a/scripts/run.sh\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-old",
+		);
+	});
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for feedback - the local per-skill feedback store.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FeedbackStore, formatFeedback } from "../../src/feedback.js";
+
+const TEST_DIR = join(tmpdir(), `skillkit-feedback-test-${Date.now()}`);
+
+describe("feedback", () => {
+	beforeEach(() => {
+		mkdirSync(TEST_DIR, { recursive: true });
+	});
+
+	afterEach(() => {
+		if (existsSync(TEST_DIR)) {
+			rmSync(TEST_DIR, { recursive: true, force: true });
+		}
+	});
+
+	describe("FeedbackStore", () => {
+		it("stores feedback per skill", () => {
+			const store = new FeedbackStore(join(TEST_DIR, "feedback"));
+
+			store.add({ skill: "deploy", rating: 2, comment: "Wrong flag" });
+			store.add({ skill: "deploy", rating: 4 });
+			store.add({ skill: "review", rating: 5 });
+
+			expect(store.skills()).toEqual(["deploy", "review"]);
+			expect(existsSync(join(TEST_DIR, "feedback", "deploy.jsonl"))).toBe(true);
+			expect(store.list("deploy").map((e) => e.rating)).toEqual([2, 4]);
+			expect(store.list()).toHaveLength(3);
+			expect(store.list("unknown")).toEqual([]);
+		});
+
+		it("rejects ratings outside 1-5", () => {
+			const store = new FeedbackStore(TEST_DIR);
+
+			expect(() => store.add({ skill: "deploy", rating: 0 })).toThrow(
+				"Rating must be an integer from 1 to 5.",
+			);
+			expect(() => store.add({ skill: "deploy", rating: 2.5 })).toThrow();
+			expect(store.skills()).toEqual([]);
+		});
+
+		it("keeps skill names inside the store", () => {
+			const store = new FeedbackStore(join(TEST_DIR, "feedback"));
+
+			store.add({ skill: "../escape", rating: 3 });
+
+			expect(existsSync(join(TEST_DIR, "escape.jsonl"))).toBe(false);
+			expect(store.skills()).toEqual(["../escape"]);
+		});
+
+		it("skips malformed lines", () => {
+			const store = new FeedbackStore(TEST_DIR);
+			store.add({ skill: "deploy", rating: 3 });
+			appendFileSync(join(TEST_DIR, "deploy.jsonl"), '{"ts": \n');
+
+			expect(store.list("deploy")).toHaveLength(1);
+		});
+	});
+
+	describe("formatFeedback", () => {
+		it("groups entries by skill with the average rating", () => {
+			const text = formatFeedback([
+				{
+					ts: "2025-03-01T10:00:00.000Z",
+					skill: "deploy",
+					rating: 2,
+					comment: "Wrong flag",
+				},
+				{ ts: "2025-03-02T10:00:00.000Z", skill: "deploy", rating: 5 },
+				{ ts: "2025-03-03T10:00:00.000Z", skill: "review", rating: 4 },
+			]);
+
+			expect(text.split("\n")).toEqual([
+				"deploy (2 reports, average 3.5/5)",
+				"  2025-03-01  2/5  Wrong flag",
+				"  2025-03-02  5/5",
+				"",
+				"review (1 report, average 4.0/5)",
+				"  2025-03-03  4/5",
+			]);
+		});
+	});
+});
@@ -0,0 +1,183 @@
+/**
+ * Tests for includes - include directive expansion.
+ */
+
+import { describe, expect, it } from "vitest";
+import dedent from "dedent";
+import {
+	expandIncludes,
+	type IncludeTarget,
+	parseIncludeTarget,
+} from "../../src/includes.js";
+
+const ORIGIN: IncludeTarget = { skill: "deploy", file: "SKILL.md" };
+
+function readFrom(files: Record<string, string>) {
+	return (target: IncludeTarget) => {
+		const text = files[`${target.skill}/${target.file}`];
+		if (text === undefined) {
+			throw new Error(`${target.skill}/${target.file} not found`);
+		}
+		return text;
+	};
+}
+
+describe("parseIncludeTarget", () => {
+	it("parses skills, references and sections", () => {
+		expect(parseIncludeTarget("shared#Commit Messages", "deploy")).toEqual({
+			skill: "shared",
+			file: "SKILL.md",
+			section: "Commit Messages",
+		});
+		expect(parseIncludeTarget("references/checklist.md", "deploy")).toEqual({
+			skill: "deploy",
+			file: "references/checklist.md",
+		});
+		expect(
+			parseIncludeTarget("shared/references/a.md#Intro", "deploy"),
+		).toEqual({ skill: "shared", file: "references/a.md", section: "Intro" });
+		expect(parseIncludeTarget("#Setup", "deploy")).toEqual({
+			skill: "deploy",
+			file: "SKILL.md",
+			section: "Setup",
+		});
+	});
+});
+
+describe("expandIncludes", () => {
+	it("replaces directives with sections and files, recursively", () => {
+		const result = expandIncludes(
+			dedent`
+				# Deploy
+
+				<!-- include: shared#Commit Messages -->
+
+				<!-- include: references/steps.md -->
+			`,
+			ORIGIN,
+			readFrom({
+				"shared/SKILL.md": dedent`
+					# Shared
+
+					## Commit Messages
+
+					Use the imperative mood.
+
+					## Other
+
+					Not included.
+				`,
+				"deploy/references/steps.md":
+					"1. Build\n<!-- include: references/push.md -->\n",
+				"deploy/references/push.md": "2. Push\n",
+			}),
+		);
+
+		expect(result.problems).toEqual([]);
+		expect(result.content).toBe(dedent`
+			# Deploy
+
+			## Commit Messages
+
+			Use the imperative mood.
+
+			1. Build
+			2. Push
+		`);
+	});
+
+	it("reports missing targets and sections", () => {
+		const result = expandIncludes(
+			"<!-- include: gone -->\n<!-- include: shared#Nope -->",
+			ORIGIN,
+			readFrom({ "shared/SKILL.md": "## Yes\n" }),
+		);
+
+		expect(result.content).toBe(
+			"<!-- include failed: gone -->\n<!-- include failed: shared#Nope -->",
+		);
+		expect(result.problems).toEqual([
+			"Include 'gone' in deploy/SKILL.md: gone/SKILL.md not found",
+			"Include 'shared#Nope' in deploy/SKILL.md: Section 'Nope' not found. Available sections: Yes",
+		]);
+	});
+
+	it("stops at cycles", () => {
+		const result = expandIncludes(
+			"<!-- include: a -->",
+			ORIGIN,
+			readFrom({
+				"a/SKILL.md": "A <!-- include: b -->",
+				"b/SKILL.md": "B <!-- include: a -->",
+			}),
+		);
+
+		expect(result.content).toBe("A B <!-- include failed: a -->");
+		expect(result.problems).toEqual([
+			"Include 'a' in b/SKILL.md: include cycle a/SKILL.md -> b/SKILL.md -> a/SKILL.md",
+		]);
+	});
+
+	it("stops at the depth limit", () => {
+		const files: Record<string, string> = {};
+		for (let i = 1; i <= 4; i++) {
+			files[`s${i}/SKILL.md`] = `${i} <!-- include: s${i + 1} -->`;
+		}
+		files["s5/SKILL.md"] = "5";
+
+		expect(
+			expandIncludes("<!-- include: s1 -->", ORIGIN, readFrom(files), 3),
+		).toEqual({
+			content: "1 2 3 <!-- include failed: s4 -->",
+			problems: [
+				"Include 's4' in s3/SKILL.md: includes are nested more than 3 levels deep",
+			],
+		});
+	});
+
+	it("rejects files outside references/ and keeps directives the reader skips", () => {
+		const result = expandIncludes(
+			"<!-- include: scripts/run.sh -->\n<!-- include: elsewhere -->",
+			ORIGIN,
+			() => undefined,
+		);
+
+		expect(result.content).toBe(
+			"<!-- include failed: scripts/run.sh -->\n<!-- include: elsewhere -->",
+		);
+		expect(result.problems).toEqual([
+			"Include 'scripts/run.sh' in deploy/SKILL.md: only skills and references/ files can be included",
+		]);
+	});
+
+	it("leaves directives inside fenced code blocks alone", () => {
+		const content = dedent`
+			Write an include like this:
+
+			\`\`\`markdown
+			<!-- include: shared#Steps -->
+			\`\`\`
+
+			<!-- include: shared#Steps -->
+		`;
+
+		const result = expandIncludes(
+			content,
+			ORIGIN,
+			readFrom({ "shared/SKILL.md": "## Steps\n\n1. Push\n" }),
+		);
+
+		expect(result.content).toBe(dedent`
+			Write an include like this:
+
+			\`\`\`markdown
+			<!-- include: shared#Steps -->
+			\`\`\`
+
+			## Steps
+
+			1. Push
+		`);
+		expect(result.problems).toEqual([]);
+	});
+});
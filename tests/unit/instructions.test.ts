@@ -0,0 +1,112 @@
+/**
+ * Tests for instructions - the catalog summary sent on initialize.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	buildInstructions,
+	summariseCategories,
+} from "../../src/instructions.js";
+import type { SkillInfo } from "../../src/skillManager.js";
+
+function skill(name: string, description = `Use for ${name}`): SkillInfo {
+	return { name, description, tokens: 10, bytes: 40, files: [] };
+}
+
+describe("instructions", () => {
+	describe("summariseCategories", () => {
+		it("groups skills by name prefix, largest first", () => {
+			const skills = [
+				skill("docker-build"),
+				skill("aws-deploy"),
+				skill("aws-iam"),
+				skill("review"),
+			];
+
+			expect(summariseCategories(skills)).toBe(
+				"aws (2), docker (1), review (1)",
+			);
+		});
+
+		it("reports none for an empty catalog", () => {
+			expect(summariseCategories([])).toBe("none");
+		});
+	});
+
+	describe("buildInstructions", () => {
+		it("fills the default template from the catalog", () => {
+			const text = buildInstructions(
+				[skill("aws-deploy"), skill("code-review")],
+				[{ name: "review", description: "Review code" }],
+			);
+
+			expect(text).toContain("SkillKit provides 2 skills");
+			expect(text).toContain("Categories: aws (1), code (1)");
+			expect(text).toContain(
+				"- aws-deploy: Use for aws-deploy\n- code-review: Use for code-review",
+			);
+			expect(text).toContain("skillkit_get_skill(name)");
+			expect(text).toContain("1 prompts are available");
+		});
+
+		it("renders a custom template, keeping unknown placeholders", () => {
+			const text = buildInstructions([skill("a"), skill("b")], [], {
+				template: "{{skill_count}} skills: {{skills}} {{unknown}}",
+			});
+
+			expect(text).toBe("2 skills: - a: Use for a\n- b: Use for b {{unknown}}");
+		});
+
+		it("lists the most used skills first", () => {
+			const text = buildInstructions([skill("a"), skill("b"), skill("c")], [], {
+				template: "{{skills}}",
+				usage: new Map([
+					["c", 5],
+					["b", 1],
+				]),
+			});
+
+			expect(text.split("\n").map((line) => line.slice(2, 3))).toEqual([
+				"c",
+				"b",
+				"a",
+			]);
+		});
+
+		it("leaves out skills beyond the size cap", () => {
+			const skills = Array.from({ length: 50 }, (_, i) =>
+				skill(`skill-${String(i).padStart(2, "0")}`),
+			);
+
+			const text = buildInstructions(skills, [], {
+				template: "{{skills}}",
+				maxLength: 200,
+			});
+
+			expect(text.length).toBeLessThanOrEqual(200);
+			expect(text).toContain("- skill-00: Use for skill-00");
+			expect(text).toMatch(
+				/- \.\.\.and \d+ more \(see skillkit_list_skills\)$/,
+			);
+		});
+
+		it("shortens long descriptions to their first line", () => {
+			const text = buildInstructions(
+				[skill("a", `${"x".repeat(200)}\nsecond line`)],
+				[],
+				{ template: "{{skills}}" },
+			);
+
+			expect(text).toBe(`- a: ${"x".repeat(117)}...`);
+		});
+
+		it("truncates a template that exceeds the cap on its own", () => {
+			const text = buildInstructions([skill("a")], [], {
+				template: "x".repeat(50),
+				maxLength: 10,
+			});
+
+			expect(text).toBe("x".repeat(10));
+		});
+	});
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for logger - the shared logger and its file/stderr writer.
+ */
+
+import { existsSync, mkdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	createLogWriter,
+	formatLogEntry,
+	isLevelEnabled,
+	type LogEntry,
+	Logger,
+} from "../../src/logger.js";
+
+const TEST_DIR = join(tmpdir(), `skillkit-logger-test-${Date.now()}`);
+
+describe("logger", () => {
+	beforeEach(() => {
+		mkdirSync(TEST_DIR, { recursive: true });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		if (existsSync(TEST_DIR)) {
+			rmSync(TEST_DIR, { recursive: true, force: true });
+		}
+	});
+
+	describe("isLevelEnabled", () => {
+		it("compares levels by severity", () => {
+			expect(isLevelEnabled("error", "warning")).toBe(true);
+			expect(isLevelEnabled("warning", "warning")).toBe(true);
+			expect(isLevelEnabled("info", "warning")).toBe(false);
+			expect(isLevelEnabled("debug", "debug")).toBe(true);
+		});
+	});
+
+	describe("Logger", () => {
+		it("passes entries to listeners until they unsubscribe", () => {
+			const logger = new Logger();
+			const entries: LogEntry[] = [];
+			const unsubscribe = logger.subscribe((entry) => entries.push(entry));
+
+			logger.log("warning", "skills", "first", { skill: "a" });
+			unsubscribe();
+			logger.log("warning", "skills", "second");
+
+			expect(entries).toEqual([
+				{
+					level: "warning",
+					logger: "skills",
+					message: "first",
+					data: { skill: "a" },
+				},
+			]);
+		});
+
+		it("replays earlier entries on request", () => {
+			const logger = new Logger();
+			logger.log("info", "git", "cloned");
+
+			const replayed: string[] = [];
+			logger.subscribe((entry) => replayed.push(entry.message), true);
+			const live: string[] = [];
+			logger.subscribe((entry) => live.push(entry.message));
+			logger.log("info", "git", "updated");
+
+			expect(replayed).toEqual(["cloned", "updated"]);
+			expect(live).toEqual(["updated"]);
+		});
+
+		it("keeps only recent entries for replay", () => {
+			const logger = new Logger();
+			for (let i = 0; i < 150; i++) logger.log("info", "test", `m${i}`);
+
+			const replayed: string[] = [];
+			logger.subscribe((entry) => replayed.push(entry.message), true);
+
+			expect(replayed).toHaveLength(100);
+			expect(replayed[0]).toBe("m50");
+		});
+
+		it("isolates failing listeners", () => {
+			const logger = new Logger();
+			const messages: string[] = [];
+			logger.subscribe(() => {
+				throw new Error("boom");
+			});
+			logger.subscribe((entry) => messages.push(entry.message));
+
+			expect(() =>
+				logger.log("error", "test", "still delivered"),
+			).not.toThrow();
+			expect(messages).toEqual(["still delivered"]);
+		});
+	});
+
+	describe("formatLogEntry", () => {
+		it("renders level, logger, message and data on one line", () => {
+			const line = formatLogEntry({
+				level: "notice",
+				logger: "skills",
+				message: "Skill 'a' shadowed",
+				data: { skill: "a" },
+			});
+
+			expect(line).toMatch(
+				/^\d{4}-\d{2}-\d{2}T\S+ \[notice\] skills: Skill 'a' shadowed \{"skill":"a"\}$/,
+			);
+		});
+	});
+
+	describe("createLogWriter", () => {
+		it("appends entries at or above the level to a file", () => {
+			const file = join(TEST_DIR, "logs", "skillkit.log");
+			const logger = new Logger();
+			logger.subscribe(createLogWriter("warning", file));
+
+			logger.log("info", "skills", "ignored");
+			logger.log("warning", "skills", "kept");
+			logger.log("error", "git", "also kept");
+
+			const lines = readFileSync(file, "utf-8").trim().split("\n");
+			expect(lines).toHaveLength(2);
+			expect(lines[0]).toContain("[warning] skills: kept");
+			expect(lines[1]).toContain("[error] git: also kept");
+		});
+
+		it("writes to stderr without a file", () => {
+			const write = vi
+				.spyOn(process.stderr, "write")
+				.mockImplementation(() => true);
+			const logger = new Logger();
+			logger.subscribe(createLogWriter("debug"));
+
+			logger.log("debug", "skills", "to stderr");
+
+			expect(write).toHaveBeenCalledWith(
+				expect.stringContaining("[debug] skills: to stderr\n"),
+			);
+		});
+	});
+});
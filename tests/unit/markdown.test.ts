@@ -0,0 +1,117 @@
+/**
+ * Tests for markdown - headings, sections and line windows.
+ */
+
+import { describe, expect, it } from "vitest";
+import dedent from "dedent";
+import {
+	describeRange,
+	formatToc,
+	listHeadings,
+	readLines,
+} from "../../src/markdown.js";
+
+const DOC = dedent`
+	# API Guide
+
+	Intro text.
+
+	## Authentication
+
+	Use tokens.
+
+	\`\`\`bash
+	# not a heading
+	\`\`\`
+
+	### Refresh
+
+	Refresh tokens daily.
+
+	## Errors
+
+	Retry on 503.
+`;
+
+describe("markdown", () => {
+	describe("listHeadings", () => {
+		it("lists headings with line numbers, skipping code blocks", () => {
+			expect(listHeadings(DOC)).toEqual([
+				{ level: 1, title: "API Guide", line: 1 },
+				{ level: 2, title: "Authentication", line: 5 },
+				{ level: 3, title: "Refresh", line: 13 },
+				{ level: 2, title: "Errors", line: 17 },
+			]);
+		});
+
+		it("ignores comments in YAML frontmatter", () => {
+			const content = "---\nname: demo\n# comment\n---\n\n# Demo";
+
+			expect(listHeadings(content)).toEqual([
+				{ level: 1, title: "Demo", line: 6 },
+			]);
+		});
+	});
+
+	describe("formatToc", () => {
+		it("renders headings with aligned line numbers", () => {
+			expect(formatToc(DOC)).toBe(
+				" 1: # API Guide\n 5: ## Authentication\n13: ### Refresh\n17: ## Errors",
+			);
+		});
+	});
+
+	describe("readLines", () => {
+		it("returns the whole document by default", () => {
+			const range = readLines(DOC);
+
+			expect(range.text).toBe(DOC);
+			expect(range.startLine).toBe(1);
+			expect(range.endLine).toBe(19);
+			expect(range.totalLines).toBe(19);
+		});
+
+		it("returns a window with offset and limit", () => {
+			const range = readLines(DOC, { offset: 5, limit: 3 });
+
+			expect(range.text).toBe("## Authentication\n\nUse tokens.");
+			expect(describeRange(range)).toBe(
+				"Lines 5-7 of 19. Continue with offset=8.",
+			);
+		});
+
+		it("returns a section including its subsections", () => {
+			const range = readLines(DOC, { section: "authentication" });
+
+			expect(range.text.split("\n")[0]).toBe("## Authentication");
+			expect(range.text).toContain("Refresh tokens daily.");
+			expect(range.text).not.toContain("Retry on 503.");
+			expect(describeRange(range)).toBe(
+				"Lines 1-12 of 12 in section 'Authentication'.",
+			);
+		});
+
+		it("pages within a section", () => {
+			const range = readLines(DOC, {
+				section: "## Errors",
+				offset: 3,
+				limit: 10,
+			});
+
+			expect(range.text).toBe("Retry on 503.");
+			expect(range.totalLines).toBe(3);
+		});
+
+		it("lists available sections when the heading is unknown", () => {
+			expect(() => readLines(DOC, { section: "Setup" })).toThrow(
+				"Available sections: API Guide, Authentication, Refresh, Errors",
+			);
+		});
+
+		it("rejects offsets past the end", () => {
+			expect(() => readLines(DOC, { offset: 50 })).toThrow(
+				"Offset 50 is past the end (19 lines).",
+			);
+		});
+	});
+});
@@ -0,0 +1,129 @@
+/**
+ * Tests for promptArguments - argument schemas, coercion and formatting.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	buildArgumentSchema,
+	formatArgumentValue,
+	isArgumentRequired,
+} from "../../src/promptArguments.js";
+
+describe("promptArguments", () => {
+	describe("isArgumentRequired", () => {
+		it("infers requiredness when not declared", () => {
+			expect(isArgumentRequired({})).toBe(true);
+			expect(isArgumentRequired({ type: "number" })).toBe(true);
+			expect(isArgumentRequired({ type: "boolean" })).toBe(false);
+			expect(isArgumentRequired({ default: "x" })).toBe(false);
+		});
+
+		it("uses the explicit required flag", () => {
+			expect(isArgumentRequired({ required: false })).toBe(false);
+			expect(isArgumentRequired({ type: "boolean", required: true })).toBe(
+				true,
+			);
+		});
+	});
+
+	describe("buildArgumentSchema", () => {
+		it("coerces numbers and checks bounds", () => {
+			const schema = buildArgumentSchema({ type: "number", min: 1, max: 10 });
+
+			expect(schema.parse("5")).toBe(5);
+			expect(schema.parse(7)).toBe(7);
+			expect(schema.safeParse("11").success).toBe(false);
+			expect(schema.safeParse("many").success).toBe(false);
+			expect(schema.safeParse(undefined).success).toBe(false);
+		});
+
+		it("coerces booleans", () => {
+			const schema = buildArgumentSchema({ type: "boolean" });
+
+			expect(schema.parse("true")).toBe(true);
+			expect(schema.parse("No")).toBe(false);
+			expect(schema.parse("")).toBeUndefined();
+			expect(schema.safeParse("maybe").success).toBe(false);
+		});
+
+		it("checks string length and pattern", () => {
+			const schema = buildArgumentSchema({
+				min: 3,
+				max: 8,
+				pattern: "^[a-z-]+$",
+			});
+
+			expect(schema.parse("feature")).toBe("feature");
+			expect(schema.safeParse("ab").success).toBe(false);
+			expect(schema.safeParse("Feature").error?.issues[0].message).toBe(
+				"Must match pattern ^[a-z-]+$",
+			);
+		});
+
+		it("restricts enum values", () => {
+			const schema = buildArgumentSchema({
+				type: "enum",
+				enum: ["staging", "production"],
+			});
+
+			expect(schema.parse("staging")).toBe("staging");
+			expect(schema.safeParse("dev").success).toBe(false);
+		});
+
+		it("splits string lists from commas, lines or JSON", () => {
+			const schema = buildArgumentSchema({
+				type: "string[]",
+				max: 3,
+				pattern: "^\\w+$",
+			});
+
+			expect(schema.parse("api, web")).toEqual(["api", "web"]);
+			expect(schema.parse("api\nweb\n")).toEqual(["api", "web"]);
+			expect(schema.parse('["api", "web"]')).toEqual(["api", "web"]);
+			expect(schema.safeParse("a, b, c, d").success).toBe(false);
+			expect(schema.safeParse("a b").success).toBe(false);
+		});
+
+		it("parses JSON values", () => {
+			const schema = buildArgumentSchema({ type: "json" });
+
+			expect(schema.parse('{"retries": 3}')).toEqual({ retries: 3 });
+			expect(schema.parse("[1, 2]")).toEqual([1, 2]);
+			expect(schema.safeParse("{oops").error?.issues[0].message).toMatch(
+				/^Invalid JSON/,
+			);
+			expect(schema.safeParse(undefined).success).toBe(false);
+		});
+
+		it("applies defaults for missing and empty values", () => {
+			const schema = buildArgumentSchema({ type: "number", default: 10 });
+
+			expect(schema.parse(undefined)).toBe(10);
+			expect(schema.parse("")).toBe(10);
+			expect(schema.parse("3")).toBe(3);
+		});
+
+		it("makes arguments optional with required: false", () => {
+			const schema = buildArgumentSchema({ type: "json", required: false });
+
+			expect(schema.parse(undefined)).toBeUndefined();
+			expect(schema.isOptional()).toBe(true);
+			expect(buildArgumentSchema({ type: "json" }).isOptional()).toBe(false);
+		});
+
+		it("keeps the description", () => {
+			expect(buildArgumentSchema({ description: "Target" }).description).toBe(
+				"Target",
+			);
+		});
+	});
+
+	describe("formatArgumentValue", () => {
+		it("formats values for substitution", () => {
+			expect(formatArgumentValue("text")).toBe("text");
+			expect(formatArgumentValue(3)).toBe("3");
+			expect(formatArgumentValue(["api", "web"])).toBe("api, web");
+			expect(formatArgumentValue({ a: 1 })).toBe('{\n  "a": 1\n}');
+		});
+	});
+});
@@ -5,7 +5,12 @@
 import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import {
+	getCompleter,
+	isCompletable,
+} from "@modelcontextprotocol/sdk/server/completable.js";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { type LogEntry, Logger } from "../../src/logger.js";
 import { PromptManager } from "../../src/promptManager.js";
 import dedent from "dedent";
 import { z } from "zod";
@@ -496,6 +501,81 @@ describe("PromptManager", () => {
 			expect(withNumber.maxIssues).toBe(5);
 		});
 
+		it("restricts enum arguments and makes them completable", async () => {
+			const promptsDir = join(TEST_DIR, "prompts");
+			mkdirSync(promptsDir, { recursive: true });
+			writeFileSync(
+				join(promptsDir, "deploy.md"),
+				dedent`---
+					name: deploy
+					description: Test
+					arguments:
+					  env:
+					    description: Target environment
+					    enum: [staging, production]
+					  region:
+					    suggestions: [eu-west-1, us-east-1]
+					  skill:
+					    description: Skill to follow
+					  notes:
+					    description: Free text
+					---
+
+					{{env}} {{region}} {{skill}} {{notes}}
+				`,
+			);
+
+			const manager = new PromptManager([TEST_DIR], false);
+			const shape = manager.buildArgsSchema("deploy", () => [
+				"code-review",
+				"deploy",
+			]);
+			const schema = z.object(shape);
+
+			expect(() =>
+				schema.parse({ env: "dev", region: "x", skill: "y", notes: "" }),
+			).toThrow();
+			expect(
+				schema.parse({ env: "staging", region: "x", skill: "y", notes: "" })
+					.env,
+			).toBe("staging");
+
+			expect(await getCompleter(shape.env)?.("pro")).toEqual(["production"]);
+			expect(await getCompleter(shape.region)?.("us-e")).toEqual(["us-east-1"]);
+			expect(await getCompleter(shape.skill)?.("dep")).toEqual(["deploy"]);
+			expect(isCompletable(shape.notes)).toBe(false);
+		});
+
+		it("completes arguments typed as skill", async () => {
+			const promptsDir = join(TEST_DIR, "prompts");
+			mkdirSync(promptsDir, { recursive: true });
+			writeFileSync(
+				join(promptsDir, "apply.md"),
+				dedent`---
+					name: apply
+					description: Test
+					arguments:
+					  target:
+					    type: skill
+					    description: Skill to apply
+					---
+
+					{{target}}
+				`,
+			);
+
+			const manager = new PromptManager([TEST_DIR], false);
+			const shape = manager.buildArgsSchema("apply", () => [
+				"code-review",
+				"deploy",
+			]);
+
+			expect(await getCompleter(shape.target)?.("cr")).toEqual(["code-review"]);
+			expect(z.object(shape).parse({ target: "anything" }).target).toBe(
+				"anything",
+			);
+		});
+
 		it("returns empty schema for prompts without arguments", () => {
 			createTestPrompt(TEST_DIR, "no-schema");
 
@@ -634,4 +714,64 @@ describe("PromptManager", () => {
 			expect(prompt?.arguments).toBeUndefined();
 		});
 	});
+
+	describe("getSources", () => {
+		it("lists each prompts/ directory with its prompts and shadowed prompts", () => {
+			const high = join(TEST_DIR, "high");
+			const low = join(TEST_DIR, "low");
+			createTestPrompt(high, "shared-prompt");
+			createTestPrompt(low, "shared-prompt");
+			createTestPrompt(low, "low-only");
+
+			const sources = new PromptManager([high, low], false).getSources();
+
+			expect(sources).toEqual([
+				{
+					path: join(high, "prompts"),
+					origin: "cli",
+					prompts: ["shared-prompt"],
+					shadowed: [],
+				},
+				{
+					path: join(low, "prompts"),
+					origin: "cli",
+					prompts: ["low-only"],
+					shadowed: [
+						{
+							name: "shared-prompt",
+							path: join(low, "prompts", "shared-prompt.md"),
+							winner: join(high, "prompts"),
+						},
+					],
+				},
+			]);
+		});
+	});
+
+	describe("logging", () => {
+		it("reports shadowed prompt names once", () => {
+			const high = join(TEST_DIR, "high");
+			const low = join(TEST_DIR, "low");
+			createTestPrompt(high, "shared-prompt");
+			createTestPrompt(low, "shared-prompt");
+			const logger = new Logger();
+			const entries: LogEntry[] = [];
+			logger.subscribe((entry) => entries.push(entry));
+
+			const manager = new PromptManager([high, low], false, { logger });
+			manager.listAll();
+			manager.listAll();
+
+			expect(entries).toHaveLength(1);
+			expect(entries[0]).toMatchObject({
+				level: "notice",
+				logger: "prompts",
+				data: {
+					prompt: "shared-prompt",
+					winner: join(high, "prompts", "shared-prompt.md"),
+					shadowed: join(low, "prompts", "shared-prompt.md"),
+				},
+			});
+		});
+	});
 });
@@ -0,0 +1,120 @@
+/**
+ * Tests for safePath - resolving client paths inside a skill.
+ */
+
+import {
+	existsSync,
+	mkdirSync,
+	rmSync,
+	symlinkSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { resolveWithin, UnsafePathError } from "../../src/safePath.js";
+
+const TEST_DIR = join(tmpdir(), `skillkit-safepath-test-${Date.now()}`);
+const ROOT = join(TEST_DIR, "repo");
+const SCRIPTS = join(ROOT, "skills", "demo", "scripts");
+
+function codeOf(fn: () => unknown): string | undefined {
+	try {
+		fn();
+	} catch (e) {
+		if (e instanceof UnsafePathError) return e.code;
+		throw e;
+	}
+	return undefined;
+}
+
+describe("resolveWithin", () => {
+	beforeEach(() => {
+		mkdirSync(SCRIPTS, { recursive: true });
+		writeFileSync(join(SCRIPTS, "run.sh"), "echo hi");
+		writeFileSync(join(ROOT, "shared.sh"), "echo shared");
+		writeFileSync(join(TEST_DIR, "secret.txt"), "secret");
+	});
+
+	afterEach(() => {
+		if (existsSync(TEST_DIR)) {
+			rmSync(TEST_DIR, { recursive: true, force: true });
+		}
+	});
+
+	it("resolves plain and nested filenames", () => {
+		expect(resolveWithin(SCRIPTS, "run.sh", { root: ROOT })).toBe(
+			join(SCRIPTS, "run.sh"),
+		);
+		expect(resolveWithin(SCRIPTS, "db/./migrate.ts", { root: ROOT })).toBe(
+			join(SCRIPTS, "db", "migrate.ts"),
+		);
+	});
+
+	it("rejects paths that leave the folder", () => {
+		for (const path of [
+			"../SKILL.md",
+			"../../../../etc/passwd",
+			"db/../../SKILL.md",
+			"..\\..\\secret.txt",
+		]) {
+			expect(codeOf(() => resolveWithin(SCRIPTS, path, { root: ROOT }))).toBe(
+				"PATH_TRAVERSAL",
+			);
+		}
+	});
+
+	it("rejects absolute paths and drive letters", () => {
+		expect(
+			codeOf(() => resolveWithin(SCRIPTS, "/etc/passwd", { root: ROOT })),
+		).toBe("PATH_TRAVERSAL");
+		expect(
+			codeOf(() => resolveWithin(SCRIPTS, "C:\\Windows", { root: ROOT })),
+		).toBe("PATH_TRAVERSAL");
+	});
+
+	it("rejects empty paths and null bytes", () => {
+		expect(codeOf(() => resolveWithin(SCRIPTS, "", { root: ROOT }))).toBe(
+			"INVALID_PATH",
+		);
+		expect(
+			codeOf(() => resolveWithin(SCRIPTS, "run.sh\0.md", { root: ROOT })),
+		).toBe("INVALID_PATH");
+	});
+
+	describe("symlinks", () => {
+		beforeEach(() => {
+			symlinkSync(join(TEST_DIR, "secret.txt"), join(SCRIPTS, "outside.sh"));
+			symlinkSync(join(ROOT, "shared.sh"), join(SCRIPTS, "inside.sh"));
+		});
+
+		it("allows links within the source root by default", () => {
+			expect(resolveWithin(SCRIPTS, "inside.sh", { root: ROOT })).toBe(
+				join(SCRIPTS, "inside.sh"),
+			);
+			expect(
+				codeOf(() => resolveWithin(SCRIPTS, "outside.sh", { root: ROOT })),
+			).toBe("SYMLINK_ESCAPE");
+		});
+
+		it("rejects every link with the deny policy", () => {
+			const options = { root: ROOT, symlinkPolicy: "deny" as const };
+
+			expect(resolveWithin(SCRIPTS, "run.sh", options)).toBe(
+				join(SCRIPTS, "run.sh"),
+			);
+			expect(codeOf(() => resolveWithin(SCRIPTS, "inside.sh", options))).toBe(
+				"SYMLINK_DENIED",
+			);
+		});
+
+		it("follows any link with the follow policy", () => {
+			expect(
+				resolveWithin(SCRIPTS, "outside.sh", {
+					root: ROOT,
+					symlinkPolicy: "follow",
+				}),
+			).toBe(join(SCRIPTS, "outside.sh"));
+		});
+	});
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for BM25F skill ranking.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	extractHeadings,
+	rankDocuments,
+	type SearchDocument,
+	tokenize,
+} from "../../src/search.js";
+
+function doc(
+	overrides: Partial<SearchDocument> & { name: string },
+): SearchDocument {
+	return {
+		description: "",
+		headings: [],
+		body: "",
+		references: [],
+		...overrides,
+	};
+}
+
+describe("tokenize", () => {
+	it("lowercases and splits on punctuation", () => {
+		expect(tokenize("Code-Review: PRs")).toEqual(["code", "review", "prs"]);
+	});
+
+	it("drops stopwords and single characters", () => {
+		expect(tokenize("how to use a linter")).toEqual(["linter"]);
+	});
+});
+
+describe("extractHeadings", () => {
+	it("returns heading text without markers", () => {
+		const body = "# Title\n\nText\n\n## Step 1: Setup ##\n### Notes";
+		expect(extractHeadings(body)).toEqual(["Title", "Step 1: Setup", "Notes"]);
+	});
+});
+
+describe("rankDocuments", () => {
+	it("ranks name matches above body matches", () => {
+		const docs = [
+			doc({ name: "general", body: "You can also deploy things here." }),
+			doc({ name: "deploy", description: "Ship services" }),
+		];
+
+		const results = rankDocuments(docs, "deploy", 10);
+
+		expect(results.map((r) => r.name)).toEqual(["deploy", "general"]);
+		expect(results[0].score).toBeGreaterThan(results[1].score);
+	});
+
+	it("omits documents without any matching term", () => {
+		const docs = [
+			doc({ name: "alpha", description: "Database migrations" }),
+			doc({ name: "beta", description: "Frontend styling" }),
+		];
+
+		const results = rankDocuments(docs, "migrations", 10);
+
+		expect(results).toHaveLength(1);
+		expect(results[0].name).toBe("alpha");
+	});
+
+	it("matches reference filenames", () => {
+		const docs = [
+			doc({ name: "api", references: ["oauth-flow.md"] }),
+			doc({ name: "other", description: "Unrelated" }),
+		];
+
+		const results = rankDocuments(docs, "oauth", 10);
+
+		expect(results[0].name).toBe("api");
+		expect(results[0].snippets).toContain("references/oauth-flow.md");
+	});
+
+	it("returns matching lines as snippets", () => {
+		const docs = [
+			doc({
+				name: "review",
+				body: "# Review\n\nCheck for SQL injection.\nUnrelated line.",
+			}),
+		];
+
+		const results = rankDocuments(docs, "sql injection", 10);
+
+		expect(results[0].snippets).toEqual(["Check for SQL injection."]);
+	});
+
+	it("respects the limit", () => {
+		const docs = ["a", "b", "c"].map((n) =>
+			doc({ name: `skill-${n}`, description: "testing helpers" }),
+		);
+
+		expect(rankDocuments(docs, "testing", 2)).toHaveLength(2);
+	});
+
+	it("returns nothing for a query of only stopwords", () => {
+		const docs = [doc({ name: "the", description: "and the" })];
+
+		expect(rankDocuments(docs, "the and", 10)).toEqual([]);
+	});
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for semver - versions and ranges for skill versions.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	coerceVersion,
+	compareVersions,
+	formatVersion,
+	InvalidRangeError,
+	parseVersion,
+	type SemVer,
+	satisfies,
+} from "../../src/semver.js";
+
+function v(text: string): SemVer {
+	const version = parseVersion(text);
+	if (!version) throw new Error(`not a version: ${text}`);
+	return version;
+}
+
+describe("parseVersion", () => {
+	it("parses full versions with pre-release and build metadata", () => {
+		expect(parseVersion("2.0.0-beta.1+abc")).toEqual({
+			major: 2,
+			minor: 0,
+			patch: 0,
+			prerelease: ["beta", 1],
+		});
+		expect(formatVersion(v("v1.2.3"))).toBe("1.2.3");
+	});
+
+	it("rejects partial and malformed versions", () => {
+		expect(parseVersion("2")).toBeUndefined();
+		expect(parseVersion("2.1")).toBeUndefined();
+		expect(parseVersion("latest")).toBeUndefined();
+	});
+});
+
+describe("coerceVersion", () => {
+	it("fills missing parts with zeros", () => {
+		expect(formatVersion(coerceVersion("2") as SemVer)).toBe("2.0.0");
+		expect(formatVersion(coerceVersion("2.1") as SemVer)).toBe("2.1.0");
+		expect(coerceVersion("next")).toBeUndefined();
+	});
+});
+
+describe("compareVersions", () => {
+	it("orders by precedence, stable after its pre-releases", () => {
+		const sorted = [
+			"2.0.0",
+			"1.10.0",
+			"2.0.0-beta.2",
+			"2.0.0-alpha",
+			"1.2.0",
+			"2.0.0-beta.10",
+		]
+			.map(v)
+			.sort(compareVersions)
+			.map(formatVersion);
+
+		expect(sorted).toEqual([
+			"1.2.0",
+			"1.10.0",
+			"2.0.0-alpha",
+			"2.0.0-beta.2",
+			"2.0.0-beta.10",
+			"2.0.0",
+		]);
+	});
+});
+
+describe("satisfies", () => {
+	it.each([
+		["1.4.2", "1", true],
+		["2.0.0", "1", false],
+		["1.4.2", "1.x", true],
+		["1.4.2", "1.4", true],
+		["1.5.0", "1.4", false],
+		["1.4.2", "^1.2", true],
+		["2.0.0", "^1.2", false],
+		["0.2.5", "^0.2.1", true],
+		["0.3.0", "^0.2.1", false],
+		["1.4.9", "~1.4.2", true],
+		["1.5.0", "~1.4.2", false],
+		["1.4.2", "1.4.2", true],
+		["1.4.3", "=1.4.2", false],
+		["1.9.0", ">=1.2.0 <2", true],
+		["2.0.0", ">=1.2.0 <2", false],
+		["2.0.0", ">1", true],
+		["1.9.0", ">1", false],
+		["1.2.9", "<=1.2", true],
+		["3.0.0", "1 || >=3", true],
+		["5.0.0", "*", true],
+	])("%s in '%s' is %s", (version, range, expected) => {
+		expect(satisfies(v(version), range)).toBe(expected);
+	});
+
+	it("only matches pre-releases the range names", () => {
+		expect(satisfies(v("2.1.0-beta.1"), "^2")).toBe(false);
+		expect(satisfies(v("2.0.0-beta.1"), "<2")).toBe(false);
+		expect(satisfies(v("2.0.0-beta.1"), "2.0.0-beta.1")).toBe(true);
+		expect(satisfies(v("2.0.0-beta.3"), ">=2.0.0-beta.2")).toBe(true);
+		expect(satisfies(v("2.0.0"), ">=2.0.0-beta.2")).toBe(true);
+	});
+
+	it("throws on ranges it cannot parse", () => {
+		expect(() => satisfies(v("1.0.0"), "latest")).toThrow(InvalidRangeError);
+		expect(() => satisfies(v("1.0.0"), ">=one")).toThrow(
+			"Invalid version range '>=one'",
+		);
+	});
+});
@@ -2,10 +2,19 @@
  * Tests for SkillManager - skill discovery and content retrieval.
  */
 
-import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
-import { tmpdir } from "node:os";
+import {
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { homedir, tmpdir } from "node:os";
 import { join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { localSourcePath } from "../../src/gitSource.js";
+import { type LogEntry, Logger } from "../../src/logger.js";
+import { UnsafePathError } from "../../src/safePath.js";
 import { SkillManager } from "../../src/skillManager.js";
 import dedent from "dedent";
 
@@ -88,7 +97,7 @@ describe("SkillManager", () => {
 			const manager = new SkillManager([TEST_DIR], false);
 			const skills = manager.listAll();
 
-			expect(skills[0]).toEqual({
+			expect(skills[0]).toMatchObject({
 				name: "my-skill",
 				description: "Custom description",
 			});
@@ -145,6 +154,56 @@ describe("SkillManager", () => {
 			expect(() => manager.getContent("nonexistent")).toThrow(/skill-a/);
 			expect(() => manager.getContent("nonexistent")).toThrow(/skill-b/);
 		});
+
+		it("expands include directives from other skills and references", () => {
+			const shared = join(TEST_DIR, "shared");
+			createTestSkill(shared, "conventions");
+			writeFileSync(
+				join(shared, "skills", "conventions", "SKILL.md"),
+				"---\nname: conventions\ndescription: Shared\n---\n\n## Commit Messages\n\nUse the imperative mood.\n\n## Other\n\nSkipped.\n",
+			);
+			const skillDir = join(TEST_DIR, "skills", "deploy");
+			mkdirSync(join(skillDir, "references"), { recursive: true });
+			writeFileSync(join(skillDir, "references", "steps.md"), "1. Ship it\n");
+			writeFileSync(
+				join(skillDir, "SKILL.md"),
+				"---\nname: deploy\ndescription: Deploy\n---\n\n<!-- include: conventions#Commit Messages -->\n\n<!-- include: references/steps.md -->\n",
+			);
+
+			const manager = new SkillManager([TEST_DIR, shared], false);
+
+			expect(manager.getContent("deploy")).toBe(
+				"---\nname: deploy\ndescription: Deploy\n---\n\n## Commit Messages\n\nUse the imperative mood.\n\n1. Ship it\n",
+			);
+			expect(manager.getDetails("deploy").body).toContain(
+				"Use the imperative mood.",
+			);
+		});
+
+		it("logs includes that cannot be expanded", () => {
+			createTestSkill(TEST_DIR, "loop");
+			writeFileSync(
+				join(TEST_DIR, "skills", "loop", "SKILL.md"),
+				"---\nname: loop\ndescription: Loop\n---\n\n## Start\n\n<!-- include: loop#Start -->\n",
+			);
+			const logger = new Logger();
+			const entries: LogEntry[] = [];
+			logger.subscribe((entry) => entries.push(entry));
+
+			const manager = new SkillManager([TEST_DIR], false, { logger });
+
+			expect(manager.getContent("loop")).toContain(
+				"<!-- include failed: loop#Start -->",
+			);
+			expect(entries).toMatchObject([
+				{
+					level: "warning",
+					message:
+						"Include 'loop#Start' in loop/SKILL.md: include cycle loop/SKILL.md#start -> loop/SKILL.md#start",
+					data: { skill: "loop" },
+				},
+			]);
+		});
 	});
 
 	describe("getScript", () => {
@@ -160,6 +219,20 @@ describe("SkillManager", () => {
 			expect(script).toBe("console.log('hello');");
 		});
 
+		it("rejects filenames that escape the scripts folder", () => {
+			createTestSkill(TEST_DIR, "test-skill");
+			writeFileSync(join(TEST_DIR, "secret.txt"), "secret");
+
+			const manager = new SkillManager([TEST_DIR], false);
+
+			expect(() =>
+				manager.getScript("test-skill", "../../../secret.txt"),
+			).toThrow(UnsafePathError);
+			expect(() => manager.getReference("test-skill", "../SKILL.md")).toThrow(
+				"resolves outside the references/ folder",
+			);
+		});
+
 		it("throws for unknown script", () => {
 			createTestSkill(TEST_DIR, "test-skill");
 
@@ -182,6 +255,22 @@ describe("SkillManager", () => {
 				/exists.ts/,
 			);
 		});
+
+		it("reads nested scripts and lists them in errors", () => {
+			createTestSkill(TEST_DIR, "test-skill");
+			const dbDir = join(TEST_DIR, "skills", "test-skill", "scripts", "db");
+			mkdirSync(dbDir, { recursive: true });
+			writeFileSync(join(dbDir, "migrate.ts"), "migrate();");
+
+			const manager = new SkillManager([TEST_DIR], false);
+
+			expect(manager.getScript("test-skill", "db/migrate.ts")).toBe(
+				"migrate();",
+			);
+			expect(() => manager.getScript("test-skill", "migrate.ts")).toThrow(
+				"Available scripts: db/migrate.ts",
+			);
+		});
 	});
 
 	describe("getReference", () => {
@@ -208,6 +297,340 @@ describe("SkillManager", () => {
 		});
 	});
 
+	describe("listScripts and listReferences", () => {
+		it("returns sorted filenames", () => {
+			createTestSkill(TEST_DIR, "test-skill");
+			const skillDir = join(TEST_DIR, "skills", "test-skill");
+			mkdirSync(join(skillDir, "scripts"), { recursive: true });
+			mkdirSync(join(skillDir, "references"), { recursive: true });
+			writeFileSync(join(skillDir, "scripts", "b.sh"), "");
+			writeFileSync(join(skillDir, "scripts", "a.ts"), "");
+			writeFileSync(join(skillDir, "references", "guide.md"), "");
+
+			const manager = new SkillManager([TEST_DIR], false);
+
+			expect(manager.listScripts("test-skill")).toEqual(["a.ts", "b.sh"]);
+			expect(manager.listReferences("test-skill")).toEqual(["guide.md"]);
+		});
+
+		it("includes files in nested subdirectories", () => {
+			createTestSkill(TEST_DIR, "test-skill");
+			const refsDir = join(TEST_DIR, "skills", "test-skill", "references");
+			mkdirSync(join(refsDir, "api", "v2"), { recursive: true });
+			writeFileSync(join(refsDir, "api", "v2", "auth.md"), "");
+			writeFileSync(join(refsDir, "overview.md"), "");
+
+			const manager = new SkillManager([TEST_DIR], false);
+
+			expect(manager.listReferences("test-skill")).toEqual([
+				"api/v2/auth.md",
+				"overview.md",
+			]);
+		});
+
+		it("returns empty arrays when folders are missing", () => {
+			createTestSkill(TEST_DIR, "test-skill");
+
+			const manager = new SkillManager([TEST_DIR], false);
+
+			expect(manager.listScripts("test-skill")).toEqual([]);
+			expect(manager.listReferences("test-skill")).toEqual([]);
+		});
+
+		it("throws for unknown skill", () => {
+			const manager = new SkillManager([TEST_DIR], false);
+
+			expect(() => manager.listScripts("nonexistent")).toThrow(
+				"Skill 'nonexistent' not found",
+			);
+		});
+	});
+
+	describe("size metadata", () => {
+		it("reports sizes for SKILL.md, scripts and references", () => {
+			createTestSkill(TEST_DIR, "test-skill");
+			const skillDir = join(TEST_DIR, "skills", "test-skill");
+			mkdirSync(join(skillDir, "references", "api"), { recursive: true });
+			writeFileSync(
+				join(skillDir, "references", "api", "auth.md"),
+				"Use tokens.",
+			);
+
+			const manager = new SkillManager([TEST_DIR], false);
+			const [skill] = manager.listAll();
+
+			expect(skill.tokens).toBeGreaterThan(0);
+			expect(skill.bytes).toBe(readFileSync(join(skillDir, "SKILL.md")).length);
+			expect(skill.files).toEqual([
+				{ path: "references/api/auth.md", tokens: 4, bytes: 11 },
+			]);
+		});
+
+		it("filters skills by maxTokens", () => {
+			createTestSkill(TEST_DIR, "short-skill");
+			createTestSkill(TEST_DIR, "long-skill", {
+				description: "word ".repeat(200).trim(),
+			});
+
+			const manager = new SkillManager([TEST_DIR], false);
+
+			expect(manager.listAll(100).map((s) => s.name)).toEqual(["short-skill"]);
+			expect(manager.listAll()).toHaveLength(2);
+		});
+	});
+
+	describe("getContentHash and isReadOnly", () => {
+		it("changes the hash when any skill file changes", () => {
+			createTestSkill(TEST_DIR, "test-skill");
+			const manager = new SkillManager([TEST_DIR], false);
+			const before = manager.getContentHash("test-skill");
+
+			const scriptsDir = join(TEST_DIR, "skills", "test-skill", "scripts");
+			mkdirSync(scriptsDir, { recursive: true });
+			writeFileSync(join(scriptsDir, "run.sh"), "echo hi");
+
+			expect(manager.getContentHash("test-skill")).not.toBe(before);
+		});
+
+		it("treats bundled skills as read-only", () => {
+			createTestSkill(TEST_DIR, "test-skill");
+			const manager = new SkillManager([TEST_DIR], true);
+
+			expect(manager.isReadOnly("test-skill")).toBe(false);
+			expect(manager.isReadOnly("skill-creator")).toBe(true);
+		});
+	});
+
+	describe("getDetails", () => {
+		it("returns parsed frontmatter, body, source and file inventory", () => {
+			createTestSkill(TEST_DIR, "test-skill", { description: "Does things" });
+			const skillDir = join(TEST_DIR, "skills", "test-skill");
+			mkdirSync(join(skillDir, "scripts", "db"), { recursive: true });
+			mkdirSync(join(skillDir, "references"), { recursive: true });
+			writeFileSync(join(skillDir, "scripts", "db", "migrate.py"), "print(1)");
+			writeFileSync(join(skillDir, "references", "guide.md"), "# Guide");
+
+			const manager = new SkillManager([TEST_DIR], false);
+			const details = manager.getDetails("test-skill");
+
+			expect(details).toMatchObject({
+				name: "test-skill",
+				path: skillDir,
+				source: { path: TEST_DIR, kind: "local" },
+				frontmatter: { name: "test-skill", description: "Does things" },
+				hash: manager.getContentHash("test-skill"),
+			});
+			expect(details.body).toBe("\n# test-skill\n\nTest skill content.");
+			expect(details.scripts).toEqual([
+				{ name: "db/migrate.py", type: "text/x-python", tokens: 4, bytes: 8 },
+			]);
+			expect(details.references).toEqual([
+				expect.objectContaining({ name: "guide.md", type: "text/markdown" }),
+			]);
+		});
+
+		it("marks bundled skills", () => {
+			const manager = new SkillManager([TEST_DIR], true);
+
+			expect(manager.getDetails("skill-creator").source.kind).toBe("bundled");
+		});
+	});
+
+	describe("getDependencies", () => {
+		function createRequiringSkill(
+			baseDir: string,
+			skillName: string,
+			requires: string[],
+		): void {
+			const skillDir = join(baseDir, "skills", skillName);
+			mkdirSync(skillDir, { recursive: true });
+			writeFileSync(
+				join(skillDir, "SKILL.md"),
+				`---\nname: ${skillName}\ndescription: Test\nrequires: [${requires.join(", ")}]\n---\n\nBody.\n`,
+			);
+		}
+
+		it("resolves requirements across sources in load order", () => {
+			const team = join(TEST_DIR, "team");
+			const base = join(TEST_DIR, "base");
+			createRequiringSkill(team, "deploy", ["k8s-conventions", "docker"]);
+			createRequiringSkill(base, "k8s-conventions", ["yaml-style"]);
+			createTestSkill(base, "docker");
+			createTestSkill(base, "yaml-style");
+
+			const manager = new SkillManager([team, base], false);
+
+			expect(manager.getDependencies("deploy")).toEqual([
+				"yaml-style",
+				"k8s-conventions",
+				"docker",
+			]);
+			expect(manager.getDependencies("docker")).toEqual([]);
+		});
+
+		it("logs missing skills and cycles and leaves them out", () => {
+			createRequiringSkill(TEST_DIR, "deploy", ["cluster", "gone"]);
+			createRequiringSkill(TEST_DIR, "cluster", ["deploy"]);
+			const logger = new Logger();
+			const entries: LogEntry[] = [];
+			logger.subscribe((entry) => entries.push(entry));
+
+			const manager = new SkillManager([TEST_DIR], false, { logger });
+
+			expect(manager.getDependencies("deploy")).toEqual(["cluster"]);
+			expect(entries.map((e) => [e.level, e.message])).toEqual([
+				["warning", "Skill 'deploy' requires 'gone', which was not found"],
+				["warning", "Dependency cycle: deploy -> cluster -> deploy"],
+			]);
+		});
+	});
+
+	describe("versions", () => {
+		function createVersion(folder: string, version?: string): void {
+			const skillDir = join(TEST_DIR, "skills", folder);
+			mkdirSync(skillDir, { recursive: true });
+			writeFileSync(
+				join(skillDir, "SKILL.md"),
+				`---\nname: deploy\ndescription: Deploy ${version ?? "unversioned"}\n${version ? `version: ${version}\n` : ""}---\n\n# Deploy ${version}\n`,
+			);
+		}
+
+		beforeEach(() => {
+			createVersion("deploy", "1.4.0");
+			createVersion("deploy@2", "2.0.0-beta.1");
+			createVersion("deploy@1.3", "1.3.2");
+		});
+
+		it("serves the latest stable version by default", () => {
+			const manager = new SkillManager([TEST_DIR], false);
+
+			expect(manager.listAll()).toEqual([
+				expect.objectContaining({
+					name: "deploy",
+					description: "Deploy 1.4.0",
+					version: "1.4.0",
+					versions: ["2.0.0-beta.1", "1.4.0", "1.3.2"],
+				}),
+			]);
+			expect(manager.getContent("deploy")).toContain("# Deploy 1.4.0");
+			expect(manager.getDetails("deploy").version).toBe("1.4.0");
+		});
+
+		it("resolves version ranges", () => {
+			const manager = new SkillManager([TEST_DIR], false);
+
+			expect(manager.getContent("deploy@~1.3")).toContain("# Deploy 1.3.2");
+			expect(manager.getContent("deploy@1")).toContain("# Deploy 1.4.0");
+			expect(manager.getContent("deploy@2.0.0-beta.1")).toContain(
+				"# Deploy 2.0.0-beta.1",
+			);
+			expect(manager.getSkillPath("deploy@>=2.0.0-beta")).toBe(
+				join(TEST_DIR, "skills", "deploy@2"),
+			);
+		});
+
+		it("reports ranges with no matching version", () => {
+			const manager = new SkillManager([TEST_DIR], false);
+
+			expect(() => manager.getContent("deploy@^2")).toThrow(
+				"Skill 'deploy' has no version matching '^2'. Available versions: 2.0.0-beta.1, 1.4.0, 1.3.2",
+			);
+		});
+
+		it("falls back to the folder suffix and to pre-releases", () => {
+			rmSync(join(TEST_DIR, "skills", "deploy"), { recursive: true });
+			rmSync(join(TEST_DIR, "skills", "deploy@1.3"), { recursive: true });
+			createVersion("deploy@3");
+
+			const manager = new SkillManager([TEST_DIR], false);
+
+			expect(manager.listAll()[0]).toMatchObject({
+				version: "3.0.0",
+				versions: ["3.0.0", "2.0.0-beta.1"],
+			});
+			rmSync(join(TEST_DIR, "skills", "deploy@3"), { recursive: true });
+			expect(manager.listAll()[0].version).toBe("2.0.0-beta.1");
+		});
+
+		it("takes every version from the highest priority source", () => {
+			const high = join(TEST_DIR, "high");
+			const low = join(TEST_DIR, "low");
+			createTestSkill(high, "deploy", { description: "Maintained deploy" });
+			createTestSkill(low, "deploy@2", { name: "deploy" });
+
+			const manager = new SkillManager([high, low], false);
+
+			expect(manager.listAll()).toEqual([
+				expect.objectContaining({
+					name: "deploy",
+					description: "Maintained deploy",
+				}),
+			]);
+			expect(manager.listAll()[0].versions).toBeUndefined();
+			expect(manager.getSkillPath("deploy")).toBe(
+				join(high, "skills", "deploy"),
+			);
+			expect(() => manager.getContent("deploy@2")).toThrow(
+				"has no version matching '2'",
+			);
+			expect(manager.getSources()[1]).toMatchObject({
+				path: low,
+				skills: [],
+				shadowed: [
+					{
+						name: "deploy@2",
+						path: join(low, "skills", "deploy@2"),
+						winner: high,
+					},
+				],
+			});
+		});
+
+		it("applies filters to the skill name", () => {
+			const manager = new SkillManager([TEST_DIR], false, {
+				exclude: ["deploy"],
+			});
+
+			expect(manager.listAll()).toEqual([]);
+		});
+	});
+
+	describe("search", () => {
+		it("ranks skills matching the query", () => {
+			createTestSkill(TEST_DIR, "code-review", {
+				description: "Review pull requests for bugs",
+			});
+			createTestSkill(TEST_DIR, "deploy", {
+				description: "Deploy services to production",
+			});
+
+			const manager = new SkillManager([TEST_DIR], false);
+			const results = manager.search("review pull requests");
+
+			expect(results).toHaveLength(1);
+			expect(results[0].name).toBe("code-review");
+			expect(results[0].score).toBeGreaterThan(0);
+		});
+
+		it("only searches the highest priority copy of a skill", () => {
+			const highPriority = join(TEST_DIR, "high");
+			const lowPriority = join(TEST_DIR, "low");
+			mkdirSync(highPriority, { recursive: true });
+			mkdirSync(lowPriority, { recursive: true });
+
+			createTestSkill(highPriority, "shared-skill", {
+				description: "Current version",
+			});
+			createTestSkill(lowPriority, "shared-skill", {
+				description: "Obsolete kubernetes instructions",
+			});
+
+			const manager = new SkillManager([highPriority, lowPriority], false);
+
+			expect(manager.search("kubernetes")).toEqual([]);
+		});
+	});
+
 	describe("path priority", () => {
 		it("earlier paths override later paths", () => {
 			const highPriority = join(TEST_DIR, "high");
@@ -247,6 +670,139 @@ describe("SkillManager", () => {
 		});
 	});
 
+	describe("getSources", () => {
+		const savedEnv = process.env.SKILLKIT_SKILLS_PATH;
+
+		afterEach(() => {
+			if (savedEnv === undefined) delete process.env.SKILLKIT_SKILLS_PATH;
+			else process.env.SKILLKIT_SKILLS_PATH = savedEnv;
+		});
+
+		it("lists each source with its origin, skills and shadowed skills", () => {
+			const high = join(TEST_DIR, "high");
+			const low = join(TEST_DIR, "low");
+			createTestSkill(high, "shared");
+			createTestSkill(high, "skill-creator");
+			createTestSkill(low, "shared");
+			createTestSkill(low, "low-only");
+			process.env.SKILLKIT_SKILLS_PATH = low;
+
+			const sources = new SkillManager([high], true).getSources();
+
+			expect(sources.map((s) => s.origin)).toEqual(["cli", "env", "bundled"]);
+			expect(sources[0]).toEqual({
+				path: high,
+				origin: "cli",
+				kind: "local",
+				exists: true,
+				skills: ["shared", "skill-creator"],
+				shadowed: [],
+			});
+			expect(sources[1]).toMatchObject({
+				path: low,
+				skills: ["low-only"],
+				shadowed: [
+					{ name: "shared", path: join(low, "skills", "shared"), winner: high },
+				],
+			});
+			expect(sources[2]).toMatchObject({
+				kind: "bundled",
+				shadowed: [{ name: "skill-creator", winner: high }],
+			});
+			expect(sources[2].skills).not.toContain("skill-creator");
+		});
+
+		it("lists missing paths and names the repository of git sources", () => {
+			const source = "https://example.com/org/skills.git#v2";
+			const missing = join(TEST_DIR, "missing");
+
+			const sources = new SkillManager(
+				[localSourcePath(source), missing],
+				false,
+				{ sources: [source, missing] },
+			).getSources();
+
+			expect(sources).toEqual([
+				{
+					path: localSourcePath(source),
+					origin: "cli",
+					kind: "git",
+					git: { url: "https://example.com/org/skills.git", ref: "v2" },
+					exists: false,
+					skills: [],
+					shadowed: [],
+				},
+				{
+					path: missing,
+					origin: "cli",
+					kind: "local",
+					exists: false,
+					skills: [],
+					shadowed: [],
+				},
+			]);
+		});
+
+		it("uses the default home when no paths are configured", () => {
+			delete process.env.SKILLKIT_SKILLS_PATH;
+
+			const sources = new SkillManager(undefined, false).getSources();
+
+			expect(sources).toHaveLength(1);
+			expect(sources[0]).toMatchObject({
+				path: join(homedir(), ".skillkit"),
+				origin: "default",
+			});
+		});
+	});
+
+	describe("include and exclude filters", () => {
+		it("serves only skills matching include patterns", () => {
+			createTestSkill(TEST_DIR, "aws-deploy");
+			createTestSkill(TEST_DIR, "aws-iam");
+			createTestSkill(TEST_DIR, "review");
+
+			const manager = new SkillManager([TEST_DIR], false, {
+				include: ["aws-*"],
+			});
+
+			expect(manager.listAll().map((s) => s.name)).toEqual([
+				"aws-deploy",
+				"aws-iam",
+			]);
+			expect(() => manager.getContent("review")).toThrow("not found");
+		});
+
+		it("lets exclude win over include", () => {
+			createTestSkill(TEST_DIR, "aws-deploy");
+			createTestSkill(TEST_DIR, "aws-legacy");
+			createTestSkill(TEST_DIR, "review");
+
+			const manager = new SkillManager([TEST_DIR], false, {
+				include: ["aws-*", "review"],
+				exclude: ["*-legacy"],
+			});
+
+			expect(manager.listAll().map((s) => s.name)).toEqual([
+				"aws-deploy",
+				"review",
+			]);
+		});
+
+		it("applies filters to every source", () => {
+			const high = join(TEST_DIR, "high");
+			const low = join(TEST_DIR, "low");
+			createTestSkill(high, "shared", { description: "High" });
+			createTestSkill(low, "shared", { description: "Low" });
+
+			const manager = new SkillManager([high, low], false, {
+				exclude: ["sh?red"],
+			});
+
+			expect(manager.listAll()).toEqual([]);
+		});
+	});
+
 	describe("writable paths", () => {
 		it("returns user-provided paths only", () => {
 			const userPath = join(TEST_DIR, "user");
@@ -258,6 +814,25 @@ describe("SkillManager", () => {
 			expect(writable).toContain(userPath);
 		});
 
+		it("excludes git source clones", () => {
+			const savedHome = process.env.SKILLKIT_HOME;
+			process.env.SKILLKIT_HOME = join(TEST_DIR, "home");
+			try {
+				const clone = localSourcePath("https://example.com/org/skills.git");
+				const userPath = join(TEST_DIR, "user");
+				createTestSkill(clone, "from-git");
+				mkdirSync(userPath, { recursive: true });
+
+				const manager = new SkillManager([clone, userPath], false);
+
+				expect(manager.getSkillPaths()).toEqual([clone, userPath]);
+				expect(manager.getWritablePaths()).toEqual([userPath]);
+			} finally {
+				if (savedHome === undefined) delete process.env.SKILLKIT_HOME;
+				else process.env.SKILLKIT_HOME = savedHome;
+			}
+		});
+
 		it("excludes bundled paths", () => {
 			const manager = new SkillManager(undefined, true);
 			const writable = manager.getWritablePaths();
@@ -328,4 +903,91 @@ describe("SkillManager", () => {
 			expect(skills[0].name).toBe("empty-fm-skill");
 		});
 	});
+
+	describe("logging", () => {
+		function collect(): { logger: Logger; entries: LogEntry[] } {
+			const logger = new Logger();
+			const entries: LogEntry[] = [];
+			logger.subscribe((entry) => entries.push(entry));
+			return { logger, entries };
+		}
+
+		it("reports directories without SKILL.md once", () => {
+			createTestSkill(TEST_DIR, "good-skill");
+			mkdirSync(join(TEST_DIR, "skills", "no-skill-md"), { recursive: true });
+			const { logger, entries } = collect();
+
+			const manager = new SkillManager([TEST_DIR], false, { logger });
+			manager.listAll();
+			manager.listAll();
+
+			const skipped = entries.filter((e) => e.message.includes("no-skill-md"));
+			expect(skipped).toHaveLength(1);
+			expect(skipped[0]).toMatchObject({
+				level: "warning",
+				logger: "skills",
+				data: { skill: "no-skill-md" },
+			});
+		});
+
+		it("reports problems again after resetReported", () => {
+			mkdirSync(join(TEST_DIR, "skills", "no-skill-md"), { recursive: true });
+			const { logger, entries } = collect();
+			const manager = new SkillManager([TEST_DIR], false, { logger });
+			manager.listAll();
+
+			createTestSkill(TEST_DIR, "no-skill-md");
+			manager.resetReported();
+			manager.listAll();
+			rmSync(join(TEST_DIR, "skills", "no-skill-md", "SKILL.md"));
+			manager.resetReported();
+			manager.listAll();
+
+			const skipped = entries.filter((e) => e.message.includes("no-skill-md"));
+			expect(skipped).toHaveLength(2);
+		});
+
+		it("reports shadowed skill names with the winning path", () => {
+			const high = join(TEST_DIR, "high");
+			const low = join(TEST_DIR, "low");
+			createTestSkill(high, "shared-skill");
+			createTestSkill(low, "shared-skill");
+			const { logger, entries } = collect();
+
+			new SkillManager([high, low], false, { logger }).listAll();
+
+			expect(entries).toContainEqual({
+				level: "notice",
+				logger: "skills",
+				message: `Skill 'shared-skill' in ${join(high, "skills", "shared-skill")} shadows ${join(low, "skills", "shared-skill")}`,
+				data: {
+					skill: "shared-skill",
+					winner: join(high, "skills", "shared-skill"),
+					shadowed: join(low, "skills", "shared-skill"),
+				},
+			});
+		});
+
+		it("reports invalid frontmatter and missing paths", () => {
+			const skillDir = join(TEST_DIR, "skills", "bad-yaml-skill");
+			mkdirSync(skillDir, { recursive: true });
+			writeFileSync(
+				join(skillDir, "SKILL.md"),
+				"---\nname: [unclosed\n---\n\nContent.\n",
+			);
+			const { logger, entries } = collect();
+
+			new SkillManager([TEST_DIR, join(TEST_DIR, "missing")], false, {
+				logger,
+			}).listAll();
+
+			const messages = entries.map((e) => `${e.level} ${e.message}`);
+			expect(messages).toContainEqual(
+				`warning Skill path not found: ${join(TEST_DIR, "missing")}`,
+			);
+			expect(messages).toContainEqual(
+				expect.stringMatching(/^warning Invalid frontmatter in .*SKILL\.md: /),
+			);
+		});
+	});
 });
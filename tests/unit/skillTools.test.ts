@@ -0,0 +1,61 @@
+/**
+ * Tests for skillTools - tool names for skills-as-tools mode.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	assignSkillToolNames,
+	MAX_TOOL_NAME_LENGTH,
+	toolNameForSkill,
+} from "../../src/skillTools.js";
+
+describe("skillTools", () => {
+	describe("toolNameForSkill", () => {
+		it("prefixes hyphen-case names unchanged", () => {
+			expect(toolNameForSkill("code-review")).toBe("skill_code-review");
+		});
+
+		it("replaces characters clients reject", () => {
+			expect(toolNameForSkill("Deploy App.v2")).toBe("skill_deploy_app_v2");
+			expect(toolNameForSkill("a  b/c")).toBe("skill_a_b_c");
+		});
+
+		it("limits the length", () => {
+			const name = toolNameForSkill("x".repeat(100));
+			expect(name).toHaveLength(MAX_TOOL_NAME_LENGTH);
+			expect(name.startsWith("skill_xxx")).toBe(true);
+		});
+	});
+
+	describe("assignSkillToolNames", () => {
+		it("maps tool names to skills in order", () => {
+			expect([...assignSkillToolNames(["b-skill", "a-skill"])]).toEqual([
+				["skill_b-skill", "b-skill"],
+				["skill_a-skill", "a-skill"],
+			]);
+		});
+
+		it("adds suffixes to names that collide after sanitising", () => {
+			const tools = assignSkillToolNames(["my.skill", "my_skill", "my skill"]);
+
+			expect([...tools.keys()]).toEqual([
+				"skill_my_skill",
+				"skill_my_skill_2",
+				"skill_my_skill_3",
+			]);
+		});
+
+		it("keeps suffixed names within the length limit", () => {
+			const long = "y".repeat(100);
+			const tools = assignSkillToolNames([long, `${long}z`]);
+
+			const names = [...tools.keys()];
+			expect(names[1]).toHaveLength(MAX_TOOL_NAME_LENGTH);
+			expect(names[1].endsWith("_2")).toBe(true);
+		});
+
+		it("stops at the limit", () => {
+			expect(assignSkillToolNames(["a", "b", "c"], 2).size).toBe(2);
+		});
+	});
+});
@@ -0,0 +1,276 @@
+/**
+ * Tests for skillWriter - creating skills on disk.
+ */
+
+import {
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import dedent from "dedent";
+import { computeSkillHash } from "../../src/skillHash.js";
+import {
+	buildSkillMd,
+	createSkill,
+	resolveTargetPath,
+	SkillConflictError,
+	updateSkill,
+} from "../../src/skillWriter.js";
+import {
+	SKILLS_END_MARKER,
+	SKILLS_START_MARKER,
+} from "../../src/templates/repoTemplate.js";
+
+const TEST_DIR = join(tmpdir(), `skillkit-writer-test-${Date.now()}`);
+
+describe("skillWriter", () => {
+	beforeEach(() => {
+		mkdirSync(TEST_DIR, { recursive: true });
+	});
+
+	afterEach(() => {
+		if (existsSync(TEST_DIR)) {
+			rmSync(TEST_DIR, { recursive: true, force: true });
+		}
+	});
+
+	describe("buildSkillMd", () => {
+		it("renders frontmatter and body", () => {
+			const content = buildSkillMd(
+				{ name: "my-skill", description: "Does: things" },
+				"# My Skill\n\nSteps.",
+			);
+
+			expect(content).toBe(
+				"---\nname: my-skill\ndescription: 'Does: things'\n---\n\n# My Skill\n\nSteps.\n",
+			);
+		});
+	});
+
+	describe("resolveTargetPath", () => {
+		it("defaults to the first writable path", () => {
+			expect(resolveTargetPath(["/a", "/b"])).toBe("/a");
+		});
+
+		it("rejects paths that are not writable", () => {
+			expect(() => resolveTargetPath(["/a"], "/etc")).toThrow(
+				"is not a writable skill path",
+			);
+		});
+	});
+
+	describe("createSkill", () => {
+		it("writes SKILL.md, scripts and references", () => {
+			const result = createSkill([TEST_DIR], {
+				name: "new-skill",
+				description: "A new skill",
+				body: "# New Skill\n\nDo the thing.",
+				scripts: { "run.sh": "echo hi" },
+				references: { "guide.md": "# Guide" },
+			});
+
+			const skillDir = join(TEST_DIR, "skills", "new-skill");
+			expect(result.path).toBe(skillDir);
+			expect(result.files).toEqual([
+				"SKILL.md",
+				"scripts/run.sh",
+				"references/guide.md",
+			]);
+			expect(readFileSync(join(skillDir, "SKILL.md"), "utf-8")).toContain(
+				"name: new-skill",
+			);
+			expect(readFileSync(join(skillDir, "scripts", "run.sh"), "utf-8")).toBe(
+				"echo hi",
+			);
+			expect(
+				readFileSync(join(skillDir, "references", "guide.md"), "utf-8"),
+			).toBe("# Guide");
+		});
+
+		it("refuses to overwrite an existing skill", () => {
+			const options = { name: "dup", description: "First", body: "Body" };
+			createSkill([TEST_DIR], options);
+
+			expect(() => createSkill([TEST_DIR], options)).toThrow("already exists");
+		});
+
+		it("replaces an existing skill when overwrite is set", () => {
+			createSkill([TEST_DIR], {
+				name: "dup",
+				description: "First",
+				body: "Body",
+				scripts: { "old.sh": "old" },
+			});
+			createSkill([TEST_DIR], {
+				name: "dup",
+				description: "Second",
+				body: "Body",
+				overwrite: true,
+			});
+
+			const skillDir = join(TEST_DIR, "skills", "dup");
+			expect(readFileSync(join(skillDir, "SKILL.md"), "utf-8")).toContain(
+				"Second",
+			);
+			expect(existsSync(join(skillDir, "scripts", "old.sh"))).toBe(false);
+		});
+
+		it("leaves nothing behind when validation fails", () => {
+			expect(() =>
+				createSkill([TEST_DIR], {
+					name: "bad",
+					description: "Has <angle> brackets",
+					body: "Body",
+				}),
+			).toThrow("Skill validation failed");
+
+			expect(readdirSync(join(TEST_DIR, "skills"))).toEqual([]);
+		});
+
+		it("writes files into nested folders", () => {
+			const result = createSkill([TEST_DIR], {
+				name: "nested",
+				description: "Nested files",
+				body: "Body",
+				scripts: { "db/migrate.ts": "migrate();" },
+			});
+
+			expect(result.files).toEqual(["SKILL.md", "scripts/db/migrate.ts"]);
+			expect(
+				readFileSync(join(result.path, "scripts", "db", "migrate.ts"), "utf-8"),
+			).toBe("migrate();");
+		});
+
+		it("rejects filenames that leave the folder", () => {
+			expect(() =>
+				createSkill([TEST_DIR], {
+					name: "sneaky",
+					description: "Sneaky",
+					body: "Body",
+					scripts: { "../escape.sh": "rm -rf" },
+				}),
+			).toThrow("Invalid scripts filename");
+
+			expect(existsSync(join(TEST_DIR, "skills", "escape.sh"))).toBe(false);
+			expect(readdirSync(join(TEST_DIR, "skills"))).toEqual([]);
+		});
+
+		it("refreshes the README skill index", () => {
+			writeFileSync(
+				join(TEST_DIR, "README.md"),
+				dedent`
+					# Team Skills
+
+					${SKILLS_START_MARKER}
+					${SKILLS_END_MARKER}
+				`,
+			);
+
+			const result = createSkill([TEST_DIR], {
+				name: "indexed",
+				description: "Shows up in the README",
+				body: "Body",
+			});
+
+			expect(result.readmeUpdated).toBe(true);
+			expect(readFileSync(join(TEST_DIR, "README.md"), "utf-8")).toContain(
+				"| indexed | Shows up in the README |",
+			);
+		});
+	});
+
+	describe("updateSkill", () => {
+		let skillDir: string;
+
+		beforeEach(() => {
+			skillDir = createSkill([TEST_DIR], {
+				name: "editable",
+				description: "Editable skill",
+				body: "# Editable\n\nOriginal steps.",
+				scripts: { "run.sh": "echo one" },
+			}).path;
+		});
+
+		it("replaces, adds and deletes files", () => {
+			const result = updateSkill(skillDir, {
+				expectedHash: computeSkillHash(skillDir),
+				files: {
+					"references/notes.md": "# Notes",
+					"scripts/run.sh": null,
+				},
+			});
+
+			expect(result.changed).toEqual(["references/notes.md", "scripts/run.sh"]);
+			expect(result.hash).toBe(computeSkillHash(skillDir));
+			expect(existsSync(join(skillDir, "scripts", "run.sh"))).toBe(false);
+			expect(
+				readFileSync(join(skillDir, "references", "notes.md"), "utf-8"),
+			).toBe("# Notes");
+		});
+
+		it("deletes unlisted files with replaceAll", () => {
+			const skillMd = readFileSync(join(skillDir, "SKILL.md"), "utf-8");
+			updateSkill(skillDir, {
+				expectedHash: computeSkillHash(skillDir),
+				files: { "SKILL.md": skillMd },
+				replaceAll: true,
+			});
+
+			expect(existsSync(join(skillDir, "scripts", "run.sh"))).toBe(false);
+			expect(existsSync(join(skillDir, "SKILL.md"))).toBe(true);
+		});
+
+		it("rejects stale hashes with a diff of the proposed change", () => {
+			const expectedHash = computeSkillHash(skillDir);
+			writeFileSync(join(skillDir, "scripts", "run.sh"), "echo two");
+
+			let error: unknown;
+			try {
+				updateSkill(skillDir, {
+					expectedHash,
+					files: { "scripts/run.sh": "echo three" },
+				});
+			} catch (e) {
+				error = e;
+			}
+
+			expect(error).toBeInstanceOf(SkillConflictError);
+			const conflict = error as SkillConflictError;
+			expect(conflict.currentHash).toBe(computeSkillHash(skillDir));
+			expect(conflict.diff).toContain("-echo two");
+			expect(conflict.diff).toContain("+echo three");
+			expect(readFileSync(join(skillDir, "scripts", "run.sh"), "utf-8")).toBe(
+				"echo two",
+			);
+		});
+
+		it("keeps the skill unchanged when validation fails", () => {
+			expect(() =>
+				updateSkill(skillDir, {
+					expectedHash: computeSkillHash(skillDir),
+					files: { "SKILL.md": "no frontmatter" },
+				}),
+			).toThrow("Skill validation failed");
+
+			expect(readFileSync(join(skillDir, "SKILL.md"), "utf-8")).toContain(
+				"Original steps.",
+			);
+			expect(readdirSync(join(TEST_DIR, "skills"))).toEqual(["editable"]);
+		});
+
+		it("rejects paths outside scripts/ and references/", () => {
+			expect(() =>
+				updateSkill(skillDir, {
+					expectedHash: computeSkillHash(skillDir),
+					files: { "../escape.md": "x" },
+				}),
+			).toThrow("Invalid skill file");
+		});
+	});
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for the sources report.
+ */
+
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { PromptManager } from "../../src/promptManager.js";
+import { SkillManager } from "../../src/skillManager.js";
+import { describeSources, formatSources } from "../../src/sources.js";
+
+const TEST_DIR = join(tmpdir(), `skillkit-sources-test-${Date.now()}`);
+
+function createSkill(baseDir: string, name: string): void {
+	const skillDir = join(baseDir, "skills", name);
+	mkdirSync(skillDir, { recursive: true });
+	writeFileSync(
+		join(skillDir, "SKILL.md"),
+		`---\nname: ${name}\ndescription: Test\n---\n\nContent.\n`,
+	);
+}
+
+function createPrompt(baseDir: string, name: string): void {
+	mkdirSync(join(baseDir, "prompts"), { recursive: true });
+	writeFileSync(
+		join(baseDir, "prompts", `${name}.md`),
+		"---\ndescription: Test\n---\n\nDo it.\n",
+	);
+}
+
+describe("sources", () => {
+	const high = join(TEST_DIR, "high");
+	const low = join(TEST_DIR, "low");
+
+	beforeEach(() => {
+		createSkill(high, "shared");
+		createSkill(low, "shared");
+		createSkill(low, "low-only");
+		createPrompt(high, "review");
+		createPrompt(low, "review");
+	});
+
+	afterEach(() => {
+		if (existsSync(TEST_DIR)) {
+			rmSync(TEST_DIR, { recursive: true, force: true });
+		}
+	});
+
+	describe("describeSources", () => {
+		it("merges prompts into the source they come from", () => {
+			const sources = describeSources(
+				new SkillManager([high, low], false),
+				new PromptManager([high, low], false),
+			);
+
+			expect(sources).toEqual([
+				{
+					path: high,
+					origin: "cli",
+					kind: "local",
+					exists: true,
+					skills: ["shared"],
+					prompts: ["review"],
+					shadowed: [],
+				},
+				{
+					path: low,
+					origin: "cli",
+					kind: "local",
+					exists: true,
+					skills: ["low-only"],
+					prompts: [],
+					shadowed: [
+						{
+							type: "skill",
+							name: "shared",
+							path: join(low, "skills", "shared"),
+							winner: high,
+						},
+						{
+							type: "prompt",
+							name: "review",
+							path: join(low, "prompts", "review.md"),
+							winner: high,
+						},
+					],
+				},
+			]);
+		});
+	});
+
+	describe("formatSources", () => {
+		it("renders each source with what it contributes and hides", () => {
+			const text = formatSources(
+				describeSources(
+					new SkillManager([high, low, join(TEST_DIR, "missing")], false),
+					new PromptManager([high, low], false),
+				),
+			);
+
+			expect(text).toBe(
+				[
+					`1. ${high}`,
+					"   origin:   --skills-path",
+					"   skills:   1: shared",
+					"   prompts:  1: review",
+					"",
+					`2. ${low}`,
+					"   origin:   --skills-path",
+					"   skills:   1: low-only",
+					"   prompts:  (none)",
+					`   shadowed: skill 'shared' by ${high}`,
+					`   shadowed: prompt 'review' by ${high}`,
+					"",
+					`3. ${join(TEST_DIR, "missing")} (not found)`,
+					"   origin:   --skills-path",
+					"   skills:   (none)",
+					"   prompts:  (none)",
+				].join("\n"),
+			);
+		});
+	});
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for tokens - local token estimates and the size cache.
+ */
+
+import {
+	existsSync,
+	mkdirSync,
+	rmSync,
+	utimesSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { estimateTokens, measureFile } from "../../src/tokens.js";
+
+const TEST_DIR = join(tmpdir(), `skillkit-tokens-test-${Date.now()}`);
+
+describe("tokens", () => {
+	beforeEach(() => {
+		mkdirSync(TEST_DIR, { recursive: true });
+	});
+
+	afterEach(() => {
+		if (existsSync(TEST_DIR)) {
+			rmSync(TEST_DIR, { recursive: true, force: true });
+		}
+	});
+
+	describe("estimateTokens", () => {
+		it("counts short words, punctuation and numbers", () => {
+			expect(estimateTokens("")).toBe(0);
+			expect(estimateTokens("Run the tests.")).toBe(4);
+			expect(estimateTokens("port 123456")).toBe(3);
+		});
+
+		it("splits long words into chunks", () => {
+			expect(estimateTokens("internationalization")).toBe(4);
+		});
+	});
+
+	describe("measureFile", () => {
+		it("reports tokens and bytes", () => {
+			const file = join(TEST_DIR, "a.md");
+			writeFileSync(file, "# Title\n");
+
+			expect(measureFile(file)).toEqual({ tokens: 2, bytes: 8 });
+		});
+
+		it("reuses the cached size until mtime changes", () => {
+			const file = join(TEST_DIR, "b.md");
+			const mtime = new Date("2024-01-01T00:00:00Z");
+			writeFileSync(file, "one two");
+			utimesSync(file, mtime, mtime);
+			expect(measureFile(file).tokens).toBe(2);
+
+			// Same length and mtime: served from cache
+			writeFileSync(file, "one-two");
+			utimesSync(file, mtime, mtime);
+			expect(measureFile(file).tokens).toBe(2);
+
+			const later = new Date("2024-01-02T00:00:00Z");
+			utimesSync(file, later, later);
+			expect(measureFile(file).tokens).toBe(3);
+		});
+	});
+});
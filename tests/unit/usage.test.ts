@@ -0,0 +1,241 @@
+/**
+ * Tests for usage - the opt-in usage log and its reports.
+ */
+
+import {
+	appendFileSync,
+	existsSync,
+	mkdirSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	aggregateUsage,
+	countSkillCalls,
+	formatUsageTable,
+	parseTimeBound,
+	readUsageLog,
+	type UsageEvent,
+	UsageLog,
+} from "../../src/usage.js";
+
+const TEST_DIR = join(tmpdir(), `skillkit-usage-test-${Date.now()}`);
+
+function event(overrides: Partial<UsageEvent>): UsageEvent {
+	return {
+		ts: "2025-03-01T10:00:00.000Z",
+		kind: "tool",
+		name: "skillkit_get_skill",
+		ok: true,
+		...overrides,
+	};
+}
+
+describe("usage", () => {
+	beforeEach(() => {
+		mkdirSync(TEST_DIR, { recursive: true });
+	});
+
+	afterEach(() => {
+		if (existsSync(TEST_DIR)) {
+			rmSync(TEST_DIR, { recursive: true, force: true });
+		}
+	});
+
+	describe("UsageLog", () => {
+		it("appends events that readUsageLog reads back", () => {
+			const path = join(TEST_DIR, "nested", "usage.jsonl");
+			const log = new UsageLog(path);
+
+			log.record({
+				kind: "tool",
+				name: "skillkit_get_skill",
+				skill: "a",
+				ok: true,
+			});
+			log.record({ kind: "prompt", name: "review", ok: false, error: "boom" });
+
+			const events = readUsageLog(path);
+			expect(events).toHaveLength(2);
+			expect(events[0]).toMatchObject({
+				name: "skillkit_get_skill",
+				skill: "a",
+			});
+			expect(events[1]).toMatchObject({
+				kind: "prompt",
+				ok: false,
+				error: "boom",
+			});
+			expect(Number.isNaN(Date.parse(events[0].ts))).toBe(false);
+		});
+
+		it("skips malformed lines", () => {
+			const path = join(TEST_DIR, "usage.jsonl");
+			appendFileSync(path, `${JSON.stringify(event({}))}\n{"ts": \nnot json\n`);
+
+			expect(readUsageLog(path)).toHaveLength(1);
+		});
+
+		it("returns no events when the log does not exist", () => {
+			expect(readUsageLog(join(TEST_DIR, "missing.jsonl"))).toEqual([]);
+		});
+	});
+
+	describe("countSkillCalls", () => {
+		it("reads only lines appended since the last call", () => {
+			const path = join(TEST_DIR, "usage.jsonl");
+			const line = (skill: string) => `${JSON.stringify(event({ skill }))}\n`;
+			writeFileSync(path, line("deploy") + line("deploy") + line("review"));
+
+			expect(countSkillCalls(path)).toEqual(
+				new Map([
+					["deploy", 2],
+					["review", 1],
+				]),
+			);
+
+			// A partial line is counted once the rest is written
+			const next = line("review");
+			appendFileSync(path, next.slice(0, 10));
+			expect(countSkillCalls(path).get("review")).toBe(1);
+			appendFileSync(path, next.slice(10));
+			expect(countSkillCalls(path).get("review")).toBe(2);
+
+			// A truncated log is counted again from the start
+			writeFileSync(path, line("search"));
+			expect(countSkillCalls(path)).toEqual(new Map([["search", 1]]));
+		});
+
+		it("returns no counts when the log does not exist", () => {
+			expect(countSkillCalls(join(TEST_DIR, "missing.jsonl"))).toEqual(
+				new Map(),
+			);
+		});
+	});
+
+	describe("parseTimeBound", () => {
+		const now = new Date("2025-03-10T00:00:00.000Z");
+
+		it("parses durations back from now", () => {
+			expect(parseTimeBound("24h", now).toISOString()).toBe(
+				"2025-03-09T00:00:00.000Z",
+			);
+			expect(parseTimeBound("7d", now).toISOString()).toBe(
+				"2025-03-03T00:00:00.000Z",
+			);
+			expect(parseTimeBound("1w", now).toISOString()).toBe(
+				"2025-03-03T00:00:00.000Z",
+			);
+		});
+
+		it("parses dates", () => {
+			expect(parseTimeBound("2025-01-31").toISOString()).toBe(
+				"2025-01-31T00:00:00.000Z",
+			);
+		});
+
+		it("rejects anything else", () => {
+			expect(() => parseTimeBound("yesterday")).toThrow("Invalid time");
+		});
+	});
+
+	describe("aggregateUsage", () => {
+		const events = [
+			event({ skill: "deploy", source: "/skills", client: "cursor" }),
+			event({
+				skill: "deploy",
+				source: "/skills",
+				ts: "2025-03-05T10:00:00.000Z",
+				ok: false,
+			}),
+			event({ skill: "review", source: "/other", client: "cursor" }),
+			event({ name: "skillkit_search" }),
+		];
+
+		it("groups by skill, leaving out events without one", () => {
+			const rows = aggregateUsage(events, { by: "skill" });
+
+			expect(rows).toEqual([
+				{
+					key: "deploy",
+					calls: 2,
+					errors: 1,
+					lastUsed: "2025-03-05T10:00:00.000Z",
+				},
+				{
+					key: "review",
+					calls: 1,
+					errors: 0,
+					lastUsed: "2025-03-01T10:00:00.000Z",
+				},
+			]);
+		});
+
+		it("groups by client, tool and day", () => {
+			expect(
+				aggregateUsage(events, { by: "client" }).map((r) => r.key),
+			).toEqual(["(unknown)", "cursor"]);
+			expect(
+				aggregateUsage(events, { by: "tool" }).map((r) => [r.key, r.calls]),
+			).toEqual([
+				["skillkit_get_skill", 3],
+				["skillkit_search", 1],
+			]);
+			expect(aggregateUsage(events, { by: "day" }).map((r) => r.key)).toEqual([
+				"2025-03-01",
+				"2025-03-05",
+			]);
+		});
+
+		it("filters by time window", () => {
+			const rows = aggregateUsage(events, {
+				by: "skill",
+				since: new Date("2025-03-02T00:00:00.000Z"),
+			});
+
+			expect(rows).toEqual([
+				expect.objectContaining({ key: "deploy", calls: 1 }),
+			]);
+		});
+
+		it("reports included keys that were never used", () => {
+			const rows = aggregateUsage(events, {
+				by: "skill",
+				include: ["deploy", "unused"],
+			});
+
+			expect(rows.at(-1)).toEqual({
+				key: "unused",
+				calls: 0,
+				errors: 0,
+				lastUsed: null,
+			});
+		});
+	});
+
+	describe("formatUsageTable", () => {
+		it("aligns columns and marks unused rows", () => {
+			const table = formatUsageTable(
+				[
+					{
+						key: "deploy",
+						calls: 12,
+						errors: 1,
+						lastUsed: "2025-03-05T10:00:00.000Z",
+					},
+					{ key: "a", calls: 0, errors: 0, lastUsed: null },
+				],
+				"skill",
+			);
+
+			expect(table.split("\n")).toEqual([
+				"SKILL   CALLS  ERRORS  LAST USED",
+				"deploy  12     1       2025-03-05T10:00:00.000Z",
+				"a       0      0       never",
+			]);
+		});
+	});
+});
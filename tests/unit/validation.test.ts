@@ -2,12 +2,18 @@
  * Tests for validation utilities.
  */
 
-import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import {
+	existsSync,
+	mkdirSync,
+	rmSync,
+	symlinkSync,
+	writeFileSync,
+} from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import dedent from "dedent";
-import { validatePrompt } from "../../src/validation.js";
+import { validatePrompt, validateSkill } from "../../src/validation.js";
 
 const TEST_DIR = join(tmpdir(), `skillkit-validation-test-${Date.now()}`);
 
@@ -136,6 +142,155 @@ describe("validatePrompt", () => {
 		);
 	});
 
+	it("accepts skill arguments with enum and suggestions", () => {
+		const promptPath = join(TEST_DIR, "completions.md");
+		writeFileSync(
+			promptPath,
+			dedent`---
+				name: completions
+				description: Test
+				arguments:
+				  skill:
+				    type: skill
+				    description: Skill to apply
+				  env:
+				    description: Target environment
+				    enum: [staging, production]
+				    default: staging
+				  region:
+				    description: Region
+				    suggestions: [eu-west-1, us-east-1]
+				---
+
+				{{skill}} {{env}} {{region}}
+			`,
+		);
+
+		const result = validatePrompt(promptPath);
+		expect(result.errors).toEqual([]);
+		expect(result.valid).toBe(true);
+	});
+
+	it("returns error for invalid enum values", () => {
+		const promptPath = join(TEST_DIR, "bad-enum.md");
+		writeFileSync(
+			promptPath,
+			dedent`---
+				name: bad-enum
+				description: Test
+				arguments:
+				  env:
+				    description: Target environment
+				    enum: []
+				  mode:
+				    description: Mode
+				    enum: [fast, safe]
+				    default: reckless
+				  region:
+				    description: Region
+				    suggestions: eu-west-1
+				---
+
+				{{env}} {{mode}} {{region}}
+			`,
+		);
+
+		const result = validatePrompt(promptPath);
+		expect(result.valid).toBe(false);
+		expect(result.errors).toEqual([
+			"Argument 'env': 'enum' must be a non-empty list of values.",
+			"Argument 'mode': default 'reckless' is not one of its enum values.",
+			"Argument 'region': 'suggestions' must be a list of values.",
+		]);
+	});
+
+	it("accepts typed arguments with constraints", () => {
+		const promptPath = join(TEST_DIR, "typed.md");
+		writeFileSync(
+			promptPath,
+			dedent`---
+				name: typed
+				description: Test
+				arguments:
+				  env:
+				    type: enum
+				    description: Target environment
+				    enum: [staging, production]
+				  services:
+				    type: string[]
+				    description: Services to deploy
+				    min: 1
+				    pattern: "^[a-z]+$"
+				  config:
+				    type: json
+				    description: Extra settings
+				    required: false
+				  retries:
+				    type: number
+				    description: Retries
+				    min: 0
+				    max: 5
+				    default: 2
+				---
+
+				{{env}} {{services}} {{config}} {{retries}}
+			`,
+		);
+
+		const result = validatePrompt(promptPath);
+		expect(result.errors).toEqual([]);
+	});
+
+	it("returns errors for invalid constraints and defaults", () => {
+		const promptPath = join(TEST_DIR, "bad-constraints.md");
+		writeFileSync(
+			promptPath,
+			dedent`---
+				name: bad-constraints
+				description: Test
+				arguments:
+				  env:
+				    type: enum
+				    description: Target environment
+				  flag:
+				    type: boolean
+				    description: Flag
+				    pattern: "^y$"
+				  name:
+				    description: Name
+				    pattern: "("
+				  count:
+				    type: number
+				    description: Count
+				    min: 5
+				    max: 1
+				  retries:
+				    type: number
+				    description: Retries
+				    max: 3
+				    default: 10
+				  ticket:
+				    description: Ticket
+				    required: true
+				    default: ABC-1
+				---
+
+				{{env}} {{flag}} {{name}} {{count}} {{retries}} {{ticket}}
+			`,
+		);
+
+		const result = validatePrompt(promptPath);
+		expect(result.valid).toBe(false);
+		expect(result.errors).toEqual([
+			"Argument 'env': type 'enum' needs an 'enum' list of values.",
+			"Argument 'flag': 'pattern' does not apply to type 'boolean'.",
+			"Argument 'name': invalid pattern '('.",
+			"Argument 'count': min (5) is greater than max (1).",
+			expect.stringMatching(/^Argument 'retries': default 10 is invalid: /),
+			"Argument 'ticket' is required but has a default.",
+		]);
+	});
+
 	it("returns warning for argument without description", () => {
 		const promptPath = join(TEST_DIR, "no-desc.md");
 		writeFileSync(
@@ -158,3 +313,252 @@ describe("validatePrompt", () => {
 		);
 	});
 });
+
+describe("validateSkill nested files", () => {
+	const skillDir = join(TEST_DIR, "repo", "skills", "nested");
+
+	beforeEach(() => {
+		mkdirSync(join(skillDir, "references", "api", "v2"), { recursive: true });
+		writeFileSync(
+			join(skillDir, "SKILL.md"),
+			dedent`---
+				name: nested
+				description: Skill with nested references
+				---
+
+				See [auth](references/api/v2/auth.md) and [missing](references/api/v1/old.md).
+			`,
+		);
+		writeFileSync(join(skillDir, "references", "api", "v2", "auth.md"), "");
+	});
+
+	afterEach(() => {
+		if (existsSync(TEST_DIR)) {
+			rmSync(TEST_DIR, { recursive: true, force: true });
+		}
+	});
+
+	it("warns about links to missing nested files", () => {
+		const result = validateSkill(skillDir);
+
+		expect(result.valid).toBe(true);
+		expect(result.warnings).toEqual([
+			"SKILL.md links to references/api/v1/old.md, which does not exist",
+		]);
+	});
+
+	it("reports broken and escaping symlinks in nested folders", () => {
+		writeFileSync(join(TEST_DIR, "outside.md"), "");
+		symlinkSync(
+			join(TEST_DIR, "outside.md"),
+			join(skillDir, "references", "api", "v2", "outside.md"),
+		);
+		symlinkSync(
+			join(skillDir, "gone.md"),
+			join(skillDir, "references", "api", "broken.md"),
+		);
+
+		const result = validateSkill(skillDir);
+
+		expect(result.valid).toBe(false);
+		expect(result.errors).toEqual([
+			"references/api/broken.md is a broken symlink",
+			"references/api/v2/outside.md is a symlink pointing outside the skill source",
+		]);
+	});
+});
+
+describe("validateSkill requires", () => {
+	const skillsDir = join(TEST_DIR, "repo", "skills");
+
+	function writeSkill(name: string, requires?: string): void {
+		mkdirSync(join(skillsDir, name), { recursive: true });
+		writeFileSync(
+			join(skillsDir, name, "SKILL.md"),
+			`---\nname: ${name}\ndescription: ${name}\n${requires ? `requires: ${requires}\n` : ""}---\n\nBody.\n`,
+		);
+	}
+
+	afterEach(() => {
+		if (existsSync(TEST_DIR)) {
+			rmSync(TEST_DIR, { recursive: true, force: true });
+		}
+	});
+
+	it("accepts skills required from the same repository", () => {
+		writeSkill("deploy", "[k8s-conventions]");
+		writeSkill("k8s-conventions");
+
+		const result = validateSkill(join(skillsDir, "deploy"));
+
+		expect(result.valid).toBe(true);
+		expect(result.warnings).toEqual([]);
+	});
+
+	it("warns about required skills that are not in the repository", () => {
+		writeSkill("deploy", "[k8s-conventions]");
+
+		const result = validateSkill(join(skillsDir, "deploy"));
+
+		expect(result.valid).toBe(true);
+		expect(result.warnings).toEqual([
+			"Skill 'deploy' requires 'k8s-conventions', which was not found",
+		]);
+	});
+
+	it("reports dependency cycles", () => {
+		writeSkill("deploy", "[k8s-conventions]");
+		writeSkill("k8s-conventions", "[cluster]");
+		writeSkill("cluster", "[deploy]");
+
+		const result = validateSkill(join(skillsDir, "deploy"));
+
+		expect(result.valid).toBe(false);
+		expect(result.errors).toEqual([
+			"Dependency cycle: deploy -> k8s-conventions -> cluster -> deploy",
+		]);
+	});
+
+	it("rejects requires that is not a list of names", () => {
+		writeSkill("deploy", "k8s-conventions");
+		writeSkill("self", "[self]");
+
+		expect(validateSkill(join(skillsDir, "deploy")).errors).toEqual([
+			"'requires' must be a list of skill names",
+		]);
+		expect(validateSkill(join(skillsDir, "self")).errors).toEqual([
+			"Skill 'self' cannot require itself",
+		]);
+	});
+
+	it("rejects requiring itself with a version range", () => {
+		writeSkill("self", '["self@^1"]');
+
+		expect(validateSkill(join(skillsDir, "self")).errors).toEqual([
+			"Skill 'self' cannot require itself",
+		]);
+	});
+
+	it("resolves required skills that only have versioned folders", () => {
+		writeSkill("deploy", '["k8s-conventions@^2", "cluster"]');
+		writeSkill("legacy", '["k8s-conventions@^3"]');
+		writeSkill("cluster", "[k8s-conventions]");
+		mkdirSync(join(skillsDir, "k8s-conventions@2"), { recursive: true });
+		writeFileSync(
+			join(skillsDir, "k8s-conventions@2", "SKILL.md"),
+			"---\nname: k8s-conventions\ndescription: Conventions\n---\n\nBody.\n",
+		);
+
+		const result = validateSkill(join(skillsDir, "deploy"));
+
+		expect(result.valid).toBe(true);
+		expect(result.warnings).toEqual([]);
+		expect(validateSkill(join(skillsDir, "legacy")).warnings).toEqual([
+			"Skill 'legacy' requires 'k8s-conventions@^3', which was not found",
+		]);
+	});
+});
+
+describe("validateSkill includes", () => {
+	const skillsDir = join(TEST_DIR, "repo", "skills");
+
+	function writeSkill(name: string, body: string): void {
+		mkdirSync(join(skillsDir, name, "references"), { recursive: true });
+		writeFileSync(
+			join(skillsDir, name, "SKILL.md"),
+			`---\nname: ${name}\ndescription: ${name}\n---\n\n${body}\n`,
+		);
+	}
+
+	afterEach(() => {
+		if (existsSync(TEST_DIR)) {
+			rmSync(TEST_DIR, { recursive: true, force: true });
+		}
+	});
+
+	it("accepts includes that resolve", () => {
+		writeSkill("shared", "## Commit Messages\n\nImperative mood.");
+		writeSkill(
+			"deploy",
+			"<!-- include: shared#Commit Messages -->\n<!-- include: references/steps.md -->",
+		);
+		writeFileSync(join(skillsDir, "deploy", "references", "steps.md"), "1.");
+
+		const result = validateSkill(join(skillsDir, "deploy"));
+
+		expect(result.valid).toBe(true);
+		expect(result.warnings).toEqual([]);
+	});
+
+	it("reports broken targets and sections", () => {
+		writeSkill("shared", "## Commit Messages");
+		writeSkill(
+			"deploy",
+			"<!-- include: shared#Tests -->\n<!-- include: references/gone.md -->",
+		);
+
+		const result = validateSkill(join(skillsDir, "deploy"));
+
+		expect(result.valid).toBe(false);
+		expect(result.errors).toEqual([
+			"Include 'shared#Tests' in deploy/SKILL.md: Section 'Tests' not found. Available sections: Commit Messages",
+			"Include 'references/gone.md' in deploy/SKILL.md: references/gone.md does not exist in 'deploy'",
+		]);
+	});
+
+	it("reports include cycles across skills", () => {
+		writeSkill("a", "<!-- include: b -->");
+		writeSkill("b", "<!-- include: a -->");
+
+		expect(validateSkill(join(skillsDir, "a")).errors).toEqual([
+			"Include 'a' in b/SKILL.md: include cycle a/SKILL.md -> b/SKILL.md -> a/SKILL.md",
+		]);
+	});
+
+	it("warns about skills that are not in the same folder", () => {
+		writeSkill("deploy", "<!-- include: elsewhere#Intro -->");
+
+		const result = validateSkill(join(skillsDir, "deploy"));
+
+		expect(result.valid).toBe(true);
+		expect(result.warnings).toEqual([
+			"Included skill 'elsewhere' is not in this skills/ folder",
+		]);
+	});
+});
+
+describe("validateSkill version", () => {
+	const skillDir = join(TEST_DIR, "repo", "skills", "deploy@2");
+
+	function writeVersion(version: string): void {
+		mkdirSync(skillDir, { recursive: true });
+		writeFileSync(
+			join(skillDir, "SKILL.md"),
+			`---\nname: deploy\ndescription: Deploy\nversion: ${version}\n---\n\nBody.\n`,
+		);
+	}
+
+	afterEach(() => {
+		if (existsSync(TEST_DIR)) {
+			rmSync(TEST_DIR, { recursive: true, force: true });
+		}
+	});
+
+	it("accepts semantic versions", () => {
+		writeVersion("2.0.0-beta.1");
+
+		expect(validateSkill(skillDir).valid).toBe(true);
+	});
+
+	it("rejects versions that are not semantic versions", () => {
+		writeVersion("two");
+		expect(validateSkill(skillDir).errors).toEqual([
+			"Version 'two' is not a semantic version (MAJOR.MINOR.PATCH, e.g. 2.1.0 or 2.0.0-beta.1)",
+		]);
+
+		writeVersion("2.1");
+		expect(validateSkill(skillDir).errors).toEqual([
+			'Version must be a quoted string like "2.1.0", got number',
+		]);
+	});
+});
@@ -0,0 +1,115 @@
+/**
+ * Tests for SourceWatcher - debounced filesystem watching.
+ */
+
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { SourceWatcher } from "../../src/watcher.js";
+
+const TEST_DIR = join(tmpdir(), `skillkit-watcher-test-${Date.now()}`);
+
+/**
+ * Resolve with the first batch of changes reported by a new watcher.
+ */
+function nextChange(
+	paths: string[],
+	debounceMs: number,
+): { watcher: SourceWatcher; changed: Promise<string[]> } {
+	let watcher!: SourceWatcher;
+	const changed = new Promise<string[]>((resolve) => {
+		watcher = new SourceWatcher(paths, resolve, debounceMs);
+	});
+	return { watcher, changed };
+}
+
+describe("SourceWatcher", () => {
+	let watcher: SourceWatcher | undefined;
+
+	beforeEach(() => {
+		mkdirSync(join(TEST_DIR, "skills"), { recursive: true });
+	});
+
+	afterEach(() => {
+		watcher?.close();
+		watcher = undefined;
+		if (existsSync(TEST_DIR)) {
+			rmSync(TEST_DIR, { recursive: true, force: true });
+		}
+	});
+
+	it("reports changed files in nested directories", async () => {
+		const result = nextChange([TEST_DIR], 50);
+		watcher = result.watcher;
+
+		writeFileSync(join(TEST_DIR, "skills", "new.md"), "content");
+
+		expect(await result.changed).toContain(join(TEST_DIR, "skills", "new.md"));
+	});
+
+	it("debounces a burst of changes into one callback", async () => {
+		const batches: string[][] = [];
+		watcher = new SourceWatcher(
+			[TEST_DIR],
+			(changed) => batches.push(changed),
+			100,
+		);
+
+		for (let i = 0; i < 5; i++) {
+			writeFileSync(join(TEST_DIR, "skills", `file-${i}.md`), "x");
+		}
+		await new Promise((r) => setTimeout(r, 400));
+
+		expect(batches).toHaveLength(1);
+		expect(batches[0].length).toBeGreaterThanOrEqual(5);
+	});
+
+	it("ignores changes inside .git", async () => {
+		mkdirSync(join(TEST_DIR, ".git"), { recursive: true });
+		const batches: string[][] = [];
+		watcher = new SourceWatcher(
+			[TEST_DIR],
+			(changed) => batches.push(changed),
+			50,
+		);
+
+		writeFileSync(join(TEST_DIR, ".git", "HEAD"), "ref");
+		await new Promise((r) => setTimeout(r, 200));
+
+		expect(batches).toEqual([]);
+	});
+
+	it("reports changes to every subscriber until it unsubscribes", async () => {
+		const first: string[][] = [];
+		const second: string[][] = [];
+		watcher = new SourceWatcher([TEST_DIR], undefined, 50);
+		const unsubscribe = watcher.subscribe((changed) => first.push(changed));
+		watcher.subscribe((changed) => second.push(changed));
+
+		writeFileSync(join(TEST_DIR, "skills", "a.md"), "x");
+		await new Promise((r) => setTimeout(r, 200));
+		unsubscribe();
+		writeFileSync(join(TEST_DIR, "skills", "b.md"), "x");
+		await new Promise((r) => setTimeout(r, 200));
+
+		expect(watcher.size).toBe(1);
+		expect(first).toEqual([[join(TEST_DIR, "skills", "a.md")]]);
+		expect(second).toEqual([
+			[join(TEST_DIR, "skills", "a.md")],
+			[join(TEST_DIR, "skills", "b.md")],
+		]);
+	});
+
+	it("watches nested source paths only once", () => {
+		watcher = new SourceWatcher([TEST_DIR, join(TEST_DIR, "skills")], () => {});
+
+		expect(watcher.size).toBe(1);
+	});
+
+	it("skips paths that do not exist", () => {
+		watcher = new SourceWatcher([join(TEST_DIR, "missing")], () => {});
+
+		expect(watcher.size).toBe(0);
+	});
+});
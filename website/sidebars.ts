@@ -38,6 +38,7 @@ const sidebars: SidebarsConfig = {
       label: "Reference",
       items: [
         "reference/cli",
+        "reference/configuration",
         "reference/skill-format",
         "reference/mcp-tools",
       ],